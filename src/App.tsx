@@ -1,28 +1,67 @@
-import { BrowserRouter, Routes, Route, NavLink, Navigate } from "react-router";
-import { Home, Search, Library } from "lucide-react";
+import { useState } from "react";
+import {
+  BrowserRouter,
+  Routes,
+  Route,
+  NavLink,
+  Navigate,
+  useNavigate,
+} from "react-router";
+import {
+  Home,
+  Search,
+  Library,
+  ListMusic,
+  LogIn,
+  LogOut,
+  Plus,
+  Server,
+  Settings,
+  UserRound,
+  WifiOff,
+} from "lucide-react";
 import { PlayerBar } from "@/components/player-bar";
 import { SearchBar } from "@/components/search-bar";
+import { RequireAuth } from "@/components/require-auth";
+import { UserAvatar } from "@/components/user-avatar";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
 import { HomePage } from "@/pages/home";
 import { SearchPage } from "@/pages/search";
 import { AlbumPage } from "@/pages/album";
 import { ArtistPage } from "@/pages/artist";
 import { PlaylistPage } from "@/pages/playlist";
 import { LibraryPage } from "@/pages/library";
+import { InstancesPage } from "@/pages/instances";
+import { UserPlaylistPage } from "@/pages/user-playlist";
+import { LoginPage } from "@/pages/login";
+import { AccountPage } from "@/pages/account";
+import { SettingsPage } from "@/pages/settings";
 import logoSrc from "@/assets/icons/moonsway.png";
+import { useNetworkStore } from "@/stores/network-store";
+import { playlistCoverUrl, usePlaylistStore } from "@/stores/playlist-store";
+import { useAuthStore } from "@/stores/auth-store";
 import { cn } from "@/lib/utils";
 
 function NavItem({
   to,
   icon: Icon,
   label,
+  end,
 }: {
   to: string;
   icon: React.ComponentType<{ className?: string }>;
   label: string;
+  /** Only active on `to` itself, not the routes under it. */
+  end?: boolean;
 }) {
   return (
     <NavLink
       to={to}
+      end={end}
       className={({ isActive }) =>
         cn(
           "relative flex items-center gap-2 overflow-hidden rounded-lg px-3 py-2.5 text-sm font-medium transition-colors",
@@ -38,6 +77,151 @@ function NavItem({
   );
 }
 
+function PlaylistNav() {
+  const navigate = useNavigate();
+  const playlists = usePlaylistStore((s) => s.playlists);
+  const coverUrls = usePlaylistStore((s) => s.coverUrls);
+  const createPlaylist = usePlaylistStore((s) => s.createPlaylist);
+
+  return (
+    <div className="mt-6 flex min-h-0 flex-1 flex-col">
+      <div className="flex items-center justify-between px-3 pb-2">
+        <span className="text-xs font-medium uppercase tracking-wider text-muted-foreground">
+          Playlists
+        </span>
+        <button
+          onClick={() => navigate(`/library/playlists/${createPlaylist().id}`)}
+          title="New playlist"
+          className="rounded-md p-1 text-muted-foreground transition-colors hover:bg-accent/70 hover:text-foreground"
+        >
+          <Plus className="size-4" />
+        </button>
+      </div>
+      <div className="themed-scroll flex min-h-0 flex-col gap-0.5 overflow-y-auto">
+        {playlists.length === 0 && (
+          <p className="px-3 text-xs text-muted-foreground">No playlists yet</p>
+        )}
+        {playlists.map((playlist) => {
+          const cover = playlistCoverUrl(playlist, coverUrls);
+          return (
+            <NavLink
+              key={playlist.id}
+              to={`/library/playlists/${playlist.id}`}
+              className={({ isActive }) =>
+                cn(
+                  "flex items-center gap-2 rounded-lg px-3 py-1.5 text-sm transition-colors",
+                  isActive
+                    ? "bg-primary/15 text-foreground"
+                    : "text-muted-foreground hover:bg-accent/70 hover:text-foreground"
+                )
+              }
+            >
+              {cover ? (
+                <img src={cover} alt="" className="size-6 shrink-0 rounded object-cover" />
+              ) : (
+                <span className="flex size-6 shrink-0 items-center justify-center rounded bg-muted">
+                  <ListMusic className="size-3.5" />
+                </span>
+              )}
+              <span className="truncate">{playlist.name}</span>
+            </NavLink>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+function ProfileMenu() {
+  const navigate = useNavigate();
+  const user = useAuthStore((s) => s.user);
+  const signOut = useAuthStore((s) => s.signOut);
+  const pendingActions = useNetworkStore((s) => s.pendingActions);
+  const [open, setOpen] = useState(false);
+
+  if (!user) return <NavItem to="/login" icon={LogIn} label="Sign in" />;
+
+  const itemClassName =
+    "flex w-full items-center gap-2 rounded-md px-2 py-1.5 text-left text-sm transition-colors hover:bg-accent/60";
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <button className="flex items-center gap-2 rounded-lg px-3 py-2 text-left text-sm font-medium text-muted-foreground transition-colors hover:bg-accent/70 hover:text-foreground">
+          <UserAvatar user={user} />
+          <span className="truncate">{user.name || user.email}</span>
+        </button>
+      </PopoverTrigger>
+      <PopoverContent side="top" align="start" className="w-52 p-1">
+        <p className="truncate px-2 pb-1 pt-1.5 text-xs text-muted-foreground">{user.email}</p>
+        <button
+          onClick={() => {
+            setOpen(false);
+            navigate("/account");
+          }}
+          className={itemClassName}
+        >
+          <UserRound className="size-4 text-muted-foreground" />
+          Account
+        </button>
+        <button
+          onClick={() => {
+            setOpen(false);
+            signOut();
+            navigate("/");
+          }}
+          title={
+            pendingActions > 0
+              ? `${pendingActions} changes haven't synced yet and will be discarded`
+              : undefined
+          }
+          className={itemClassName}
+        >
+          <LogOut className="size-4 text-muted-foreground" />
+          Sign out
+        </button>
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+function OfflineToggle() {
+  const isOffline = useNetworkStore((s) => s.isOffline);
+  const isForcedOffline = useNetworkStore((s) => s.isForcedOffline);
+  const pendingActions = useNetworkStore((s) => s.pendingActions);
+  const setForcedOffline = useNetworkStore((s) => s.setForcedOffline);
+
+  return (
+    <button
+      onClick={() => setForcedOffline(!isForcedOffline)}
+      title={
+        isOffline && !isForcedOffline
+          ? "No connection -- offline mode is on automatically"
+          : "Only play downloaded music"
+      }
+      className={cn(
+        "flex items-center gap-2 rounded-lg px-3 py-2.5 text-left text-sm font-medium transition-colors",
+        isOffline
+          ? "bg-amber-500/10 text-amber-400 hover:bg-amber-500/15"
+          : "text-muted-foreground hover:bg-accent/70 hover:text-foreground"
+      )}
+    >
+      <WifiOff className="size-4" />
+      <span className="flex-1">
+        {isForcedOffline ? "Offline mode" : isOffline ? "No connection" : "Go offline"}
+      </span>
+      {pendingActions > 0 && (
+        <span
+          title={`${pendingActions} changes waiting to sync`}
+          className="rounded-full bg-muted px-1.5 text-[10px] tabular-nums text-muted-foreground"
+        >
+          {pendingActions}
+        </span>
+      )}
+    </button>
+  );
+}
+
 function AppLayout() {
   return (
     <div className="flex h-screen w-screen flex-col bg-background bg-[radial-gradient(circle_at_top,rgba(236,72,153,0.14),transparent_36%)] text-foreground">
@@ -53,6 +237,13 @@ function AppLayout() {
             <NavItem to="/search" icon={Search} label="Search" />
             <NavItem to="/library" icon={Library} label="Library" />
           </nav>
+          <PlaylistNav />
+          <div className="mt-4 flex flex-col gap-1">
+            <ProfileMenu />
+            <NavItem to="/settings" icon={Settings} label="Settings" end />
+            <NavItem to="/settings/instances" icon={Server} label="Instances" />
+            <OfflineToggle />
+          </div>
         </aside>
 
         {/* Main content area with header */}
@@ -72,6 +263,18 @@ function AppLayout() {
               <Route path="/artist/:id" element={<ArtistPage />} />
               <Route path="/playlist/:id" element={<PlaylistPage />} />
               <Route path="/library" element={<LibraryPage />} />
+              <Route path="/library/playlists/:id" element={<UserPlaylistPage />} />
+              <Route path="/settings" element={<SettingsPage />} />
+              <Route path="/settings/instances" element={<InstancesPage />} />
+              <Route path="/login" element={<LoginPage />} />
+              <Route
+                path="/account"
+                element={
+                  <RequireAuth>
+                    <AccountPage />
+                  </RequireAuth>
+                }
+              />
               <Route path="*" element={<Navigate to="/" replace />} />
             </Routes>
           </main>
@@ -0,0 +1,86 @@
+import { useState } from "react";
+import { ListMusic, ListPlus, Plus } from "lucide-react";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { usePlaylistStore } from "@/stores/playlist-store";
+import type { Track } from "@/types/music";
+
+const itemClassName =
+  "flex w-full items-center gap-2 rounded-md px-2 py-1.5 text-left text-sm transition-colors hover:bg-accent/60";
+
+/**
+ * Menu items that add `tracks` to one of the user's playlists, or to a
+ * new one. Meant to sit inside a popover; `onDone` closes it.
+ */
+export function PlaylistPicker({
+  tracks,
+  onDone,
+}: {
+  tracks: Track[];
+  onDone: () => void;
+}) {
+  const playlists = usePlaylistStore((s) => s.playlists);
+  const createPlaylist = usePlaylistStore((s) => s.createPlaylist);
+  const addTracks = usePlaylistStore((s) => s.addTracks);
+
+  return (
+    <>
+      <p className="px-2 pb-1 pt-1.5 text-xs font-medium text-muted-foreground">
+        Add to playlist
+      </p>
+      <button
+        type="button"
+        onClick={() => {
+          createPlaylist(undefined, tracks);
+          onDone();
+        }}
+        className={itemClassName}
+      >
+        <Plus className="size-4 text-muted-foreground" />
+        New playlist
+      </button>
+      <div className="max-h-48 overflow-y-auto">
+        {playlists.map((playlist) => (
+          <button
+            key={playlist.id}
+            type="button"
+            onClick={() => {
+              addTracks(playlist.id, tracks);
+              onDone();
+            }}
+            className={itemClassName}
+          >
+            <ListMusic className="size-4 shrink-0 text-muted-foreground" />
+            <span className="truncate">{playlist.name}</span>
+          </button>
+        ))}
+      </div>
+    </>
+  );
+}
+
+/** "Add to playlist" for a whole set of tracks, e.g. an album. */
+export function AddToPlaylistButton({ tracks }: { tracks: Track[] }) {
+  const [open, setOpen] = useState(false);
+
+  if (tracks.length === 0) return null;
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <button
+          title="Add to playlist"
+          className="rounded-full p-2 text-muted-foreground transition-colors hover:bg-accent hover:text-foreground"
+        >
+          <ListPlus className="size-5" />
+        </button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-52 p-1">
+        <PlaylistPicker tracks={tracks} onDone={() => setOpen(false)} />
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,98 @@
+import { useMemo } from "react";
+import { CheckCircle2, Download, Loader2, X } from "lucide-react";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { useDownloadStore } from "@/stores/download-store";
+import { QUALITY_LABELS, QUALITY_LADDER } from "@/lib/quality";
+import type { Track } from "@/types/music";
+
+const buttonClassName =
+  "inline-flex items-center gap-2 rounded-full border border-border/70 px-4 py-2 text-sm font-medium transition-colors hover:bg-accent";
+
+/**
+ * Download (or cancel downloading) a set of tracks, e.g. an album or
+ * playlist. The quality is picked from a popover when starting.
+ */
+export function DownloadButton({ tracks }: { tracks: Track[] }) {
+  const jobs = useDownloadStore((s) => s.jobs);
+  const downloaded = useDownloadStore((s) => s.downloaded);
+  const downloadQuality = useDownloadStore((s) => s.downloadQuality);
+  const download = useDownloadStore((s) => s.download);
+  const cancel = useDownloadStore((s) => s.cancel);
+  const setDownloadQuality = useDownloadStore((s) => s.setDownloadQuality);
+
+  const { doneCount, pendingIds, progress } = useMemo(() => {
+    const ids = new Set(tracks.map((t) => t.id));
+    const pending = jobs.filter((job) => ids.has(job.track.id) && job.status !== "failed");
+    const done = tracks.filter((t) => downloaded[t.id]).length;
+    const partial = pending.reduce((sum, job) => sum + job.progress, 0);
+    return {
+      doneCount: done,
+      pendingIds: pending.map((job) => job.track.id),
+      progress: tracks.length > 0 ? (done + partial) / tracks.length : 0,
+    };
+  }, [tracks, jobs, downloaded]);
+
+  if (tracks.length === 0) return null;
+
+  if (pendingIds.length > 0) {
+    return (
+      <button
+        onClick={() => pendingIds.forEach(cancel)}
+        title="Cancel download"
+        className={buttonClassName}
+      >
+        <Loader2 className="size-4 animate-spin text-primary" />
+        <span className="tabular-nums">{Math.round(progress * 100)}%</span>
+        <X className="size-3.5 text-muted-foreground" />
+      </button>
+    );
+  }
+
+  if (doneCount === tracks.length) {
+    return (
+      <span className={`${buttonClassName} pointer-events-none text-primary`}>
+        <CheckCircle2 className="size-4" />
+        Downloaded
+      </span>
+    );
+  }
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button className={buttonClassName}>
+          <Download className="size-4" />
+          {doneCount > 0 ? `Download ${tracks.length - doneCount} more` : "Download"}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-60 p-2">
+        <p className="px-2 pb-1.5 pt-1 text-sm font-medium">Download quality</p>
+        {QUALITY_LADDER.map((quality) => (
+          <button
+            key={quality}
+            type="button"
+            onClick={() => {
+              setDownloadQuality(quality);
+              download(tracks, quality);
+            }}
+            className="flex w-full flex-col rounded-md px-2 py-1.5 text-left transition-colors hover:bg-accent/60"
+          >
+            <span className="text-sm">
+              {QUALITY_LABELS[quality].label}
+              {quality === downloadQuality && (
+                <span className="ml-1.5 text-xs text-muted-foreground">(last used)</span>
+              )}
+            </span>
+            <span className="text-xs text-muted-foreground">
+              {QUALITY_LABELS[quality].description}
+            </span>
+          </button>
+        ))}
+      </PopoverContent>
+    </Popover>
+  );
+}
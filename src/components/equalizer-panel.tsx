@@ -0,0 +1,301 @@
+import { useEffect, useState } from "react";
+import { Power, RotateCcw, Save, Trash2 } from "lucide-react";
+import { Slider } from "@/components/ui/slider";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { findPreset, useEqualizerStore } from "@/stores/equalizer-store";
+import {
+  BUILT_IN_PRESETS,
+  EQ_GAIN_RANGE,
+  EQ_MAX_FREQUENCY,
+  EQ_MAX_Q,
+  EQ_MIN_FREQUENCY,
+  EQ_MIN_Q,
+  formatFrequency,
+} from "@/lib/audio/equalizer";
+import { cn } from "@/lib/utils";
+
+const selectClassName =
+  "h-8 min-w-0 flex-1 rounded-md border border-input bg-transparent px-2 text-sm outline-none focus-visible:border-ring focus-visible:ring-[3px] focus-visible:ring-ring/50 [&>option]:bg-popover";
+
+function formatGain(db: number): string {
+  return `${db > 0 ? "+" : ""}${db.toFixed(1)} dB`;
+}
+
+/** Audio output devices, kept current as devices come and go. */
+function useOutputDevices(): MediaDeviceInfo[] {
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+
+  useEffect(() => {
+    const mediaDevices = navigator.mediaDevices;
+    if (!mediaDevices?.enumerateDevices) return;
+
+    let cancelled = false;
+    const refresh = () => {
+      mediaDevices
+        .enumerateDevices()
+        .then((all) => {
+          if (!cancelled) {
+            setDevices(all.filter((d) => d.kind === "audiooutput" && d.deviceId));
+          }
+        })
+        .catch((error) => {
+          console.warn("[EQ] Failed to list output devices:", error);
+        });
+    };
+
+    refresh();
+    mediaDevices.addEventListener("devicechange", refresh);
+    return () => {
+      cancelled = true;
+      mediaDevices.removeEventListener("devicechange", refresh);
+    };
+  }, []);
+
+  return devices;
+}
+
+function GainSlider({
+  label,
+  value,
+  selected,
+  disabled,
+  onChange,
+  onSelect,
+}: {
+  label: string;
+  value: number;
+  selected?: boolean;
+  disabled?: boolean;
+  onChange: (value: number) => void;
+  onSelect?: () => void;
+}) {
+  return (
+    <div className="flex flex-col items-center gap-2">
+      <span className="text-[10px] tabular-nums text-muted-foreground">
+        {value > 0 ? "+" : ""}
+        {value.toFixed(0)}
+      </span>
+      <Slider
+        orientation="vertical"
+        min={-EQ_GAIN_RANGE}
+        max={EQ_GAIN_RANGE}
+        step={0.5}
+        value={[value]}
+        disabled={disabled}
+        onValueChange={([val]) => onChange(val ?? 0)}
+        onPointerDown={onSelect}
+        className="min-h-36 [&_[data-slot=slider-thumb]]:size-3.5"
+      />
+      <button
+        type="button"
+        onClick={onSelect}
+        disabled={!onSelect}
+        className={cn(
+          "rounded px-1 text-[10px] font-medium text-muted-foreground transition-colors enabled:hover:text-foreground",
+          selected && "bg-primary/15 text-foreground"
+        )}
+      >
+        {label}
+      </button>
+    </div>
+  );
+}
+
+export function EqualizerPanel() {
+  const enabled = useEqualizerStore((s) => s.enabled);
+  const preamp = useEqualizerStore((s) => s.preamp);
+  const bands = useEqualizerStore((s) => s.bands);
+  const presetId = useEqualizerStore((s) => s.presetId);
+  const customPresets = useEqualizerStore((s) => s.customPresets);
+  const outputDeviceId = useEqualizerStore((s) => s.outputDeviceId);
+
+  const setEnabled = useEqualizerStore((s) => s.setEnabled);
+  const setPreamp = useEqualizerStore((s) => s.setPreamp);
+  const updateBand = useEqualizerStore((s) => s.updateBand);
+  const applyPreset = useEqualizerStore((s) => s.applyPreset);
+  const savePreset = useEqualizerStore((s) => s.savePreset);
+  const deletePreset = useEqualizerStore((s) => s.deletePreset);
+  const resetBands = useEqualizerStore((s) => s.resetBands);
+  const setOutputDevice = useEqualizerStore((s) => s.setOutputDevice);
+
+  const devices = useOutputDevices();
+  const [selectedBand, setSelectedBand] = useState(0);
+  const [presetName, setPresetName] = useState("");
+
+  const band = bands[selectedBand];
+  const isCustomPreset = customPresets.some((p) => p.id === presetId);
+
+  return (
+    <div className="flex flex-col gap-3">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <p className="text-sm font-medium">Equalizer</p>
+        <div className="flex items-center gap-1">
+          <Button
+            variant="ghost"
+            size="icon-xs"
+            title="Reset to flat"
+            onClick={resetBands}
+            className="text-muted-foreground hover:text-foreground"
+          >
+            <RotateCcw />
+          </Button>
+          <Button
+            variant="ghost"
+            size="xs"
+            onClick={() => setEnabled(!enabled)}
+            className={cn(
+              "text-muted-foreground hover:text-foreground",
+              enabled && "text-primary hover:text-primary"
+            )}
+          >
+            <Power />
+            {enabled ? "On" : "Off"}
+          </Button>
+        </div>
+      </div>
+
+      {/* Preset + device */}
+      <div className="flex items-center gap-2">
+        <select
+          aria-label="Preset"
+          value={presetId ?? ""}
+          onChange={(e) => applyPreset(e.target.value)}
+          className={selectClassName}
+        >
+          {!findPreset(presetId, customPresets) && <option value="">Custom</option>}
+          <optgroup label="Built-in">
+            {BUILT_IN_PRESETS.map((preset) => (
+              <option key={preset.id} value={preset.id}>
+                {preset.name}
+              </option>
+            ))}
+          </optgroup>
+          {customPresets.length > 0 && (
+            <optgroup label="Saved">
+              {customPresets.map((preset) => (
+                <option key={preset.id} value={preset.id}>
+                  {preset.name}
+                </option>
+              ))}
+            </optgroup>
+          )}
+        </select>
+        {isCustomPreset && presetId && (
+          <Button
+            variant="ghost"
+            size="icon-xs"
+            title="Delete preset"
+            onClick={() => deletePreset(presetId)}
+            className="text-muted-foreground hover:text-destructive"
+          >
+            <Trash2 />
+          </Button>
+        )}
+        <select
+          aria-label="Output device"
+          value={outputDeviceId}
+          onChange={(e) => setOutputDevice(e.target.value)}
+          className={selectClassName}
+        >
+          {!devices.some((d) => d.deviceId === "default") && (
+            <option value="default">System default</option>
+          )}
+          {devices.map((device, i) => (
+            <option key={device.deviceId} value={device.deviceId}>
+              {device.deviceId === "default"
+                ? "System default"
+                : device.label || `Output ${i + 1}`}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {/* Sliders */}
+      <div className="flex items-end justify-between gap-1 rounded-md bg-muted/30 px-2 py-3">
+        <GainSlider
+          label="Pre"
+          value={preamp}
+          disabled={!enabled}
+          onChange={setPreamp}
+        />
+        <div className="mx-1 self-stretch border-l border-border/70" />
+        {bands.map((b, index) => (
+          <GainSlider
+            key={index}
+            label={formatFrequency(b.frequency)}
+            value={b.gain}
+            selected={index === selectedBand}
+            disabled={!enabled}
+            onChange={(gain) => updateBand(index, { gain })}
+            onSelect={() => setSelectedBand(index)}
+          />
+        ))}
+      </div>
+
+      {/* Selected band */}
+      {band && (
+        <div className="flex items-center gap-2 text-xs text-muted-foreground">
+          <span className="w-20 shrink-0 capitalize">{band.type}</span>
+          <label className="flex items-center gap-1">
+            Hz
+            <Input
+              type="number"
+              min={EQ_MIN_FREQUENCY}
+              max={EQ_MAX_FREQUENCY}
+              value={Math.round(band.frequency)}
+              disabled={!enabled}
+              onChange={(e) => {
+                const frequency = Number(e.target.value);
+                if (frequency > 0) updateBand(selectedBand, { frequency });
+              }}
+              className="h-7 w-20 text-xs"
+            />
+          </label>
+          <label className="flex items-center gap-1">
+            Q
+            <Input
+              type="number"
+              min={EQ_MIN_Q}
+              max={EQ_MAX_Q}
+              step={0.1}
+              value={band.q}
+              disabled={!enabled}
+              onChange={(e) => {
+                const q = Number(e.target.value);
+                if (q > 0) updateBand(selectedBand, { q });
+              }}
+              className="h-7 w-16 text-xs"
+            />
+          </label>
+          <span className="ml-auto tabular-nums">{formatGain(band.gain)}</span>
+        </div>
+      )}
+
+      {/* Save preset */}
+      <form
+        className="flex items-center gap-2"
+        onSubmit={(e) => {
+          e.preventDefault();
+          savePreset(presetName);
+          setPresetName("");
+        }}
+      >
+        <Input
+          value={presetName}
+          onChange={(e) => setPresetName(e.target.value)}
+          placeholder="Save current settings as..."
+          className="h-8 text-sm"
+        />
+        <Button type="submit" size="sm" variant="secondary" disabled={!presetName.trim()}>
+          <Save />
+          Save
+        </Button>
+      </form>
+      <p className="text-xs text-muted-foreground">
+        Settings are remembered separately for each output device.
+      </p>
+    </div>
+  );
+}
@@ -11,12 +11,37 @@ import {
   Volume1,
   VolumeX,
   Loader2,
+  Blend,
+  Check,
+  SlidersHorizontal,
+  ListMusic,
 } from "lucide-react";
 import { Slider } from "@/components/ui/slider";
 import { Button } from "@/components/ui/button";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from "@/components/ui/sheet";
+import { EqualizerPanel } from "@/components/equalizer-panel";
+import { QueuePanel } from "@/components/queue-panel";
 import { usePlayerStore } from "@/stores/player-store";
+import { useEqualizerStore } from "@/stores/equalizer-store";
 import { getCoverUrl } from "@/lib/api/music-api";
-import { formatTime } from "@/lib/format";
+import { formatStreamFormat, formatTime } from "@/lib/format";
+import {
+  NORMALIZATION_LABELS,
+  NORMALIZATION_MODES,
+} from "@/lib/audio/normalization";
+import { QUALITY_LABELS, QUALITY_LADDER } from "@/lib/quality";
 import { cn } from "@/lib/utils";
 
 export function PlayerBar() {
@@ -28,7 +53,14 @@ export function PlayerBar() {
   const volume = usePlayerStore((s) => s.volume);
   const isMuted = usePlayerStore((s) => s.isMuted);
   const shuffleActive = usePlayerStore((s) => s.shuffleActive);
+  const shuffleMode = usePlayerStore((s) => s.shuffleMode);
   const repeatMode = usePlayerStore((s) => s.repeatMode);
+  const crossfade = usePlayerStore((s) => s.crossfade);
+  const quality = usePlayerStore((s) => s.quality);
+  const playedQuality = usePlayerStore((s) => s.playedQuality);
+  const revertQuality = usePlayerStore((s) => s.revertQuality);
+  const stream = usePlayerStore((s) => s.stream);
+  const normalization = usePlayerStore((s) => s.normalization);
 
   const togglePlayPause = usePlayerStore((s) => s.togglePlayPause);
   const playNext = usePlayerStore((s) => s.playNext);
@@ -38,6 +70,11 @@ export function PlayerBar() {
   const toggleMute = usePlayerStore((s) => s.toggleMute);
   const toggleShuffle = usePlayerStore((s) => s.toggleShuffle);
   const cycleRepeat = usePlayerStore((s) => s.cycleRepeat);
+  const setCrossfade = usePlayerStore((s) => s.setCrossfade);
+  const setQuality = usePlayerStore((s) => s.setQuality);
+  const setRevertQuality = usePlayerStore((s) => s.setRevertQuality);
+  const setNormalization = usePlayerStore((s) => s.setNormalization);
+  const eqEnabled = useEqualizerStore((s) => s.enabled);
   const [isScrubbing, setIsScrubbing] = useState(false);
   const [scrubTime, setScrubTime] = useState(0);
 
@@ -52,6 +89,8 @@ export function PlayerBar() {
       : Volume2;
 
   const RepeatIcon = repeatMode === "one" ? Repeat1 : Repeat;
+  const isFallbackQuality = playedQuality != null && playedQuality !== quality;
+  const streamFormat = stream ? formatStreamFormat(stream) : "";
   const progressValue = isScrubbing ? scrubTime : currentTime;
 
   useEffect(() => {
@@ -111,6 +150,7 @@ export function PlayerBar() {
             variant="ghost"
             size="icon-xs"
             onClick={toggleShuffle}
+            title={shuffleMode === "smart" ? "Smart shuffle" : "Shuffle"}
             className={cn(
               "text-muted-foreground hover:bg-accent/70 hover:text-foreground",
               shuffleActive && "text-primary"
@@ -195,8 +235,176 @@ export function PlayerBar() {
         </div>
       </div>
 
-      {/* Right: volume */}
+      {/* Right: quality, EQ, crossfade + volume */}
       <div className="flex w-1/3 items-center justify-end gap-2">
+        {streamFormat && (
+          <span
+            title={
+              stream?.audioMode
+                ? `Delivered ${streamFormat} (${stream.audioMode})`
+                : `Delivered ${streamFormat}`
+            }
+            className="font-mono text-[10px] tracking-wide text-muted-foreground tabular-nums"
+          >
+            {streamFormat}
+          </span>
+        )}
+        <Popover>
+          <PopoverTrigger asChild>
+            <Button
+              variant="ghost"
+              size="xs"
+              title={
+                isFallbackQuality
+                  ? `Playing ${QUALITY_LABELS[playedQuality].label} (${QUALITY_LABELS[quality].label} unavailable)`
+                  : "Stream quality"
+              }
+              className={cn(
+                "rounded border border-border/70 px-1.5 text-[10px] font-semibold tracking-wider text-muted-foreground hover:bg-accent/70 hover:text-foreground",
+                isFallbackQuality && "border-amber-500/50 text-amber-400"
+              )}
+            >
+              {QUALITY_LABELS[playedQuality ?? quality].badge}
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent side="top" align="end" className="w-64 p-2">
+            <p className="px-2 pb-1.5 pt-1 text-sm font-medium">Stream quality</p>
+            {QUALITY_LADDER.map((option) => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => setQuality(option)}
+                className="flex w-full items-center gap-2 rounded-md px-2 py-1.5 text-left transition-colors hover:bg-accent/60"
+              >
+                <Check
+                  className={cn(
+                    "size-3.5 shrink-0 text-primary",
+                    option !== quality && "invisible"
+                  )}
+                />
+                <div className="min-w-0">
+                  <p className="text-sm">{QUALITY_LABELS[option].label}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {QUALITY_LABELS[option].description}
+                  </p>
+                </div>
+              </button>
+            ))}
+            <div className="my-1.5 border-t border-border/70" />
+            <button
+              type="button"
+              onClick={() => setRevertQuality(!revertQuality)}
+              className="flex w-full items-center gap-2 rounded-md px-2 py-1.5 text-left text-xs text-muted-foreground transition-colors hover:bg-accent/60 hover:text-foreground"
+            >
+              <Check
+                className={cn(
+                  "size-3.5 shrink-0 text-primary",
+                  !revertQuality && "invisible"
+                )}
+              />
+              Retry preferred quality on the next track after a fallback
+            </button>
+            <div className="my-1.5 border-t border-border/70" />
+            <p className="px-2 pb-1.5 pt-1 text-sm font-medium">Volume normalization</p>
+            {NORMALIZATION_MODES.map((mode) => (
+              <button
+                key={mode}
+                type="button"
+                onClick={() => setNormalization(mode)}
+                className="flex w-full items-center gap-2 rounded-md px-2 py-1.5 text-left transition-colors hover:bg-accent/60"
+              >
+                <Check
+                  className={cn(
+                    "size-3.5 shrink-0 text-primary",
+                    mode !== normalization && "invisible"
+                  )}
+                />
+                <div className="min-w-0">
+                  <p className="text-sm">{NORMALIZATION_LABELS[mode].label}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {NORMALIZATION_LABELS[mode].description}
+                  </p>
+                </div>
+              </button>
+            ))}
+          </PopoverContent>
+        </Popover>
+
+        <Sheet>
+          <SheetTrigger asChild>
+            <Button
+              variant="ghost"
+              size="icon-xs"
+              title="Queue"
+              className="text-muted-foreground hover:bg-accent/70 hover:text-foreground"
+            >
+              <ListMusic className="size-4" />
+            </Button>
+          </SheetTrigger>
+          <SheetContent side="right" className="gap-0 sm:max-w-md">
+            <SheetHeader>
+              <SheetTitle>Queue</SheetTitle>
+              <SheetDescription className="sr-only">
+                Reorder, remove and jump between queued tracks
+              </SheetDescription>
+            </SheetHeader>
+            <QueuePanel />
+          </SheetContent>
+        </Sheet>
+
+        <Popover>
+          <PopoverTrigger asChild>
+            <Button
+              variant="ghost"
+              size="icon-xs"
+              title="Equalizer"
+              className={cn(
+                "text-muted-foreground hover:bg-accent/70 hover:text-foreground",
+                eqEnabled && "text-primary"
+              )}
+            >
+              <SlidersHorizontal className="size-4" />
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent side="top" align="end" className="w-[30rem]">
+            <EqualizerPanel />
+          </PopoverContent>
+        </Popover>
+
+        <Popover>
+          <PopoverTrigger asChild>
+            <Button
+              variant="ghost"
+              size="icon-xs"
+              title="Crossfade"
+              className={cn(
+                "text-muted-foreground hover:bg-accent/70 hover:text-foreground",
+                crossfade > 0 && "text-primary"
+              )}
+            >
+              <Blend className="size-4" />
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent side="top" align="end" className="w-64">
+            <div className="flex items-center justify-between">
+              <p className="text-sm font-medium">Crossfade</p>
+              <span className="text-xs tabular-nums text-muted-foreground">
+                {crossfade > 0 ? `${crossfade}s` : "Off"}
+              </span>
+            </div>
+            <Slider
+              min={0}
+              max={12}
+              step={1}
+              value={[crossfade]}
+              onValueChange={([val]) => setCrossfade(val ?? 0)}
+              className="mt-3"
+            />
+            <p className="mt-3 text-xs text-muted-foreground">
+              Tracks from the same album always play gapless.
+            </p>
+          </PopoverContent>
+        </Popover>
         <Button
           variant="ghost"
           size="icon-xs"
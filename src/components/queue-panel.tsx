@@ -0,0 +1,346 @@
+import { useState, type ReactNode } from "react";
+import { Check, GripVertical, Sparkles, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { usePlayerStore } from "@/stores/player-store";
+import { getCoverUrl } from "@/lib/api/music-api";
+import { formatTime } from "@/lib/format";
+import { SHUFFLE_MODE_LABELS, SHUFFLE_MODES } from "@/lib/shuffle";
+import { cn } from "@/lib/utils";
+import type { QueueEntry } from "@/lib/queue";
+
+// Entries rendered per section; long radio queues stay cheap
+const MAX_VISIBLE = 50;
+const MAX_HISTORY_VISIBLE = 20;
+
+export function QueuePanel() {
+  const queue = usePlayerStore((s) => s.queue);
+  const currentIndex = usePlayerStore((s) => s.currentIndex);
+  const currentTrack = usePlayerStore((s) => s.currentTrack);
+  const autoplay = usePlayerStore((s) => s.autoplay);
+  const radio = usePlayerStore((s) => s.radio);
+  const setAutoplay = usePlayerStore((s) => s.setAutoplay);
+  const shuffleMode = usePlayerStore((s) => s.shuffleMode);
+  const shuffleFavorites = usePlayerStore((s) => s.shuffleFavorites);
+  const setShuffleMode = usePlayerStore((s) => s.setShuffleMode);
+  const setShuffleFavorites = usePlayerStore((s) => s.setShuffleFavorites);
+  const moveInQueue = usePlayerStore((s) => s.moveInQueue);
+  const removeFromQueue = usePlayerStore((s) => s.removeFromQueue);
+  const skipTo = usePlayerStore((s) => s.skipTo);
+
+  const [selectedUids, setSelectedUids] = useState<Set<string>>(() => new Set());
+  const [dragFrom, setDragFrom] = useState<number | null>(null);
+  const [dropAt, setDropAt] = useState<number | null>(null);
+
+  const upNextStart = currentIndex + 1;
+  const historyStart = Math.max(0, currentIndex - MAX_HISTORY_VISIBLE);
+  const upcoming = queue.slice(upNextStart);
+  // Entries removed some other way drop out of the selection
+  const selected = upcoming.filter((entry) => selectedUids.has(entry.uid));
+
+  const toggleSelected = (uid: string) => {
+    const next = new Set(selectedUids);
+    if (next.has(uid)) next.delete(uid);
+    else next.add(uid);
+    setSelectedUids(next);
+  };
+
+  const removeSelected = () => {
+    removeFromQueue(selected.map((entry) => entry.uid));
+    setSelectedUids(new Set());
+  };
+
+  const endDrag = () => {
+    setDragFrom(null);
+    setDropAt(null);
+  };
+
+  const renderRow = (index: number, options: { muted?: boolean } = {}) => {
+    const entry = queue[index];
+    const isUpcoming = index > currentIndex;
+    return (
+      <QueueRow
+        key={entry.uid}
+        entry={entry}
+        isCurrent={index === currentIndex}
+        isSelected={selectedUids.has(entry.uid)}
+        isDropTarget={dropAt === index && dragFrom !== null && dragFrom !== index}
+        muted={options.muted}
+        draggable={isUpcoming}
+        onPlay={() => skipTo(index)}
+        onToggleSelect={isUpcoming ? () => toggleSelected(entry.uid) : undefined}
+        onDragStart={() => setDragFrom(index)}
+        onDragOver={() => {
+          if (dragFrom !== null && isUpcoming) setDropAt(index);
+        }}
+        onDrop={() => {
+          if (dragFrom !== null && isUpcoming) moveInQueue(dragFrom, index);
+          endDrag();
+        }}
+        onDragEnd={endDrag}
+      />
+    );
+  };
+
+  // Upcoming rows, with a heading wherever a run of autoplay picks starts
+  const upcomingRows = upcoming.slice(0, MAX_VISIBLE).flatMap((entry, i) => {
+    const row = renderRow(upNextStart + i, { muted: entry.autoplay });
+    const startsAutoplay = entry.autoplay && (i === 0 || !upcoming[i - 1].autoplay);
+    return startsAutoplay
+      ? [
+          <SectionTitle key={`autoplay-${entry.uid}`} className="pt-2">
+            <Sparkles className="size-3.5 text-primary" />
+            Autoplay
+          </SectionTitle>,
+          row,
+        ]
+      : [row];
+  });
+
+  return (
+    <div className="flex min-h-0 flex-1 flex-col">
+      <div className="flex items-center justify-between gap-2 px-4 pb-2">
+        <p className="text-xs text-muted-foreground">
+          {selected.length > 0
+            ? `${selected.length} selected`
+            : `${upcoming.length} upcoming`}
+        </p>
+        <div className="flex items-center gap-1">
+          {selected.length > 0 ? (
+            <>
+              <Button variant="ghost" size="xs" onClick={() => setSelectedUids(new Set())}>
+                Cancel
+              </Button>
+              <Button variant="destructive" size="xs" onClick={removeSelected}>
+                <Trash2 className="size-3.5" />
+                Remove
+              </Button>
+            </>
+          ) : (
+            upcoming.length > 0 && (
+              <Button
+                variant="ghost"
+                size="xs"
+                onClick={() => removeFromQueue(upcoming.map((entry) => entry.uid))}
+                className="text-muted-foreground"
+              >
+                Clear upcoming
+              </Button>
+            )
+          )}
+        </div>
+      </div>
+
+      <div className="flex min-h-0 flex-1 flex-col gap-4 overflow-y-auto px-2 pb-2">
+        {currentIndex > 0 && (
+          <section>
+            <SectionTitle>History</SectionTitle>
+            {Array.from(
+              { length: currentIndex - historyStart },
+              (_, i) => historyStart + i
+            ).map((index) => renderRow(index, { muted: true }))}
+          </section>
+        )}
+
+        <section>
+          <SectionTitle>Now playing</SectionTitle>
+          {currentTrack && queue[currentIndex] ? (
+            renderRow(currentIndex)
+          ) : (
+            <p className="px-2 text-xs text-muted-foreground">Nothing playing</p>
+          )}
+        </section>
+
+        <section>
+          <SectionTitle>{radio ? `${radio.name} Radio` : "Next up"}</SectionTitle>
+          {upcomingRows.length > 0 ? (
+            upcomingRows
+          ) : (
+            <p className="px-2 text-xs text-muted-foreground">
+              {radio ? "Finding more tracks..." : "Queue is empty"}
+            </p>
+          )}
+        </section>
+      </div>
+
+      <div className="border-t border-border/70 p-2">
+        <SettingToggle checked={autoplay} onToggle={() => setAutoplay(!autoplay)}>
+          Autoplay similar tracks when the queue ends
+        </SettingToggle>
+        <p className="px-2 pb-1 pt-2 text-xs font-medium">Shuffle</p>
+        <div className="grid grid-cols-2 gap-1 px-2 pb-1">
+          {SHUFFLE_MODES.map((mode) => (
+            <button
+              key={mode}
+              type="button"
+              onClick={() => setShuffleMode(mode)}
+              title={SHUFFLE_MODE_LABELS[mode].description}
+              className={cn(
+                "rounded-md border px-2 py-1 text-xs transition-colors",
+                mode === shuffleMode
+                  ? "border-primary text-primary"
+                  : "border-border/70 text-muted-foreground hover:bg-accent/60 hover:text-foreground"
+              )}
+            >
+              {SHUFFLE_MODE_LABELS[mode].label}
+            </button>
+          ))}
+        </div>
+        {shuffleMode === "smart" && (
+          <SettingToggle
+            checked={shuffleFavorites}
+            onToggle={() => setShuffleFavorites(!shuffleFavorites)}
+          >
+            Play favorite tracks earlier
+          </SettingToggle>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function SettingToggle({
+  checked,
+  onToggle,
+  children,
+}: {
+  checked: boolean;
+  onToggle: () => void;
+  children: ReactNode;
+}) {
+  return (
+    <button
+      type="button"
+      onClick={onToggle}
+      className="flex w-full items-center gap-2 rounded-md px-2 py-1.5 text-left text-xs text-muted-foreground transition-colors hover:bg-accent/60 hover:text-foreground"
+    >
+      <Check className={cn("size-3.5 shrink-0 text-primary", !checked && "invisible")} />
+      {children}
+    </button>
+  );
+}
+
+function SectionTitle({
+  children,
+  className,
+}: {
+  children: ReactNode;
+  className?: string;
+}) {
+  return (
+    <p
+      className={cn(
+        "flex items-center gap-1.5 px-2 pb-1.5 text-xs font-medium uppercase tracking-wider text-muted-foreground",
+        className
+      )}
+    >
+      {children}
+    </p>
+  );
+}
+
+interface QueueRowProps {
+  entry: QueueEntry;
+  isCurrent: boolean;
+  isSelected: boolean;
+  isDropTarget: boolean;
+  muted?: boolean;
+  draggable: boolean;
+  onPlay: () => void;
+  /** Absent for rows that can't be removed (history, now playing). */
+  onToggleSelect?: () => void;
+  onDragStart: () => void;
+  onDragOver: () => void;
+  onDrop: () => void;
+  onDragEnd: () => void;
+}
+
+function QueueRow({
+  entry,
+  isCurrent,
+  isSelected,
+  isDropTarget,
+  muted = false,
+  draggable,
+  onPlay,
+  onToggleSelect,
+  onDragStart,
+  onDragOver,
+  onDrop,
+  onDragEnd,
+}: QueueRowProps) {
+  const { track } = entry;
+  const coverUrl = track.album?.cover ? getCoverUrl(track.album.cover, "80") : "";
+
+  return (
+    <div
+      draggable={draggable}
+      onDragStart={(e) => {
+        e.dataTransfer.effectAllowed = "move";
+        onDragStart();
+      }}
+      onDragOver={(e) => {
+        e.preventDefault();
+        onDragOver();
+      }}
+      onDrop={(e) => {
+        e.preventDefault();
+        onDrop();
+      }}
+      onDragEnd={onDragEnd}
+      className={cn(
+        "group flex items-center gap-2 rounded-md border-t-2 border-transparent px-1 py-1.5 transition-colors hover:bg-accent/50",
+        isCurrent && "bg-accent/30",
+        isSelected && "bg-primary/10",
+        isDropTarget && "border-primary",
+        entry.autoplay && "border-l-2 border-l-primary/40",
+        muted && !isSelected && "opacity-75"
+      )}
+    >
+      {draggable ? (
+        <GripVertical className="size-3.5 shrink-0 cursor-grab text-muted-foreground opacity-0 group-hover:opacity-100" />
+      ) : (
+        <span className="size-3.5 shrink-0" />
+      )}
+
+      <button
+        type="button"
+        onClick={onPlay}
+        className="flex min-w-0 flex-1 items-center gap-2.5 text-left"
+      >
+        {coverUrl ? (
+          <img src={coverUrl} alt="" className="size-9 shrink-0 rounded object-cover" />
+        ) : (
+          <div className="size-9 shrink-0 rounded bg-muted" />
+        )}
+        <div className="min-w-0 flex-1">
+          <p className={cn("truncate text-sm", isCurrent && "text-primary")}>
+            {track.title}
+          </p>
+          <p className="truncate text-xs text-muted-foreground">{track.artist.name}</p>
+        </div>
+      </button>
+
+      <span className="text-xs tabular-nums text-muted-foreground">
+        {formatTime(track.duration)}
+      </span>
+
+      {onToggleSelect ? (
+        <button
+          type="button"
+          onClick={onToggleSelect}
+          title={isSelected ? "Deselect" : "Select"}
+          className={cn(
+            "flex size-4 shrink-0 items-center justify-center rounded border border-border transition-opacity",
+            isSelected
+              ? "border-primary bg-primary text-primary-foreground"
+              : "opacity-0 group-hover:opacity-100"
+          )}
+        >
+          {isSelected && <Check className="size-3" />}
+        </button>
+      ) : (
+        <span className="size-4 shrink-0" />
+      )}
+    </div>
+  );
+}
@@ -2,39 +2,10 @@ import { type FormEvent, useEffect, useRef, useState } from "react";
 import { useNavigate, useLocation } from "react-router";
 import { Search as SearchIcon, Loader2, X } from "lucide-react";
 import { Input } from "@/components/ui/input";
+import { useSetting, useSettingsStore } from "@/stores/settings-store";
 
 const DEBOUNCE_MS = 300;
-const RECENT_SEARCHES_KEY = "moonsway-recent-searches";
 const CURRENT_SEARCH_KEY = "moonsway-current-search";
-const MAX_RECENT_QUERIES = 6;
-
-function readRecentQueries(): string[] {
-  try {
-    const raw = localStorage.getItem(RECENT_SEARCHES_KEY);
-    if (!raw) return [];
-    const parsed = JSON.parse(raw);
-    if (!Array.isArray(parsed)) return [];
-    return parsed.filter((item): item is string => typeof item === "string");
-  } catch {
-    return [];
-  }
-}
-
-function persistRecentQueries(queries: string[]): void {
-  try {
-    localStorage.setItem(RECENT_SEARCHES_KEY, JSON.stringify(queries));
-  } catch {
-    // Ignore storage errors.
-  }
-}
-
-function clearRecentQueriesStorage(): void {
-  try {
-    localStorage.removeItem(RECENT_SEARCHES_KEY);
-  } catch {
-    // Ignore storage errors.
-  }
-}
 
 function persistCurrentSearch(query: string): void {
   try {
@@ -54,7 +25,8 @@ export function SearchBar() {
   const [query, setQuery] = useState("");
   const [isLoading, setIsLoading] = useState(false);
   const [showRecentDropdown, setShowRecentDropdown] = useState(false);
-  const [recentQueries, setRecentQueries] = useState<string[]>(() => readRecentQueries());
+  const recentQueries = useSetting("search.recentSearches");
+  const setSetting = useSettingsStore((s) => s.setSetting);
   const containerRef = useRef<HTMLDivElement | null>(null);
   const inputRef = useRef<HTMLInputElement | null>(null);
   const debounceRef = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
@@ -137,14 +109,11 @@ export function SearchBar() {
     const normalized = rawQuery.trim();
     if (!normalized) return;
 
-    setRecentQueries((prev) => {
-      const next = [
-        normalized,
-        ...prev.filter((item) => item.toLowerCase() !== normalized.toLowerCase()),
-      ].slice(0, MAX_RECENT_QUERIES);
-      persistRecentQueries(next);
-      return next;
-    });
+    // The setting keeps only the newest few
+    setSetting("search.recentSearches", [
+      normalized,
+      ...recentQueries.filter((item) => item.toLowerCase() !== normalized.toLowerCase()),
+    ]);
   };
 
   const handleClear = () => {
@@ -178,8 +147,7 @@ export function SearchBar() {
   };
 
   const handleClearRecentQueries = () => {
-    setRecentQueries([]);
-    clearRecentQueriesStorage();
+    setSetting("search.recentSearches", []);
     setShowRecentDropdown(false);
   };
 
@@ -1,7 +1,23 @@
 import { useMemo, useState } from "react";
-import { Play, Pause, Heart } from "lucide-react";
+import {
+  Play,
+  Pause,
+  Heart,
+  Ellipsis,
+  ListEnd,
+  ListStart,
+  ListX,
+} from "lucide-react";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { PlaylistPicker } from "@/components/add-to-playlist";
 import { usePlayerStore } from "@/stores/player-store";
 import { useLibraryStore } from "@/stores/library-store";
+import { useDownloadStore } from "@/stores/download-store";
+import { useNetworkStore } from "@/stores/network-store";
 import { getCoverUrl } from "@/lib/api/music-api";
 import { formatTime } from "@/lib/format";
 import { cn } from "@/lib/utils";
@@ -10,16 +26,24 @@ import type { Track } from "@/types/music";
 interface TrackListProps {
   tracks: Track[];
   onPlay: (track: Track, index: number) => void;
+  /** Offer "Remove" on each row, e.g. for the user's own playlists. */
+  onRemove?: (index: number) => void;
+  /** Make rows draggable to reorder them. */
+  onMove?: (from: number, to: number) => void;
 }
 
-export function TrackList({ tracks, onPlay }: TrackListProps) {
+export function TrackList({ tracks, onPlay, onRemove, onMove }: TrackListProps) {
   const currentTrack = usePlayerStore((s) => s.currentTrack);
   const isPlaying = usePlayerStore((s) => s.isPlaying);
   const favoriteTracks = useLibraryStore((s) => s.favoriteTracks);
   const toggleFavoriteTrack = useLibraryStore((s) => s.toggleFavoriteTrack);
+  const isOffline = useNetworkStore((s) => s.isOffline);
+  const downloaded = useDownloadStore((s) => s.downloaded);
   const [failedCoverIds, setFailedCoverIds] = useState<Set<string>>(
     () => new Set()
   );
+  const [dragFrom, setDragFrom] = useState<number | null>(null);
+  const [dropAt, setDropAt] = useState<number | null>(null);
   const favoriteTrackIds = useMemo(
     () => new Set(favoriteTracks.map((track) => track.id)),
     [favoriteTracks]
@@ -28,11 +52,12 @@ export function TrackList({ tracks, onPlay }: TrackListProps) {
   return (
     <div className="flex flex-col">
       {/* Header */}
-      <div className="grid grid-cols-[2rem_1fr_1fr_2rem_4rem] items-center gap-3 border-b border-border px-4 py-2 text-xs font-medium uppercase tracking-wider text-muted-foreground">
+      <div className="grid grid-cols-[2rem_1fr_1fr_2rem_2rem_4rem] items-center gap-3 border-b border-border px-4 py-2 text-xs font-medium uppercase tracking-wider text-muted-foreground">
         <span className="text-center">#</span>
         <span>Title</span>
         <span>Album</span>
         <span />
+        <span />
         <span className="text-right">Time</span>
       </div>
 
@@ -44,18 +69,45 @@ export function TrackList({ tracks, onPlay }: TrackListProps) {
           ? getCoverUrl(track.album.cover, "320")
           : "";
         const canShowCover = Boolean(coverUrl) && !failedCoverIds.has(track.id);
+        // Offline, only downloaded tracks can play
+        const isUnavailable = isOffline && !downloaded[track.id];
+        const isDropTarget = dropAt === index && dragFrom !== null && dragFrom !== index;
 
         return (
           <div
             key={`${track.id}-${index}`}
+            draggable={Boolean(onMove)}
+            onDragStart={(e) => {
+              e.dataTransfer.effectAllowed = "move";
+              setDragFrom(index);
+            }}
+            onDragOver={(e) => {
+              if (dragFrom === null) return;
+              e.preventDefault();
+              setDropAt(index);
+            }}
+            onDrop={(e) => {
+              e.preventDefault();
+              if (dragFrom !== null) onMove?.(dragFrom, index);
+              setDragFrom(null);
+              setDropAt(null);
+            }}
+            onDragEnd={() => {
+              setDragFrom(null);
+              setDropAt(null);
+            }}
             className={cn(
-              "group grid grid-cols-[2rem_1fr_1fr_2rem_4rem] items-center gap-3 rounded-md px-4 py-2 transition-colors hover:bg-accent/50",
-              isCurrent && "bg-accent/30"
+              "group grid grid-cols-[2rem_1fr_1fr_2rem_2rem_4rem] items-center gap-3 rounded-md border-t-2 border-transparent px-4 py-2 transition-colors hover:bg-accent/50",
+              isCurrent && "bg-accent/30",
+              isUnavailable && "opacity-40 hover:bg-transparent",
+              isDropTarget && "border-primary"
             )}
+            title={isUnavailable ? "Not available offline" : undefined}
           >
             {/* Number / play icon */}
             <button
               onClick={() => onPlay(track, index)}
+              disabled={isUnavailable}
               className="flex items-center justify-center text-sm text-muted-foreground"
             >
               {isCurrent && isPlaying ? (
@@ -77,6 +129,7 @@ export function TrackList({ tracks, onPlay }: TrackListProps) {
             {/* Title + artist */}
             <button
               onClick={() => onPlay(track, index)}
+              disabled={isUnavailable}
               className="flex min-w-0 items-center gap-3 text-left"
             >
               {canShowCover ? (
@@ -138,6 +191,13 @@ export function TrackList({ tracks, onPlay }: TrackListProps) {
               />
             </button>
 
+            {/* Queue and playlist actions */}
+            <TrackMenu
+              track={track}
+              disabled={isUnavailable}
+              onRemove={onRemove ? () => onRemove(index) : undefined}
+            />
+
             {/* Duration */}
             <span className="text-right text-sm tabular-nums text-muted-foreground">
               {formatTime(track.duration)}
@@ -148,3 +208,76 @@ export function TrackList({ tracks, onPlay }: TrackListProps) {
     </div>
   );
 }
+
+function TrackMenu({
+  track,
+  disabled,
+  onRemove,
+}: {
+  track: Track;
+  disabled: boolean;
+  onRemove?: () => void;
+}) {
+  const [open, setOpen] = useState(false);
+  const insertNext = usePlayerStore((s) => s.insertNext);
+  const addToQueue = usePlayerStore((s) => s.addToQueue);
+
+  const itemClassName =
+    "flex w-full items-center gap-2 rounded-md px-2 py-1.5 text-left text-sm transition-colors hover:bg-accent/60";
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <button
+          disabled={disabled}
+          title="More options"
+          className={cn(
+            "flex items-center justify-center text-muted-foreground opacity-0 transition-opacity hover:text-foreground group-hover:opacity-100",
+            open && "opacity-100"
+          )}
+        >
+          <Ellipsis className="size-4" />
+        </button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-52 p-1">
+        <button
+          type="button"
+          onClick={() => {
+            insertNext([track]);
+            setOpen(false);
+          }}
+          className={itemClassName}
+        >
+          <ListStart className="size-4 text-muted-foreground" />
+          Play next
+        </button>
+        <button
+          type="button"
+          onClick={() => {
+            addToQueue([track]);
+            setOpen(false);
+          }}
+          className={itemClassName}
+        >
+          <ListEnd className="size-4 text-muted-foreground" />
+          Add to queue
+        </button>
+        {onRemove && (
+          <button
+            type="button"
+            onClick={() => {
+              onRemove();
+              setOpen(false);
+            }}
+            className={itemClassName}
+          >
+            <ListX className="size-4 text-muted-foreground" />
+            Remove from playlist
+          </button>
+        )}
+        <div className="my-1 h-px bg-border/70" />
+        <PlaylistPicker tracks={[track]} onDone={() => setOpen(false)} />
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,27 @@
+import type { AuthUser } from "@/lib/auth";
+import { cn } from "@/lib/utils";
+
+/** The user's avatar, or the first letter of their name or email. */
+export function UserAvatar({ user, className }: { user: AuthUser; className?: string }) {
+  if (user.avatarUrl) {
+    return (
+      <img
+        src={user.avatarUrl}
+        alt=""
+        className={cn("size-7 shrink-0 rounded-full object-cover", className)}
+      />
+    );
+  }
+
+  const initial = (user.name || user.email).charAt(0).toUpperCase();
+  return (
+    <span
+      className={cn(
+        "flex size-7 shrink-0 items-center justify-center rounded-full bg-primary/20 text-xs font-semibold text-primary",
+        className
+      )}
+    >
+      {initial}
+    </span>
+  );
+}
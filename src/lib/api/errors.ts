@@ -0,0 +1,131 @@
+/**
+ * Error types thrown by the API layer, so callers can tell "no network"
+ * apart from a failed request, and pages can explain what went wrong.
+ */
+
+export class OfflineError extends Error {
+  constructor(message = "You're offline") {
+    super(message);
+    this.name = "OfflineError";
+  }
+}
+
+export function isOfflineError(error: unknown): error is OfflineError {
+  return error instanceof OfflineError;
+}
+
+/** An instance didn't respond within the per-attempt timeout. */
+export class TimeoutError extends Error {
+  readonly instance: string;
+  readonly timeoutMs: number;
+
+  constructor(instance: string, timeoutMs: number) {
+    super(`${instance} didn't respond within ${Math.round(timeoutMs / 1000)}s`);
+    this.name = "TimeoutError";
+    this.instance = instance;
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+/** An instance answered 429. */
+export class RateLimitedError extends Error {
+  readonly instance: string;
+  /** From the Retry-After header, if the instance sent one. */
+  readonly retryAfterMs: number | undefined;
+
+  constructor(instance: string, retryAfterMs?: number) {
+    super(`Rate limited by ${instance}`);
+    this.name = "RateLimitedError";
+    this.instance = instance;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+export type AttemptFailureReason =
+  | "timeout"
+  | "rate-limited"
+  | "auth"
+  | "server-error"
+  | "http-error"
+  | "network";
+
+/** What happened on one attempt of a request. */
+export interface AttemptFailure {
+  instance: string;
+  reason: AttemptFailureReason;
+  /** HTTP status, when the instance answered. */
+  status?: number;
+  durationMs: number;
+  error: Error;
+}
+
+/** Every instance tried for a request failed. */
+export class AllInstancesFailedError extends Error {
+  readonly path: string;
+  readonly attempts: AttemptFailure[];
+
+  constructor(path: string, attempts: AttemptFailure[]) {
+    super(
+      `All instances failed for ${path} (${attempts.length} attempt${attempts.length === 1 ? "" : "s"})`
+    );
+    this.name = "AllInstancesFailedError";
+    this.path = path;
+    this.attempts = attempts;
+  }
+
+  /** True if every attempt failed for the same reason. */
+  allFailedWith(reason: AttemptFailureReason): boolean {
+    return (
+      this.attempts.length > 0 &&
+      this.attempts.every((attempt) => attempt.reason === reason)
+    );
+  }
+}
+
+/** A proxy answered, but not with the shape we expected. */
+export class MalformedResponseError extends Error {
+  readonly endpoint: string;
+
+  constructor(endpoint: string, detail: string) {
+    super(`Malformed response from ${endpoint}: ${detail}`);
+    this.name = "MalformedResponseError";
+    this.endpoint = endpoint;
+  }
+}
+
+/**
+ * A user-facing sentence for an error from the API layer.
+ * `subject` names what was being loaded, e.g. "album".
+ */
+export function describeApiError(error: unknown, subject: string): string {
+  if (error instanceof OfflineError) {
+    return `This ${subject} isn't available offline`;
+  }
+
+  if (error instanceof AllInstancesFailedError) {
+    if (error.attempts.some((attempt) => attempt.status === 404)) {
+      return `This ${subject} couldn't be found`;
+    }
+    if (error.allFailedWith("rate-limited")) {
+      return "Every server is rate limiting requests right now. Try again in a minute.";
+    }
+    if (error.allFailedWith("timeout")) {
+      return "The servers are taking too long to respond. Try again shortly.";
+    }
+    return `Couldn't load this ${subject} -- every server failed. Check the instance list in settings.`;
+  }
+
+  if (error instanceof MalformedResponseError) {
+    return `The server sent an unexpected response for this ${subject}`;
+  }
+
+  if (error instanceof TimeoutError) {
+    return "The server took too long to respond";
+  }
+
+  if (error instanceof RateLimitedError) {
+    return "Too many requests right now. Try again in a minute.";
+  }
+
+  return `Failed to load ${subject}`;
+}
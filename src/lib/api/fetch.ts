@@ -1,93 +1,355 @@
 /**
  * fetchWithRetry -- multi-instance failover for TIDAL API proxy calls.
  *
- * Picks a random starting instance, round-robins on failure.
- * Handles 429 (rate limit), 401+11002 (auth), 5xx, and network errors.
+ * Tries instances healthiest-first (see instanceHealth.rank) and moves
+ * on when one fails. Handles 429 (rate limit, honoring Retry-After),
+ * 401+11002 (auth), 5xx, network errors and per-attempt timeouts; each
+ * outcome is recorded in instanceHealth, which backs failing instances
+ * off and sidelines them after repeated failures.
+ *
+ * Requests are hedged: if an instance hasn't answered within
+ * `hedgeAfterMs`, the next one is tried in parallel and the first
+ * success wins. A hedge delay of 0 races two instances from the start.
+ *
+ * Throws OfflineError without trying when the app is offline, and
+ * reports the network unreachable when every attempt fails to connect.
+ * Otherwise failures end in an AllInstancesFailedError listing every
+ * attempt.
  */
 
+import { network } from "@/lib/network";
 import {
-  getInstances,
-  randomInstanceIndex,
-  type InstanceType,
-} from "./instances";
+  AllInstancesFailedError,
+  OfflineError,
+  RateLimitedError,
+  TimeoutError,
+  type AttemptFailure,
+} from "./errors";
+import { instanceHealth, type InstanceHealth } from "./instance-health";
+import { getAllInstances, getInstances, instanceUrl, type InstanceType } from "./instances";
+
+// Passes over the instance list before giving up
+const MAX_PASSES = 2;
+// Longest we'll wait between passes for an instance to come out of backoff
+const MAX_PASS_DELAY_MS = 5000;
+
+export interface RequestDefaults {
+  /** Give up on an instance that hasn't sent headers by then. */
+  timeoutMs: number;
+  /** Start a second instance after this long; null disables hedging. */
+  hedgeAfterMs: number | null;
+}
+
+const requestDefaults: Record<InstanceType, RequestDefaults> = {
+  api: { timeoutMs: 10_000, hedgeAfterMs: 2000 },
+  streaming: { timeoutMs: 15_000, hedgeAfterMs: 1000 },
+};
+
+export function getRequestDefaults(type: InstanceType): RequestDefaults {
+  return { ...requestDefaults[type] };
+}
+
+export function setRequestDefaults(
+  type: InstanceType,
+  patch: Partial<RequestDefaults>
+): void {
+  requestDefaults[type] = { ...requestDefaults[type], ...patch };
+}
 
 function delay(ms: number): Promise<void> {
   return new Promise((resolve) => setTimeout(resolve, ms));
 }
 
-export interface FetchOptions {
+/** Parse a Retry-After header (seconds or HTTP date) into milliseconds. */
+function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * A signal that aborts when any of `signals` does. AbortSignal.any is
+ * missing from older WebKit, so fall back to forwarding abort events.
+ */
+function anySignal(signals: AbortSignal[]): AbortSignal {
+  if (typeof AbortSignal.any === "function") return AbortSignal.any(signals);
+
+  const controller = new AbortController();
+  for (const signal of signals) {
+    if (signal.aborted) {
+      controller.abort(signal.reason);
+      break;
+    }
+    signal.addEventListener("abort", () => controller.abort(signal.reason), { once: true });
+  }
+  return controller.signal;
+}
+
+export interface FetchOptions extends Partial<RequestDefaults> {
   type?: InstanceType;
   signal?: AbortSignal;
 }
 
-export async function fetchWithRetry(
+type AttemptResult =
+  | { ok: true; response: Response }
+  | { ok: false; failure: AttemptFailure };
+
+interface AttemptOptions {
+  timeoutMs: number;
+  signal?: AbortSignal;
+  /** Aborted when another instance won a hedged request. */
+  cancel: AbortSignal;
+}
+
+/**
+ * One request against one instance. Records the outcome in
+ * instanceHealth; rethrows aborts and OfflineError.
+ */
+async function attempt(
+  baseUrl: string,
   relativePath: string,
-  options: FetchOptions = {}
-): Promise<Response> {
-  const type = options.type ?? "api";
-  const instances = getInstances(type);
+  options: AttemptOptions
+): Promise<AttemptResult> {
+  const startedAt = performance.now();
+  const timeout = new AbortController();
+  const timer = setTimeout(() => timeout.abort(), options.timeoutMs);
+  const signals = [timeout.signal, options.cancel];
+  if (options.signal) signals.push(options.signal);
 
-  if (instances.length === 0) {
-    throw new Error(`No API instances configured for type: ${type}`);
+  const fail = (
+    reason: AttemptFailure["reason"],
+    error: Error,
+    status?: number
+  ): AttemptResult => ({
+    ok: false,
+    failure: {
+      instance: baseUrl,
+      reason,
+      status,
+      durationMs: performance.now() - startedAt,
+      error,
+    },
+  });
+
+  let response: Response;
+  try {
+    response = await fetch(instanceUrl(baseUrl, relativePath), {
+      signal: anySignal(signals),
+    });
+  } catch (error) {
+    if (options.signal?.aborted || options.cancel.aborted) throw error;
+
+    if (timeout.signal.aborted) {
+      console.warn(`[API] Timeout on ${baseUrl}, trying next...`);
+      const timeoutError = new TimeoutError(baseUrl, options.timeoutMs);
+      instanceHealth.recordFailure(baseUrl, "Timed out");
+      return fail("timeout", timeoutError);
+    }
+
+    // No point cycling through instances without a connection
+    if (!navigator.onLine) throw new OfflineError();
+
+    const err = error instanceof Error ? error : new Error(String(error));
+    console.warn(`[API] Network error on ${baseUrl}: ${err.message}, trying next...`);
+    instanceHealth.recordFailure(baseUrl, err.message);
+    return fail("network", err);
+  } finally {
+    // Only the wait for headers is timed; the body may take longer
+    clearTimeout(timer);
   }
 
-  const maxAttempts = instances.length * 2;
-  let lastError: Error | null = null;
-  let instanceIndex = randomInstanceIndex(instances);
+  if (response.ok) {
+    network.reportReachable();
+    instanceHealth.recordSuccess(baseUrl, performance.now() - startedAt);
+    return { ok: true, response };
+  }
 
-  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
-    const baseUrl = instances[instanceIndex % instances.length];
-    const url = baseUrl.endsWith("/")
-      ? `${baseUrl}${relativePath.substring(1)}`
-      : `${baseUrl}${relativePath}`;
+  const retryAfterMs = parseRetryAfter(response.headers.get("Retry-After"));
 
-    try {
-      const response = await fetch(url, { signal: options.signal });
+  if (response.status === 429) {
+    console.warn(`[API] Rate limit on ${baseUrl}, trying next...`);
+    instanceHealth.recordRateLimit(baseUrl, retryAfterMs);
+    return fail("rate-limited", new RateLimitedError(baseUrl, retryAfterMs), 429);
+  }
 
-      if (response.status === 429) {
-        console.warn(`[API] Rate limit on ${baseUrl}, trying next...`);
-        instanceIndex++;
-        await delay(500);
-        continue;
+  if (response.status === 401) {
+    try {
+      const errorData = await response.clone().json();
+      if (errorData?.subStatus === 11002) {
+        console.warn(`[API] Auth failed on ${baseUrl}, trying next...`);
+        instanceHealth.recordFailure(baseUrl, "Upstream auth failed");
+        return fail("auth", new Error(`Upstream auth failed on ${baseUrl}`), 401);
       }
+    } catch {
+      // JSON parse failed, treat as regular error
+    }
+  }
 
-      if (response.ok) {
-        return response;
-      }
+  const error = new Error(`Request failed with status ${response.status}`);
+
+  if (response.status >= 500) {
+    console.warn(`[API] Server error ${response.status} on ${baseUrl}, trying next...`);
+    instanceHealth.recordFailure(baseUrl, `Server error ${response.status}`, retryAfterMs);
+    return fail("server-error", error, response.status);
+  }
+
+  // Other 4xx responses say nothing about the instance's health
+  return fail("http-error", error, response.status);
+}
 
-      if (response.status === 401) {
-        try {
-          const errorData = await response.clone().json();
-          if (errorData?.subStatus === 11002) {
-            console.warn(`[API] Auth failed on ${baseUrl}, trying next...`);
-            instanceIndex++;
-            continue;
+interface HedgeOutcome {
+  response?: Response;
+  failures: AttemptFailure[];
+  /** How many instances were started (1 or 2). */
+  used: number;
+}
+
+/**
+ * Request from `primary`, and also from `backup` if the primary hasn't
+ * answered within `hedgeAfterMs`. The first success wins and the other
+ * request is cancelled. If the primary fails before the hedge fires,
+ * the backup is left for the caller to try next.
+ */
+function hedge(
+  primary: string,
+  backup: string | undefined,
+  relativePath: string,
+  options: { timeoutMs: number; hedgeAfterMs: number; signal?: AbortSignal }
+): Promise<HedgeOutcome> {
+  return new Promise((resolve, reject) => {
+    const controllers: AbortController[] = [];
+    const failures: AttemptFailure[] = [];
+    let running = 0;
+    let settled = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const settle = (callback: () => void) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      callback();
+    };
+
+    const launch = (baseUrl: string) => {
+      const controller = new AbortController();
+      controllers.push(controller);
+      running++;
+
+      attempt(baseUrl, relativePath, {
+        timeoutMs: options.timeoutMs,
+        signal: options.signal,
+        cancel: controller.signal,
+      }).then(
+        (result) => {
+          running--;
+          if (settled) return;
+
+          if (result.ok) {
+            settle(() => {
+              controllers.forEach((other) => {
+                if (other !== controller) other.abort();
+              });
+              resolve({ response: result.response, failures, used: controllers.length });
+            });
+            return;
+          }
+
+          failures.push(result.failure);
+          if (running === 0) {
+            settle(() => resolve({ failures, used: controllers.length }));
           }
-        } catch {
-          // JSON parse failed, treat as regular error
+        },
+        (error) => {
+          running--;
+          settle(() => {
+            controllers.forEach((other) => other.abort());
+            reject(error);
+          });
         }
-      }
+      );
+    };
 
-      if (response.status >= 500) {
-        console.warn(
-          `[API] Server error ${response.status} on ${baseUrl}, trying next...`
-        );
-        instanceIndex++;
-        continue;
-      }
+    launch(primary);
+    if (backup) {
+      timer = setTimeout(() => {
+        if (!settled) launch(backup);
+      }, options.hedgeAfterMs);
+    }
+  });
+}
+
+export async function fetchWithRetry(
+  relativePath: string,
+  options: FetchOptions = {}
+): Promise<Response> {
+  if (network.isOffline) throw new OfflineError();
+
+  const type = options.type ?? "api";
+  if (getAllInstances(type).length === 0) {
+    throw new Error(`No API instances configured for type: ${type}`);
+  }
+
+  const defaults = requestDefaults[type];
+  const timeoutMs = options.timeoutMs ?? defaults.timeoutMs;
+  const hedgeAfterMs =
+    options.hedgeAfterMs !== undefined ? options.hedgeAfterMs : defaults.hedgeAfterMs;
+  const failures: AttemptFailure[] = [];
 
-      lastError = new Error(`Request failed with status ${response.status}`);
-      instanceIndex++;
-    } catch (error) {
-      if (error instanceof Error && error.name === "AbortError") throw error;
-      lastError = error instanceof Error ? error : new Error(String(error));
-      console.warn(
-        `[API] Network error on ${baseUrl}: ${lastError.message}, trying next...`
+  for (let pass = 0; pass < MAX_PASSES; pass++) {
+    if (pass > 0) {
+      // Give backed-off instances a moment before the next pass
+      const wait = instanceHealth.nextAvailableIn(getAllInstances(type));
+      await delay(Math.min(wait, MAX_PASS_DELAY_MS));
+      if (options.signal?.aborted) throw options.signal.reason;
+    }
+
+    // Skip instances that are backing off, unless that's all of them
+    const ranked = getInstances(type);
+    const available = ranked.filter((url) => instanceHealth.isAvailable(url));
+    const instances = available.length > 0 ? available : ranked;
+
+    let index = 0;
+    while (index < instances.length) {
+      const outcome = await hedge(
+        instances[index],
+        hedgeAfterMs != null ? instances[index + 1] : undefined,
+        relativePath,
+        { timeoutMs, hedgeAfterMs: hedgeAfterMs ?? 0, signal: options.signal }
       );
-      instanceIndex++;
-      await delay(200);
+      if (outcome.response) return outcome.response;
+
+      failures.push(...outcome.failures);
+      index += outcome.used;
     }
   }
 
-  throw lastError ?? new Error(`All instances failed for: ${relativePath}`);
+  if (failures.length > 0 && failures.every((f) => f.reason === "network")) {
+    network.reportUnreachable();
+    throw new OfflineError();
+  }
+
+  throw new AllInstancesFailedError(relativePath, failures);
+}
+
+export interface InstanceStats extends InstanceHealth {
+  /** Position in the order the next request would use. */
+  rank: number;
+  /** Ranking score, lower is better. */
+  score: number;
+  available: boolean;
+}
+
+/** Current selection stats for an instance list, in ranked order. */
+export function getInstanceStats(type: InstanceType = "api"): InstanceStats[] {
+  const configured = getAllInstances(type);
+  return getInstances(type).map((url, rank) => ({
+    ...instanceHealth.get(url),
+    rank,
+    score: Math.round(instanceHealth.score(url, configured.indexOf(url))),
+    available: instanceHealth.isAvailable(url),
+  }));
 }
@@ -0,0 +1,271 @@
+/**
+ * Instance health -- what we know about each proxy instance.
+ *
+ * Fed by real API traffic (see fetchWithRetry) and by a background
+ * prober. Every 429/5xx/network failure puts the instance in an
+ * exponential backoff (or the server's Retry-After). After several
+ * failures in a row the circuit opens: the instance is sidelined with a
+ * much longer backoff, then gets a single trial request once it expires
+ * and is restored by any success.
+ *
+ * `rank()` orders instances for a request: available ones first, then
+ * by latency weighted by rolling success rate, with the user's order as
+ * a tie-breaker. A `change` event is dispatched whenever an entry is
+ * updated.
+ */
+
+export interface InstanceHealth {
+  url: string;
+  /** Smoothed response time of successful requests. */
+  latencyMs: number | null;
+  lastSuccess: number | null;
+  lastError: string | null;
+  lastErrorAt: number | null;
+  rateLimitCount: number;
+  consecutiveFailures: number;
+  /** Share of recent requests that succeeded, null before any. */
+  successRate: number | null;
+  /** Skip the instance until this time (epoch ms). */
+  backoffUntil: number | null;
+  /** Circuit is open after repeated failures. */
+  sidelined: boolean;
+}
+
+const SIDELINE_AFTER_FAILURES = 3;
+// Weight of the newest sample in the latency average
+const LATENCY_SMOOTHING = 0.3;
+// Outcomes kept for the rolling success rate
+const OUTCOME_WINDOW = 20;
+
+const BASE_BACKOFF_MS = 1000;
+const CIRCUIT_OPEN_MS = 1000 * 30; // 30 seconds
+const MAX_BACKOFF_MS = 1000 * 60 * 5; // 5 minutes
+
+// Assumed latency for instances we haven't timed yet
+const UNKNOWN_LATENCY_MS = 800;
+// Score added per position in the user's list
+const ORDER_PENALTY_MS = 50;
+
+const PROBE_INTERVAL_MS = 1000 * 60 * 10; // 10 minutes
+const SIDELINED_PROBE_INTERVAL_MS = 1000 * 60; // 1 minute
+const PROBE_TIMEOUT_MS = 8000;
+
+function createHealth(url: string): InstanceHealth {
+  return {
+    url,
+    latencyMs: null,
+    lastSuccess: null,
+    lastError: null,
+    lastErrorAt: null,
+    rateLimitCount: 0,
+    consecutiveFailures: 0,
+    successRate: null,
+    backoffUntil: null,
+    sidelined: false,
+  };
+}
+
+function backoffFor(failures: number): number {
+  const delay =
+    failures >= SIDELINE_AFTER_FAILURES
+      ? CIRCUIT_OPEN_MS * 2 ** (failures - SIDELINE_AFTER_FAILURES)
+      : BASE_BACKOFF_MS * 2 ** (failures - 1);
+  return Math.min(delay, MAX_BACKOFF_MS);
+}
+
+class InstanceHealthMonitor extends EventTarget {
+  private entries = new Map<string, InstanceHealth>();
+  private outcomes = new Map<string, boolean[]>();
+  private listUrls: () => string[] = () => [];
+  private probeTimer: ReturnType<typeof setInterval> | null = null;
+  private sidelinedTimer: ReturnType<typeof setInterval> | null = null;
+
+  // -- Public API --
+
+  get(url: string): InstanceHealth {
+    return this.entries.get(url) ?? createHealth(url);
+  }
+
+  snapshot(): Record<string, InstanceHealth> {
+    return Object.fromEntries(this.entries);
+  }
+
+  isSidelined(url: string): boolean {
+    return this.entries.get(url)?.sidelined ?? false;
+  }
+
+  /** False while the instance is backing off. */
+  isAvailable(url: string, now = Date.now()): boolean {
+    const until = this.entries.get(url)?.backoffUntil;
+    return until == null || until <= now;
+  }
+
+  /** Milliseconds until the first of `urls` comes out of backoff. */
+  nextAvailableIn(urls: string[], now = Date.now()): number {
+    if (urls.length === 0) return 0;
+    return Math.max(
+      0,
+      Math.min(...urls.map((url) => (this.get(url).backoffUntil ?? now) - now))
+    );
+  }
+
+  /**
+   * Lower is better: smoothed latency divided by the success rate, plus
+   * a small penalty for sitting further down the user's list.
+   */
+  score(url: string, position = 0): number {
+    const entry = this.get(url);
+    const outcomes = this.outcomes.get(url) ?? [];
+    // Laplace smoothing so one early failure doesn't bury an instance
+    const successes = outcomes.filter(Boolean).length;
+    const rate = (successes + 1) / (outcomes.length + 2);
+    return (entry.latencyMs ?? UNKNOWN_LATENCY_MS) / rate + position * ORDER_PENALTY_MS;
+  }
+
+  /** Order instances for a request, best first. */
+  rank(urls: string[]): string[] {
+    const now = Date.now();
+    return urls
+      .map((url, position) => ({
+        url,
+        available: this.isAvailable(url, now),
+        score: this.score(url, position),
+      }))
+      .sort((a, b) =>
+        a.available !== b.available ? (a.available ? -1 : 1) : a.score - b.score
+      )
+      .map((item) => item.url);
+  }
+
+  recordSuccess(url: string, latencyMs: number): void {
+    const previous = this.get(url).latencyMs;
+    this.update(url, {
+      latencyMs:
+        previous == null
+          ? latencyMs
+          : previous + (latencyMs - previous) * LATENCY_SMOOTHING,
+      lastSuccess: Date.now(),
+      consecutiveFailures: 0,
+      successRate: this.recordOutcome(url, true),
+      backoffUntil: null,
+      sidelined: false,
+    });
+  }
+
+  /**
+   * Count a failure and back off. `retryAfterMs` (from a Retry-After
+   * header) overrides the computed backoff.
+   */
+  recordFailure(url: string, message: string, retryAfterMs?: number): void {
+    const failures = this.get(url).consecutiveFailures + 1;
+    if (failures === SIDELINE_AFTER_FAILURES) {
+      console.warn(`[Instances] Sidelining ${url} after ${failures} failures`);
+    }
+    const backoff = Math.min(retryAfterMs ?? backoffFor(failures), MAX_BACKOFF_MS);
+    this.update(url, {
+      lastError: message,
+      lastErrorAt: Date.now(),
+      consecutiveFailures: failures,
+      successRate: this.recordOutcome(url, false),
+      backoffUntil: Date.now() + backoff,
+      sidelined: failures >= SIDELINE_AFTER_FAILURES,
+    });
+  }
+
+  recordRateLimit(url: string, retryAfterMs?: number): void {
+    this.update(url, { rateLimitCount: this.get(url).rateLimitCount + 1 });
+    this.recordFailure(url, "Rate limited (429)", retryAfterMs);
+  }
+
+  /** Forget everything about instances that are no longer configured. */
+  prune(urls: string[]): void {
+    const keep = new Set(urls);
+    let changed = false;
+    for (const url of this.entries.keys()) {
+      if (!keep.has(url)) {
+        this.entries.delete(url);
+        this.outcomes.delete(url);
+        changed = true;
+      }
+    }
+    if (changed) this.dispatchEvent(new Event("change"));
+  }
+
+  /**
+   * Probe all instances periodically, and sidelined ones more often so
+   * they come back quickly once they recover.
+   */
+  startProbing(listUrls: () => string[]): void {
+    this.listUrls = listUrls;
+    if (this.probeTimer) return;
+
+    this.probeTimer = setInterval(() => {
+      void this.probeAll();
+    }, PROBE_INTERVAL_MS);
+    this.sidelinedTimer = setInterval(() => {
+      const sidelined = this.listUrls().filter((url) => this.isSidelined(url));
+      void Promise.all(sidelined.map((url) => this.probe(url)));
+    }, SIDELINED_PROBE_INTERVAL_MS);
+  }
+
+  stopProbing(): void {
+    if (this.probeTimer) clearInterval(this.probeTimer);
+    if (this.sidelinedTimer) clearInterval(this.sidelinedTimer);
+    this.probeTimer = null;
+    this.sidelinedTimer = null;
+  }
+
+  async probeAll(): Promise<void> {
+    await Promise.all(this.listUrls().map((url) => this.probe(url)));
+  }
+
+  // -- Private helpers --
+
+  private async probe(url: string): Promise<void> {
+    const startedAt = performance.now();
+    // Not AbortSignal.timeout -- older WebKit doesn't have it
+    const timeout = new AbortController();
+    const timer = setTimeout(() => timeout.abort(), PROBE_TIMEOUT_MS);
+
+    try {
+      const response = await fetch(url, {
+        cache: "no-store",
+        signal: timeout.signal,
+      });
+
+      if (response.status === 429) {
+        this.recordRateLimit(url);
+      } else if (response.status >= 500) {
+        this.recordFailure(url, `Server error ${response.status}`);
+      } else {
+        this.recordSuccess(url, performance.now() - startedAt);
+      }
+    } catch (error) {
+      const message = timeout.signal.aborted
+        ? "Timed out"
+        : error instanceof Error
+          ? error.message
+          : String(error);
+      this.recordFailure(url, message);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /** Push an outcome into the rolling window and return the new rate. */
+  private recordOutcome(url: string, success: boolean): number {
+    const outcomes = [...(this.outcomes.get(url) ?? []), success].slice(
+      -OUTCOME_WINDOW
+    );
+    this.outcomes.set(url, outcomes);
+    return outcomes.filter(Boolean).length / outcomes.length;
+  }
+
+  private update(url: string, patch: Partial<InstanceHealth>): void {
+    this.entries.set(url, { ...this.get(url), ...patch });
+    this.dispatchEvent(new Event("change"));
+  }
+}
+
+/** Singleton health monitor for the entire app. */
+export const instanceHealth = new InstanceHealthMonitor();
@@ -1,12 +1,17 @@
 /**
  * Community TIDAL proxy instances.
  * Two lists: "api" for metadata and "streaming" for audio streams.
- * Same instances used by Monochrome.
+ * Defaults are the same instances used by Monochrome; the user's own
+ * lists are applied with `setInstances` (see the instance store).
  */
 
+import { instanceHealth } from "./instance-health";
+
 export type InstanceType = "api" | "streaming";
 
-const DEFAULT_INSTANCES: Record<InstanceType, string[]> = {
+export const INSTANCE_TYPES: InstanceType[] = ["api", "streaming"];
+
+export const DEFAULT_INSTANCES: Record<InstanceType, string[]> = {
   api: [
     "https://eu-central.monochrome.tf",
     "https://us-west.monochrome.tf",
@@ -39,10 +44,85 @@ const DEFAULT_INSTANCES: Record<InstanceType, string[]> = {
   ],
 };
 
+const configured: Record<InstanceType, string[]> = {
+  api: [...DEFAULT_INSTANCES.api],
+  streaming: [...DEFAULT_INSTANCES.streaming],
+};
+
+export function setInstances(type: InstanceType, urls: string[]): void {
+  configured[type] = [...urls];
+}
+
+/** Every configured instance, in the user's order. */
+export function getAllInstances(type: InstanceType): string[] {
+  return configured[type];
+}
+
+/**
+ * Instances to use for a request, best first: ones that aren't backing
+ * off, ranked by latency and success rate (see instanceHealth.rank).
+ */
 export function getInstances(type: InstanceType): string[] {
-  return DEFAULT_INSTANCES[type];
+  return instanceHealth.rank(configured[type]);
+}
+
+export function instanceUrl(baseUrl: string, relativePath: string): string {
+  return baseUrl.endsWith("/")
+    ? `${baseUrl}${relativePath.substring(1)}`
+    : `${baseUrl}${relativePath}`;
+}
+
+/**
+ * Normalize user input to an instance base URL, or null if it isn't an
+ * http(s) URL.
+ */
+export function normalizeInstanceUrl(input: string): string | null {
+  const trimmed = input.trim();
+  if (!trimmed) return null;
+
+  try {
+    const url = new URL(/^https?:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`);
+    if (url.protocol !== "http:" && url.protocol !== "https:") return null;
+    return `${url.origin}${url.pathname}`.replace(/\/+$/, "");
+  } catch {
+    return null;
+  }
 }
 
-export function randomInstanceIndex(instances: string[]): number {
-  return Math.floor(Math.random() * instances.length);
+/**
+ * Parse an imported instance list. Accepts JSON -- either an array of
+ * URLs or an object with `api`/`streaming` arrays -- or plain text with
+ * one URL per line. Flat lists are returned under `fallbackType`.
+ */
+export function parseInstanceList(
+  text: string,
+  fallbackType: InstanceType
+): Partial<Record<InstanceType, string[]>> {
+  const clean = (values: unknown[]): string[] =>
+    Array.from(
+      new Set(
+        values
+          .map((value) => (typeof value === "string" ? normalizeInstanceUrl(value) : null))
+          .filter((url): url is string => url !== null)
+      )
+    );
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    const lines = text.split(/\r?\n/).filter((line) => !line.trim().startsWith("#"));
+    return { [fallbackType]: clean(lines) };
+  }
+
+  if (Array.isArray(parsed)) return { [fallbackType]: clean(parsed) };
+
+  const result: Partial<Record<InstanceType, string[]>> = {};
+  if (parsed && typeof parsed === "object") {
+    for (const type of INSTANCE_TYPES) {
+      const list = (parsed as Record<string, unknown>)[type];
+      if (Array.isArray(list)) result[type] = clean(list);
+    }
+  }
+  return result;
 }
@@ -1,24 +1,37 @@
 /**
  * Music API facade -- TIDAL only.
  *
- * Integrates with the CacheManager for all metadata calls.
- * Stream URLs use a separate in-memory cache (short-lived).
+ * Integrates with the CacheManager for all metadata calls. While
+ * offline, metadata is served from the cache regardless of age and
+ * anything uncached fails fast with an OfflineError.
+ * Stream descriptors use a separate in-memory cache (short-lived).
  */
 
 import * as tidal from "./tidal";
 import { cache } from "@/lib/cache";
+import { buildDiscography } from "@/lib/discography";
+import { network } from "@/lib/network";
+import { OfflineError, isOfflineError } from "./errors";
 import type {
   Track,
   Album,
   ArtistMinified,
+  ArtistDetail,
+  Discography,
+  PlaylistDetail,
+  PlaylistSummary,
   SearchResult,
   StreamQuality,
+  StreamDescriptor,
 } from "@/types/music";
 
-// In-memory stream URL cache (separate from API cache, shorter-lived)
-const streamCache = new Map<string, string>();
+// In-memory stream cache (separate from API cache, shorter-lived)
+const streamCache = new Map<string, StreamDescriptor>();
 const MAX_STREAM_CACHE = 50;
 
+// Concurrent requests when resolving a list of track IDs
+const METADATA_BATCH_SIZE = 4;
+
 function pruneStreamCache(): void {
   if (streamCache.size > MAX_STREAM_CACHE) {
     const entries = Array.from(streamCache.keys());
@@ -27,59 +40,63 @@ function pruneStreamCache(): void {
   }
 }
 
+/**
+ * Serve from cache, fetch on a miss, and fall back to expired entries
+ * when there's no network.
+ */
+async function cached<T>(
+  type: string,
+  params: string,
+  load: () => Promise<T>
+): Promise<T> {
+  const fresh = await cache.get<T>(type, params);
+  if (fresh) return fresh;
+
+  if (!network.isOffline) {
+    try {
+      const result = await load();
+      await cache.set(type, params, result);
+      return result;
+    } catch (error) {
+      if (!isOfflineError(error)) throw error;
+    }
+  }
+
+  const stale = await cache.getStale<T>(type, params);
+  if (stale) return stale;
+  throw new OfflineError();
+}
+
 // -- Search --
 
 export async function searchTracks(
   query: string,
   signal?: AbortSignal
 ): Promise<SearchResult<Track>> {
-  const cached = await cache.get<SearchResult<Track>>("search_tracks", query);
-  if (cached) return cached;
-
-  const result = await tidal.searchTracks(query, signal);
-  await cache.set("search_tracks", query, result);
-  return result;
+  return cached("search_tracks", query, () => tidal.searchTracks(query, signal));
 }
 
 export async function searchAlbums(
   query: string,
   signal?: AbortSignal
 ): Promise<SearchResult<Album>> {
-  const cached = await cache.get<SearchResult<Album>>("search_albums", query);
-  if (cached) return cached;
-
-  const result = await tidal.searchAlbums(query, signal);
-  await cache.set("search_albums", query, result);
-  return result;
+  return cached("search_albums", query, () => tidal.searchAlbums(query, signal));
 }
 
 export async function searchArtists(
   query: string,
   signal?: AbortSignal
 ): Promise<SearchResult<ArtistMinified>> {
-  const cached = await cache.get<SearchResult<ArtistMinified>>(
-    "search_artists",
-    query
-  );
-  if (cached) return cached;
-
-  const result = await tidal.searchArtists(query, signal);
-  await cache.set("search_artists", query, result);
-  return result;
+  return cached("search_artists", query, () => tidal.searchArtists(query, signal));
 }
 
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
 export async function searchPlaylists(
   query: string,
   signal?: AbortSignal
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-): Promise<SearchResult<any>> {
-  const cached = await cache.get("search_playlists", query);
-  if (cached) return cached as SearchResult<unknown>;
-
-  const result = await tidal.searchPlaylists(query, signal);
-  await cache.set("search_playlists", query, result);
-  return result;
+): Promise<SearchResult<PlaylistSummary>> {
+  return cached("search_playlists", query, () =>
+    tidal.searchPlaylists(query, signal)
+  );
 }
 
 // -- Get by ID --
@@ -88,50 +105,84 @@ export async function getAlbum(
   id: string,
   signal?: AbortSignal
 ): Promise<{ album: Album; tracks: Track[] }> {
-  const cached = await cache.get<{ album: Album; tracks: Track[] }>(
-    "album",
-    id
-  );
-  if (cached) return cached;
+  return cached("album", id, () => tidal.getAlbum(id, signal));
+}
 
-  const result = await tidal.getAlbum(id, signal);
-  await cache.set("album", id, result);
-  return result;
+export async function getArtist(
+  id: string,
+  signal?: AbortSignal
+): Promise<ArtistDetail> {
+  return cached("artist", id, () => tidal.getArtist(id, signal));
 }
 
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-export async function getArtist(id: string, signal?: AbortSignal): Promise<any> {
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  const cached = await cache.get<any>("artist", id);
-  if (cached) return cached;
+export async function getSimilarArtists(
+  id: string,
+  signal?: AbortSignal
+): Promise<ArtistMinified[]> {
+  return cached("artist_similar", id, () => tidal.getSimilarArtists(id, signal));
+}
 
-  const result = await tidal.getArtist(id, signal);
-  await cache.set("artist", id, result);
-  return result;
+export async function getTrackRecommendations(
+  id: string,
+  signal?: AbortSignal
+): Promise<Track[]> {
+  return cached("track_recommendations", id, () =>
+    tidal.getTrackRecommendations(id, signal)
+  );
 }
 
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-export async function getPlaylist(id: string, signal?: AbortSignal): Promise<any> {
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  const cached = await cache.get<any>("playlist", id);
-  if (cached) return cached;
+/** All of an artist's releases, grouped by type with duplicates removed. */
+export async function getArtistDiscography(
+  id: string,
+  signal?: AbortSignal
+): Promise<Discography> {
+  return cached("artist_discography", id, async () =>
+    buildDiscography(id, await tidal.getArtistReleases(id, signal))
+  );
+}
 
-  const result = await tidal.getPlaylist(id, signal);
-  await cache.set("playlist", id, result);
-  return result;
+export async function getPlaylist(
+  id: string,
+  signal?: AbortSignal
+): Promise<PlaylistDetail> {
+  return cached("playlist", id, () => tidal.getPlaylist(id, signal));
 }
 
 export async function getTrackMetadata(
   id: string,
   signal?: AbortSignal
 ): Promise<Track> {
-  const cacheKey = `meta_${id}`;
+  return cached("track", `meta_${id}`, () => tidal.getTrackMetadata(id, signal));
+}
 
-  const cached = await cache.get<Track>("track", cacheKey);
-  if (cached) return cached;
+/**
+ * Resolve many track IDs at once, a few requests at a time.
+ * IDs that fail to resolve are skipped rather than failing the batch.
+ */
+export async function getTracksMetadata(
+  ids: string[],
+  signal?: AbortSignal
+): Promise<Map<string, Track>> {
+  const unique = Array.from(new Set(ids));
+  const result = new Map<string, Track>();
+
+  for (let i = 0; i < unique.length; i += METADATA_BATCH_SIZE) {
+    if (signal?.aborted) break;
+
+    const batch = unique.slice(i, i + METADATA_BATCH_SIZE);
+    const settled = await Promise.allSettled(
+      batch.map((id) => getTrackMetadata(id, signal))
+    );
+
+    settled.forEach((outcome, j) => {
+      if (outcome.status === "fulfilled") {
+        result.set(batch[j], outcome.value);
+      } else {
+        console.warn(`[API] Could not resolve track ${batch[j]}:`, outcome.reason);
+      }
+    });
+  }
 
-  const result = await tidal.getTrackMetadata(id, signal);
-  await cache.set("track", cacheKey, result);
   return result;
 }
 
@@ -141,18 +192,21 @@ export async function getStreamUrl(
   id: string,
   quality: StreamQuality = "HI_RES_LOSSLESS",
   signal?: AbortSignal
-): Promise<string> {
+): Promise<StreamDescriptor> {
   const cacheKey = `stream_${id}_${quality}`;
 
   if (streamCache.has(cacheKey)) {
     return streamCache.get(cacheKey)!;
   }
 
-  const url = await tidal.getStreamUrl(id, quality, signal);
+  // Stream URLs expire, so there's nothing to serve offline
+  if (network.isOffline) throw new OfflineError();
+
+  const stream = await tidal.getStreamUrl(id, quality, signal);
 
-  streamCache.set(cacheKey, url);
+  streamCache.set(cacheKey, stream);
   pruneStreamCache();
-  return url;
+  return stream;
 }
 
 // -- Cover / artwork --
@@ -0,0 +1,186 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { MalformedResponseError } from "./errors";
+import { fetchWithRetry } from "./fetch";
+import {
+  findSearchSection,
+  getAlbum,
+  getStreamUrl,
+  normalizeTrackResponse,
+  parseTrackLookup,
+  searchAlbums,
+  searchTracks,
+} from "./tidal";
+import album from "./fixtures/album.json";
+import albumTracksOnly from "./fixtures/album-tracks-only.json";
+import searchAlbumsResponse from "./fixtures/search-albums.json";
+import searchTracksResponse from "./fixtures/search-tracks.json";
+import trackBadManifest from "./fixtures/track-bad-manifest.json";
+import trackMissingInfo from "./fixtures/track-missing-info.json";
+import trackV1 from "./fixtures/track-v1.json";
+import trackV2 from "./fixtures/track-v2.json";
+
+vi.mock("./fetch", () => ({ fetchWithRetry: vi.fn() }));
+
+/** Answer the next proxy request with `body`. */
+function respondWith(body: unknown): void {
+  const text = typeof body === "string" ? body : JSON.stringify(body);
+  vi.mocked(fetchWithRetry).mockResolvedValueOnce(new Response(text));
+}
+
+beforeEach(() => {
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+  vi.spyOn(console, "error").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("findSearchSection", () => {
+  it("finds a section nested under `data`", () => {
+    const section = findSearchSection(searchTracksResponse, "tracks", new Set());
+    expect(section?.totalNumberOfItems).toBe(112);
+  });
+
+  it("prefers the section under the requested key", () => {
+    const section = findSearchSection(searchAlbumsResponse, "albums", new Set());
+    expect(section).toBe(searchAlbumsResponse.albums);
+  });
+
+  it("survives cycles", () => {
+    const cyclic: Record<string, unknown> = {};
+    cyclic.self = cyclic;
+    expect(findSearchSection(cyclic, "tracks", new Set())).toBeUndefined();
+  });
+});
+
+describe("parseTrackLookup", () => {
+  it("picks the track, playback info and original URL out of the array form", () => {
+    const lookup = parseTrackLookup(trackV1, "/track/");
+    expect(lookup.track.title).toBe("Buddy Holly");
+    expect(lookup.info.audioQuality).toBe("LOSSLESS");
+    expect(lookup.originalTrackUrl).toMatch(/original\.flac$/);
+  });
+
+  it("reads the bare playback info of newer proxies", () => {
+    const lookup = parseTrackLookup(normalizeTrackResponse(trackV2, "/track/"), "/track/");
+    expect(lookup.track.id).toBe(4827190);
+    expect(lookup.info.manifestMimeType).toBe("application/vnd.tidal.bts");
+    expect(lookup.originalTrackUrl).toBeUndefined();
+  });
+
+  it("throws when the playback info is missing", () => {
+    expect(() => parseTrackLookup(trackMissingInfo, "/track/")).toThrow(MalformedResponseError);
+    expect(() => parseTrackLookup([], "/track/")).toThrow(MalformedResponseError);
+  });
+
+  it("throws when the response isn't an object or array", () => {
+    expect(() => normalizeTrackResponse("nope", "/track/")).toThrow(MalformedResponseError);
+    expect(() => normalizeTrackResponse({ data: 42 }, "/track/")).toThrow(MalformedResponseError);
+  });
+});
+
+describe("search", () => {
+  it("parses tracks and the paging fields", async () => {
+    respondWith(searchTracksResponse);
+    const result = await searchTracks("weezer");
+
+    expect(result.totalNumberOfItems).toBe(112);
+    expect(result.limit).toBe(25);
+    expect(result.items.map((track) => track.title)).toEqual(["My Name Is Jonas", "Buddy Holly"]);
+
+    const [track] = result.items;
+    expect(track.id).toBe("4827186");
+    expect(track.artist).toEqual({
+      id: "3346",
+      name: "Weezer",
+      picture: "a4a9e2c1-5a0e-4ab5-9d4c-56b8f4b6d7e2",
+    });
+    expect(track.album.numberOfTracks).toBe(10);
+    expect(track.version).toBeUndefined();
+  });
+
+  it("skips items that don't parse instead of failing", async () => {
+    respondWith(searchAlbumsResponse);
+    const result = await searchAlbums("weezer");
+    expect(result.items.map((album) => album.id)).toEqual(["4827185", "296853371"]);
+    expect(result.items[1].numberOfTracks).toBe(25);
+  });
+
+  it("returns no results when there's no section", async () => {
+    respondWith({ data: { status: "ok" } });
+    const result = await searchTracks("nothing");
+    expect(result.items).toEqual([]);
+    expect(result.totalNumberOfItems).toBe(0);
+  });
+
+  it("throws on a body that isn't JSON", async () => {
+    respondWith("<html>502 Bad Gateway</html>");
+    await expect(searchTracks("weezer")).rejects.toThrow(MalformedResponseError);
+  });
+
+  it("throws on a body that isn't an object", async () => {
+    respondWith("null");
+    await expect(searchTracks("weezer")).rejects.toThrow(MalformedResponseError);
+  });
+});
+
+describe("getAlbum", () => {
+  it("parses the album and its track list", async () => {
+    respondWith(album);
+    const result = await getAlbum("4827185");
+    expect(result.album.title).toBe("Weezer (Blue Album)");
+    expect(result.album.type).toBe("ALBUM");
+    expect(result.tracks).toHaveLength(2);
+  });
+
+  it("takes the album from a track when only tracks are sent", async () => {
+    respondWith(albumTracksOnly);
+    const result = await getAlbum("4827185");
+    expect(result.album.id).toBe("4827185");
+    expect(result.tracks[1].trackNumber).toBe(4);
+  });
+
+  it("throws when there's no album", async () => {
+    respondWith({ data: { items: [] } });
+    await expect(getAlbum("1")).rejects.toThrow(MalformedResponseError);
+  });
+
+  it("throws when the payload is a list", async () => {
+    respondWith({ data: [1, 2, 3] });
+    await expect(getAlbum("1")).rejects.toThrow(MalformedResponseError);
+  });
+});
+
+describe("getStreamUrl", () => {
+  it("decodes a JSON manifest and the replay gain", async () => {
+    respondWith(trackV2);
+    const stream = await getStreamUrl("4827190", "LOSSLESS");
+    expect(stream.url).toMatch(/0\.flac\?token=abc$/);
+    expect(stream.mimeType).toBe("audio/flac");
+    expect(stream.codec).toBe("flac");
+    expect(stream.bitDepth).toBe(16);
+    expect(stream.replayGain).toEqual({
+      trackGain: -8.44,
+      trackPeak: 0.977,
+      albumGain: -9.12,
+      albumPeak: 0.988,
+    });
+  });
+
+  it("prefers the original track URL", async () => {
+    respondWith(trackV1);
+    const stream = await getStreamUrl("4827190", "LOSSLESS");
+    expect(stream.url).toMatch(/original\.flac$/);
+  });
+
+  it("throws when the manifest can't be decoded", async () => {
+    respondWith(trackBadManifest);
+    await expect(getStreamUrl("4827190")).rejects.toThrow(MalformedResponseError);
+  });
+
+  it("throws when the playback info is missing", async () => {
+    respondWith(trackMissingInfo);
+    await expect(getStreamUrl("4827190")).rejects.toThrow(MalformedResponseError);
+  });
+});
@@ -4,23 +4,49 @@
  */
 
 import { fetchWithRetry } from "./fetch";
+import { AllInstancesFailedError, MalformedResponseError } from "./errors";
+import {
+  expectRecord,
+  isRecord,
+  readArray,
+  readBoolean,
+  readId,
+  readJson,
+  readNumber,
+  readString,
+  unwrapData,
+  type JsonRecord,
+} from "./validate";
+import {
+  createDashManifestUrl,
+  parseDashManifest,
+} from "@/lib/audio/dash-manifest";
+import { isStreamQuality } from "@/lib/quality";
 import type {
   Track,
   Album,
   ArtistMinified,
+  ArtistDetail,
+  PlaylistDetail,
+  PlaylistSummary,
   SearchResult,
   StreamQuality,
+  StreamDescriptor,
+  ReplayGainInfo,
 } from "@/types/music";
 
 // -- Response normalization helpers --
 
-/* eslint-disable @typescript-eslint/no-explicit-any */
-
-function findSearchSection(
-  source: any,
+/**
+ * Find the `{ items: [...] }` section for `key` in a search response.
+ * Proxies nest it at different depths (`tracks`, `data.tracks`, or
+ * bare), so walk the payload looking for it.
+ */
+export function findSearchSection(
+  source: unknown,
   key: string,
-  visited: Set<any>
-): any | undefined {
+  visited: Set<unknown>
+): JsonRecord | undefined {
   if (!source || typeof source !== "object") return undefined;
 
   if (Array.isArray(source)) {
@@ -34,14 +60,15 @@ function findSearchSection(
   if (visited.has(source)) return undefined;
   visited.add(source);
 
-  if ("items" in source && Array.isArray(source.items)) return source;
+  const record = source as JsonRecord;
+  if (Array.isArray(record.items)) return record;
 
-  if (key in source) {
-    const f = findSearchSection(source[key], key, visited);
+  if (key in record) {
+    const f = findSearchSection(record[key], key, visited);
     if (f) return f;
   }
 
-  for (const v of Object.values(source)) {
+  for (const v of Object.values(record)) {
     const f = findSearchSection(v, key, visited);
     if (f) return f;
   }
@@ -49,104 +76,175 @@ function findSearchSection(
   return undefined;
 }
 
-function normalizeSearchResponse<T>(data: any, key: string): SearchResult<T> {
+/**
+ * Parse a list of entries, unwrapping `{ item }` wrappers. Entries that
+ * don't parse are skipped rather than failing the whole response.
+ */
+function parseItems<T>(
+  entries: unknown[],
+  parse: (value: unknown) => T | null,
+  endpoint: string
+): T[] {
+  const result: T[] = [];
+  let skipped = 0;
+
+  for (const entry of entries) {
+    const value = isRecord(entry) && isRecord(entry.item) ? entry.item : entry;
+    const parsed = parse(value);
+    if (parsed) result.push(parsed);
+    else skipped++;
+  }
+
+  if (skipped > 0) {
+    console.warn(`[TIDAL] Skipped ${skipped} malformed item(s) from ${endpoint}`);
+  }
+  return result;
+}
+
+function normalizeSearchResponse<T>(
+  data: unknown,
+  key: string,
+  parse: (value: unknown) => T | null,
+  endpoint: string
+): SearchResult<T> {
+  if (!data || typeof data !== "object") {
+    throw new MalformedResponseError(endpoint, "expected search results");
+  }
+
   const section = findSearchSection(data, key, new Set());
-  const items: T[] = section?.items ?? [];
+  const items = section ? parseItems(readArray(section, "items"), parse, endpoint) : [];
   return {
     items,
-    limit: section?.limit ?? items.length,
-    offset: section?.offset ?? 0,
-    totalNumberOfItems: section?.totalNumberOfItems ?? items.length,
+    limit: (section && readNumber(section, "limit")) ?? items.length,
+    offset: (section && readNumber(section, "offset")) ?? 0,
+    totalNumberOfItems:
+      (section && readNumber(section, "totalNumberOfItems")) ?? items.length,
   };
 }
 
-function prepareTrack(raw: any): Track {
-  const track = { ...raw };
-
-  if (!track.artist && Array.isArray(track.artists) && track.artists.length > 0) {
-    track.artist = track.artists[0];
+function parseArtist(value: unknown): ArtistMinified {
+  if (!isRecord(value)) {
+    return { id: "0", name: "Unknown Artist" };
   }
+  return {
+    id: readId(value) ?? "0",
+    name: readString(value, "name") ?? "Unknown Artist",
+    picture: readString(value, "picture"),
+  };
+}
+
+function parseTrack(value: unknown): Track | null {
+  if (!isRecord(value)) return null;
+  const id = readId(value);
+  if (!id) return null;
+
+  const artists = readArray(value, "artists");
+  const primaryArtist = value.artist ?? artists[0];
+  const album = isRecord(value.album) ? value.album : null;
 
   return {
-    id: String(track.id),
-    title: track.title ?? "Unknown",
-    duration: track.duration ?? 0,
-    explicit: track.explicit ?? false,
-    artist: normalizeArtist(track.artist),
-    artists: Array.isArray(track.artists)
-      ? track.artists.map(normalizeArtist)
-      : track.artist
-        ? [normalizeArtist(track.artist)]
-        : [],
-    album: track.album
+    id,
+    title: readString(value, "title") ?? "Unknown",
+    duration: readNumber(value, "duration") ?? 0,
+    explicit: readBoolean(value, "explicit") ?? false,
+    artist: parseArtist(primaryArtist),
+    artists:
+      artists.length > 0
+        ? artists.map(parseArtist)
+        : primaryArtist
+          ? [parseArtist(primaryArtist)]
+          : [],
+    album: album
       ? {
-          id: String(track.album.id),
-          title: track.album.title ?? "",
-          cover: track.album.cover ?? track.album.image ?? undefined,
-          releaseDate: track.album.releaseDate ?? undefined,
-          artist: normalizeArtist(track.album.artist ?? track.artist),
-          numberOfTracks: track.album.numberOfTracks ?? undefined,
+          id: readId(album) ?? "",
+          title: readString(album, "title") ?? "",
+          cover: readString(album, "cover") ?? readString(album, "image"),
+          releaseDate: readString(album, "releaseDate"),
+          artist: parseArtist(album.artist ?? primaryArtist),
+          numberOfTracks: readNumber(album, "numberOfTracks"),
         }
-      : { id: "", title: "", artist: normalizeArtist(null) },
-    isrc: track.isrc ?? undefined,
-    trackNumber: track.trackNumber ?? undefined,
-    version: track.version ?? undefined,
-    copyright: track.copyright ?? undefined,
+      : { id: "", title: "", artist: parseArtist(null) },
+    isrc: readString(value, "isrc"),
+    trackNumber: readNumber(value, "trackNumber"),
+    version: readString(value, "version"),
+    copyright: readString(value, "copyright"),
   };
 }
 
-function prepareAlbum(raw: any): Album {
-  const album = { ...raw };
-
-  if (!album.artist && Array.isArray(album.artists) && album.artists.length > 0) {
-    album.artist = album.artists[0];
-  }
+function parseAlbum(value: unknown): Album | null {
+  if (!isRecord(value)) return null;
+  const id = readId(value);
+  if (!id) return null;
 
   return {
-    id: String(album.id),
-    title: album.title ?? "Unknown",
-    cover: album.cover ?? album.image ?? undefined,
-    releaseDate: album.releaseDate ?? undefined,
-    artist: normalizeArtist(album.artist),
-    numberOfTracks: album.numberOfTracks ?? undefined,
-    explicit: album.explicit ?? false,
-    type: album.type ?? "ALBUM",
+    id,
+    title: readString(value, "title") ?? "Unknown",
+    cover: readString(value, "cover") ?? readString(value, "image"),
+    releaseDate: readString(value, "releaseDate"),
+    artist: parseArtist(value.artist ?? readArray(value, "artists")[0]),
+    numberOfTracks: readNumber(value, "numberOfTracks"),
+    explicit: readBoolean(value, "explicit") ?? false,
+    type: readString(value, "type") ?? "ALBUM",
   };
 }
 
-function normalizeArtist(raw: any): ArtistMinified {
-  if (!raw) {
-    return { id: "0", name: "Unknown Artist" };
-  }
+function parseArtistItem(value: unknown): ArtistMinified | null {
+  return isRecord(value) && readId(value) ? parseArtist(value) : null;
+}
+
+function parsePlaylistSummary(value: unknown): PlaylistSummary | null {
+  if (!isRecord(value)) return null;
+  const id = readString(value, "uuid") ?? readId(value);
+  if (!id) return null;
+
   return {
-    id: String(raw.id),
-    name: raw.name ?? "Unknown Artist",
-    picture: raw.picture ?? undefined,
+    id,
+    title: readString(value, "title") ?? "Unknown Playlist",
+    image: readString(value, "image") ?? readString(value, "squareImage"),
+    description: readString(value, "description"),
+    numberOfTracks: readNumber(value, "numberOfTracks") ?? 0,
   };
 }
 
 // -- Manifest parsing --
 
-function extractStreamUrlFromManifest(manifest: string): string | null {
+interface ManifestSource {
+  url: string;
+  mimeType?: string;
+  codec?: string;
+}
+
+function parseManifest(manifest: string): ManifestSource | null {
   try {
     const decoded = atob(manifest);
 
-    // DASH manifest -- create blob URL
+    // DASH manifest -- registered blob URL, played through MSE
     if (decoded.includes("<MPD")) {
-      const blob = new Blob([decoded], { type: "application/dash+xml" });
-      return URL.createObjectURL(blob);
+      const best = parseDashManifest(decoded).representations
+        .slice()
+        .sort((a, b) => b.bandwidth - a.bandwidth)[0];
+      return {
+        url: createDashManifestUrl(decoded),
+        mimeType: best?.mimeType,
+        codec: best?.codecs || undefined,
+      };
     }
 
     // JSON manifest
     try {
-      const parsed = JSON.parse(decoded);
-      if (parsed?.urls?.[0]) {
-        return parsed.urls[0];
+      const parsed: unknown = JSON.parse(decoded);
+      const urls = isRecord(parsed) ? readArray(parsed, "urls") : [];
+      if (isRecord(parsed) && typeof urls[0] === "string") {
+        return {
+          url: urls[0],
+          mimeType: readString(parsed, "mimeType"),
+          codec: readString(parsed, "codecs"),
+        };
       }
     } catch {
       // Not JSON -- try regex for URL
       const match = decoded.match(/https?:\/\/[\w\-.~:?#[@!$&'()*+,;=%/]+/);
-      return match ? match[0] : null;
+      return match ? { url: match[0] } : null;
     }
   } catch (error) {
     console.error("[TIDAL] Failed to decode manifest:", error);
@@ -154,22 +252,37 @@ function extractStreamUrlFromManifest(manifest: string): string | null {
   return null;
 }
 
+function parseReplayGain(info: JsonRecord): ReplayGainInfo | undefined {
+  const replayGain: ReplayGainInfo = {
+    trackGain: readNumber(info, "trackReplayGain"),
+    trackPeak: readNumber(info, "trackPeakAmplitude"),
+    albumGain: readNumber(info, "albumReplayGain"),
+    albumPeak: readNumber(info, "albumPeakAmplitude"),
+  };
+  return Object.values(replayGain).some((v) => v !== undefined)
+    ? replayGain
+    : undefined;
+}
+
 // -- Track lookup parsing (for stream endpoint) --
 
-interface TrackLookup {
-  track: any;
-  info: any;
+export interface TrackLookup {
+  track: JsonRecord;
+  info: JsonRecord;
   originalTrackUrl?: string;
 }
 
-function parseTrackLookup(data: any): TrackLookup {
-  const entries = Array.isArray(data) ? data : [data];
-  let track: any;
-  let info: any;
+/**
+ * Pick the track, playback info and optional original URL out of a
+ * stream lookup. Older proxies return them as separate array entries.
+ */
+export function parseTrackLookup(entries: unknown[], endpoint: string): TrackLookup {
+  let track: JsonRecord | undefined;
+  let info: JsonRecord | undefined;
   let originalTrackUrl: string | undefined;
 
   for (const entry of entries) {
-    if (!entry || typeof entry !== "object") continue;
+    if (!isRecord(entry)) continue;
 
     if (!track && "duration" in entry) {
       track = entry;
@@ -181,207 +294,342 @@ function parseTrackLookup(data: any): TrackLookup {
       continue;
     }
 
-    if (!originalTrackUrl && "OriginalTrackUrl" in entry) {
-      const candidate = entry.OriginalTrackUrl;
-      if (typeof candidate === "string") {
-        originalTrackUrl = candidate;
-      }
+    if (!originalTrackUrl) {
+      originalTrackUrl = readString(entry, "OriginalTrackUrl");
     }
   }
 
   if (!track || !info) {
-    throw new Error("Malformed track response");
+    throw new MalformedResponseError(endpoint, "missing track or playback info");
   }
 
   return { track, info, originalTrackUrl };
 }
 
-function normalizeTrackResponse(apiResponse: any): any {
-  if (!apiResponse || typeof apiResponse !== "object") return apiResponse;
-  const raw = apiResponse.data ?? apiResponse;
+/**
+ * Newer proxies return only the playback info (optionally under
+ * `data`); give it a track stub so it reads like the array form.
+ */
+export function normalizeTrackResponse(apiResponse: unknown, endpoint: string): unknown[] {
+  if (Array.isArray(apiResponse)) return apiResponse;
+
+  const raw = expectRecord(unwrapData(apiResponse), endpoint, "playback info");
   const trackStub = { duration: raw.duration ?? 0, id: raw.trackId ?? null };
   return [trackStub, raw];
 }
 
-/* eslint-enable @typescript-eslint/no-explicit-any */
-
 // -- Public API --
 
 export async function searchTracks(
   query: string,
   signal?: AbortSignal
 ): Promise<SearchResult<Track>> {
+  const endpoint = "/search/?s";
   const response = await fetchWithRetry(
     `/search/?s=${encodeURIComponent(query)}`,
     { signal }
   );
-  const data = await response.json();
-  const normalized = normalizeSearchResponse<Track>(data, "tracks");
-  return {
-    ...normalized,
-    items: normalized.items.map(prepareTrack),
-  };
+  const data = await readJson(response, endpoint);
+  return normalizeSearchResponse(data, "tracks", parseTrack, endpoint);
 }
 
 export async function searchAlbums(
   query: string,
   signal?: AbortSignal
 ): Promise<SearchResult<Album>> {
+  const endpoint = "/search/?al";
   const response = await fetchWithRetry(
     `/search/?al=${encodeURIComponent(query)}`,
     { signal }
   );
-  const data = await response.json();
-  const normalized = normalizeSearchResponse<Album>(data, "albums");
-  return {
-    ...normalized,
-    items: normalized.items.map(prepareAlbum),
-  };
+  const data = await readJson(response, endpoint);
+  return normalizeSearchResponse(data, "albums", parseAlbum, endpoint);
 }
 
 export async function searchArtists(
   query: string,
   signal?: AbortSignal
 ): Promise<SearchResult<ArtistMinified>> {
+  const endpoint = "/search/?a";
   const response = await fetchWithRetry(
     `/search/?a=${encodeURIComponent(query)}`,
     { signal }
   );
-  const data = await response.json();
-  const normalized = normalizeSearchResponse<ArtistMinified>(data, "artists");
-  return {
-    ...normalized,
-    items: normalized.items.map(normalizeArtist),
-  };
+  const data = await readJson(response, endpoint);
+  return normalizeSearchResponse(data, "artists", parseArtistItem, endpoint);
 }
 
 export async function searchPlaylists(
   query: string,
   signal?: AbortSignal
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-): Promise<SearchResult<any>> {
+): Promise<SearchResult<PlaylistSummary>> {
+  const endpoint = "/search/?p";
   const response = await fetchWithRetry(
     `/search/?p=${encodeURIComponent(query)}`,
     { signal }
   );
-  const data = await response.json();
-  return normalizeSearchResponse(data, "playlists");
+  const data = await readJson(response, endpoint);
+  return normalizeSearchResponse(data, "playlists", parsePlaylistSummary, endpoint);
 }
 
 export async function getAlbum(
   id: string,
   signal?: AbortSignal
 ): Promise<{ album: Album; tracks: Track[] }> {
+  const endpoint = "/album/";
   const response = await fetchWithRetry(`/album/?id=${id}`, { signal });
-  const jsonData = await response.json();
-  const data = jsonData.data || jsonData;
+  const data = expectRecord(
+    unwrapData(await readJson(response, endpoint)),
+    endpoint,
+    "album"
+  );
 
-  let album: Album | undefined;
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  let tracksSection: any;
+  let album: Album | null = null;
+  let tracks: Track[] = [];
 
-  if (data && typeof data === "object" && !Array.isArray(data)) {
-    if ("numberOfTracks" in data || "title" in data) {
-      album = prepareAlbum(data);
-    }
+  if ("numberOfTracks" in data || "title" in data) {
+    album = parseAlbum(data);
+  }
 
-    if ("items" in data) {
-      tracksSection = data;
+  if (Array.isArray(data.items)) {
+    tracks = parseItems(data.items, parseTrack, endpoint);
 
-      if (!album && data.items?.length > 0) {
-        const firstItem = data.items[0];
-        const track = firstItem.item || firstItem;
-        if (track?.album) {
-          album = prepareAlbum(track.album);
-        }
-      }
+    // Some proxies only send the track list; take the album from a track
+    if (!album) {
+      const [first] = data.items;
+      const firstTrack = isRecord(first) && isRecord(first.item) ? first.item : first;
+      if (isRecord(firstTrack)) album = parseAlbum(firstTrack.album);
     }
   }
 
-  if (!album) throw new Error("Album not found");
+  if (!album) throw new MalformedResponseError(endpoint, "no album in response");
+
+  return { album, tracks };
+}
+
+// Releases requested per page of the artist content endpoint
+const DISCOGRAPHY_PAGE_SIZE = 50;
+// Safety stop in case a proxy ignores the offset
+const MAX_DISCOGRAPHY_PAGES = 20;
+
+/**
+ * Collect every album- and track-shaped object in an artist content
+ * response. Releases and tracks are spread over several modules.
+ */
+function collectArtistContent(
+  value: unknown,
+  albums: Map<string, Album>,
+  tracks: Map<string, Track>,
+  visited = new Set<unknown>()
+): void {
+  if (!value || typeof value !== "object" || visited.has(value)) return;
+  visited.add(value);
+
+  if (Array.isArray(value)) {
+    value.forEach((item) => collectArtistContent(item, albums, tracks, visited));
+    return;
+  }
+
+  const record = value as JsonRecord;
+  const item = isRecord(record.item) ? record.item : record;
+
+  if (readId(item) && "numberOfTracks" in item) {
+    const album = parseAlbum(item);
+    if (album) albums.set(album.id, album);
+  }
+  if (readId(item) && item.duration && isRecord(item.album)) {
+    const track = parseTrack(item);
+    if (track) tracks.set(track.id, track);
+  }
 
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  const tracks = (tracksSection?.items ?? []).map((i: any) =>
-    prepareTrack(i.item || i)
+  Object.values(record).forEach((nested) =>
+    collectArtistContent(nested, albums, tracks, visited)
   );
+}
 
-  return { album, tracks };
+/**
+ * `totalNumberOfItems` of the release lists in a paged artist response:
+ * the largest total among sections whose items are albums. Other
+ * sections (top tracks, videos) have totals of their own that say
+ * nothing about how far the releases go.
+ */
+function releaseListTotal(value: unknown, visited = new Set<unknown>()): number | undefined {
+  if (!value || typeof value !== "object" || visited.has(value)) return undefined;
+  visited.add(value);
+
+  const nested = Array.isArray(value) ? value : Object.values(value as JsonRecord);
+  let total: number | undefined;
+  if (!Array.isArray(value)) {
+    const record = value as JsonRecord;
+    const holdsAlbums =
+      Array.isArray(record.items) &&
+      record.items.some((entry) => {
+        const item = isRecord(entry) && isRecord(entry.item) ? entry.item : entry;
+        return isRecord(item) && Boolean(readId(item)) && "numberOfTracks" in item;
+      });
+    if (holdsAlbums) total = readNumber(record, "totalNumberOfItems");
+  }
+
+  for (const child of nested) {
+    const childTotal = releaseListTotal(child, visited);
+    if (childTotal !== undefined) total = Math.max(total ?? 0, childTotal);
+  }
+  return total;
 }
 
 export async function getArtist(
   artistId: string,
   signal?: AbortSignal
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-): Promise<any> {
+): Promise<ArtistDetail> {
+  const endpoint = "/artist/";
   const response = await fetchWithRetry(`/artist/?id=${artistId}`, { signal });
-  const jsonData = await response.json();
-  const data = jsonData.data || jsonData;
+  const data = unwrapData(await readJson(response, endpoint));
 
-  const artist = normalizeArtist(data);
+  const artist = parseArtistItem(data);
+  if (!artist) throw new MalformedResponseError(endpoint, "no artist in response");
 
-  // Fetch artist content (albums, tracks)
+  // Fetch artist content for the top tracks
   const contentResponse = await fetchWithRetry(
     `/artist/?f=${artistId}&skip_tracks=true`,
     { signal }
   );
-  const contentJsonData = await contentResponse.json();
-  const contentData = contentJsonData.data || contentJsonData;
+  const contentData = unwrapData(await readJson(contentResponse, endpoint));
 
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  const albumMap = new Map<string, Album>();
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
   const trackMap = new Map<string, Track>();
+  collectArtistContent(contentData, new Map(), trackMap);
+  const tracks = Array.from(trackMap.values()).slice(0, 15);
 
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  const isTrack = (v: any) => v?.id && v.duration && v.album;
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  const isAlbum = (v: any) => v?.id && "numberOfTracks" in v;
+  return { ...artist, tracks };
+}
 
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  const scan = (value: any, visited = new Set<any>()) => {
-    if (!value || typeof value !== "object" || visited.has(value)) return;
-    visited.add(value);
+/**
+ * Every release the artist endpoint lists for an artist, paging until
+ * the reported total is reached or a page adds nothing new.
+ */
+export async function getArtistReleases(
+  artistId: string,
+  signal?: AbortSignal
+): Promise<Album[]> {
+  const endpoint = "/artist/";
+  const albums = new Map<string, Album>();
+
+  for (let page = 0; page < MAX_DISCOGRAPHY_PAGES; page++) {
+    const offset = page * DISCOGRAPHY_PAGE_SIZE;
+    const response = await fetchWithRetry(
+      `/artist/?f=${artistId}&skip_tracks=true&offset=${offset}&limit=${DISCOGRAPHY_PAGE_SIZE}`,
+      { signal }
+    );
+    const data = unwrapData(await readJson(response, endpoint));
+
+    const before = albums.size;
+    collectArtistContent(data, albums, new Map());
+    if (albums.size === before) break;
+
+    const total = releaseListTotal(data);
+    if (total === undefined || offset + DISCOGRAPHY_PAGE_SIZE >= total) break;
+  }
 
-    if (Array.isArray(value)) {
-      value.forEach((item) => scan(item, visited));
-      return;
-    }
+  return Array.from(albums.values());
+}
 
-    const item = value.item || value;
-    if (isAlbum(item)) albumMap.set(String(item.id), prepareAlbum(item));
-    if (isTrack(item)) trackMap.set(String(item.id), prepareTrack(item));
+/**
+ * Artists related to `artistId`. Uses the proxy's similar-artists
+ * endpoint when it has one, otherwise falls back to the artist's most
+ * frequent collaborators on their tracks.
+ */
+export async function getSimilarArtists(
+  artistId: string,
+  signal?: AbortSignal
+): Promise<ArtistMinified[]> {
+  const endpoint = "/artist/similar/";
 
-    Object.values(value).forEach((nested) => scan(nested, visited));
-  };
+  try {
+    const response = await fetchWithRetry(`/artist/similar/?id=${artistId}`, { signal });
+    const data = await readJson(response, endpoint);
+    const similar = normalizeSearchResponse(data, "artists", parseArtistItem, endpoint)
+      .items.filter((artist) => artist.id !== artistId);
+    if (similar.length > 0) return similar;
+  } catch (error) {
+    // Older proxies don't have the endpoint
+    if (!(error instanceof AllInstancesFailedError || error instanceof MalformedResponseError)) {
+      throw error;
+    }
+  }
+
+  const contentResponse = await fetchWithRetry(`/artist/?f=${artistId}`, { signal });
+  const contentData = unwrapData(await readJson(contentResponse, "/artist/"));
+  const albums = new Map<string, Album>();
+  const tracks = new Map<string, Track>();
+  collectArtistContent(contentData, albums, tracks);
+
+  const counts = new Map<string, { artist: ArtistMinified; count: number }>();
+  const credits = [
+    ...Array.from(tracks.values()).flatMap((track) => track.artists ?? []),
+    ...Array.from(albums.values()).map((album) => album.artist),
+  ];
+  for (const artist of credits) {
+    if (artist.id === artistId || artist.id === "0") continue;
+    const entry = counts.get(artist.id) ?? { artist, count: 0 };
+    entry.count++;
+    counts.set(artist.id, entry);
+  }
 
-  const entries = Array.isArray(contentData) ? contentData : [contentData];
-  entries.forEach((entry) => scan(entry));
+  return Array.from(counts.values())
+    .sort((a, b) => b.count - a.count)
+    .map((entry) => entry.artist);
+}
 
-  const albums = Array.from(albumMap.values());
-  const tracks = Array.from(trackMap.values()).slice(0, 15);
+/**
+ * Tracks the proxy recommends after `trackId` (TIDAL's track radio).
+ * Returns an empty list when the proxy doesn't offer recommendations.
+ */
+export async function getTrackRecommendations(
+  trackId: string,
+  signal?: AbortSignal
+): Promise<Track[]> {
+  const endpoint = "/recommendations/";
 
-  return { ...artist, albums, tracks };
+  try {
+    const response = await fetchWithRetry(`/recommendations/?id=${trackId}`, { signal });
+    const data = await readJson(response, endpoint);
+    // Entries come as `{ track, sources }` rather than bare tracks
+    const parseEntry = (value: unknown) =>
+      parseTrack(isRecord(value) && isRecord(value.track) ? value.track : value);
+    return normalizeSearchResponse(data, "tracks", parseEntry, endpoint).items.filter(
+      (track) => track.id !== trackId
+    );
+  } catch (error) {
+    // Older proxies don't have the endpoint
+    if (error instanceof AllInstancesFailedError || error instanceof MalformedResponseError) {
+      return [];
+    }
+    throw error;
+  }
 }
 
 export async function getPlaylist(
   id: string,
   signal?: AbortSignal
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-): Promise<any> {
+): Promise<PlaylistDetail> {
+  const endpoint = "/playlist/";
   const response = await fetchWithRetry(`/playlist/?id=${id}`, { signal });
-  const jsonData = await response.json();
-  const data = jsonData.data || jsonData;
-
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  const tracks = (data.items ?? []).map((i: any) =>
-    prepareTrack(i.item || i)
+  const data = expectRecord(
+    unwrapData(await readJson(response, endpoint)),
+    endpoint,
+    "playlist"
   );
 
+  const tracks = parseItems(readArray(data, "items"), parseTrack, endpoint);
+  // The playlist itself may sit next to its items or under `playlist`
+  const info = isRecord(data.playlist) ? data.playlist : data;
+  const summary = parsePlaylistSummary(info);
+
   return {
-    id: String(data.uuid || data.id || id),
-    title: data.title ?? "Unknown Playlist",
-    image: data.image ?? data.squareImage ?? undefined,
-    numberOfTracks: data.numberOfTracks ?? tracks.length,
+    id: summary?.id ?? id,
+    title: summary?.title ?? "Unknown Playlist",
+    image: summary?.image,
+    description: summary?.description,
+    numberOfTracks: readNumber(info, "numberOfTracks") ?? tracks.length,
     tracks,
   };
 }
@@ -390,49 +638,63 @@ export async function getTrackMetadata(
   id: string,
   signal?: AbortSignal
 ): Promise<Track> {
+  const endpoint = "/info/";
   const response = await fetchWithRetry(`/info/?id=${id}`, {
     type: "api",
     signal,
   });
-  const json = await response.json();
-  const data = json.data || json;
+  const data = unwrapData(await readJson(response, endpoint));
 
   const items = Array.isArray(data) ? data : [data];
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  const found = items.find(
-    (i: any) => String(i.id) === id || String(i.item?.id) === id
-  );
+  const found = items
+    .map((entry) => (isRecord(entry) && isRecord(entry.item) ? entry.item : entry))
+    .find((entry) => isRecord(entry) && readId(entry) === id);
 
-  if (found) {
-    return prepareTrack(found.item || found);
-  }
+  if (!found) throw new Error("Track metadata not found");
 
-  throw new Error("Track metadata not found");
+  const track = parseTrack(found);
+  if (!track) throw new MalformedResponseError(endpoint, "invalid track");
+  return track;
 }
 
 export async function getStreamUrl(
   id: string,
   quality: StreamQuality = "HI_RES_LOSSLESS",
   signal?: AbortSignal
-): Promise<string> {
+): Promise<StreamDescriptor> {
+  const endpoint = "/track/";
   const response = await fetchWithRetry(
     `/track/?id=${id}&quality=${quality}`,
     { type: "streaming", signal }
   );
-  const jsonResponse = await response.json();
-  const normalized = normalizeTrackResponse(jsonResponse);
-  const lookup = parseTrackLookup(normalized);
-
-  if (lookup.originalTrackUrl) {
-    return lookup.originalTrackUrl;
-  }
-
-  const streamUrl = extractStreamUrlFromManifest(lookup.info.manifest);
-  if (!streamUrl) {
-    throw new Error("Could not resolve stream URL from manifest");
+  const jsonResponse = await readJson(response, endpoint);
+  const lookup = parseTrackLookup(
+    normalizeTrackResponse(jsonResponse, endpoint),
+    endpoint
+  );
+  const info = lookup.info;
+  const manifest = readString(info, "manifest");
+
+  const source: ManifestSource | null = lookup.originalTrackUrl
+    ? { url: lookup.originalTrackUrl }
+    : manifest
+      ? parseManifest(manifest)
+      : null;
+  if (!source) {
+    throw new MalformedResponseError(endpoint, "could not resolve stream URL");
   }
 
-  return streamUrl;
+  const audioQuality = readString(info, "audioQuality");
+  return {
+    url: source.url,
+    quality: isStreamQuality(audioQuality) ? audioQuality : quality,
+    codec: source.codec,
+    mimeType: source.mimeType,
+    bitDepth: readNumber(info, "bitDepth"),
+    sampleRate: readNumber(info, "sampleRate"),
+    audioMode: readString(info, "audioMode"),
+    replayGain: parseReplayGain(info),
+  };
 }
 
 // -- Cover/artwork helpers --
@@ -0,0 +1,93 @@
+import { describe, expect, it } from "vitest";
+import { MalformedResponseError } from "./errors";
+import {
+  expectRecord,
+  isRecord,
+  readArray,
+  readBoolean,
+  readId,
+  readJson,
+  readNumber,
+  readString,
+  unwrapData,
+} from "./validate";
+
+describe("isRecord", () => {
+  it("accepts plain objects only", () => {
+    expect(isRecord({})).toBe(true);
+    expect(isRecord([])).toBe(false);
+    expect(isRecord(null)).toBe(false);
+    expect(isRecord("{}")).toBe(false);
+  });
+});
+
+describe("expectRecord", () => {
+  it("returns objects and throws on anything else", () => {
+    const record = { id: 1 };
+    expect(expectRecord(record, "/album/")).toBe(record);
+    expect(() => expectRecord([record], "/album/", "album")).toThrow(MalformedResponseError);
+    expect(() => expectRecord(undefined, "/album/")).toThrow("Malformed response from /album/");
+  });
+});
+
+describe("readJson", () => {
+  it("parses JSON bodies", async () => {
+    await expect(readJson(new Response('{"data":[]}'), "/search/")).resolves.toEqual({ data: [] });
+  });
+
+  it("throws on bodies that aren't JSON", async () => {
+    await expect(readJson(new Response("Bad Gateway"), "/search/")).rejects.toThrow(
+      MalformedResponseError
+    );
+  });
+});
+
+describe("unwrapData", () => {
+  it("unwraps `data` when there is one", () => {
+    expect(unwrapData({ version: "2.0", data: { id: 1 } })).toEqual({ id: 1 });
+    expect(unwrapData({ id: 1, data: null })).toEqual({ id: 1, data: null });
+    expect(unwrapData([1])).toEqual([1]);
+  });
+});
+
+describe("field readers", () => {
+  const record = {
+    id: 4827185,
+    uuid: "7f9c1d3e-2a4b-4c6d-8e0f-1a2b3c4d5e6f",
+    title: "Buddy Holly",
+    empty: "",
+    duration: 159,
+    gain: Number.NaN,
+    explicit: false,
+    items: [1, 2],
+  };
+
+  it("reads strings, ignoring empty ones and other types", () => {
+    expect(readString(record, "title")).toBe("Buddy Holly");
+    expect(readString(record, "empty")).toBeUndefined();
+    expect(readString(record, "duration")).toBeUndefined();
+  });
+
+  it("reads finite numbers only", () => {
+    expect(readNumber(record, "duration")).toBe(159);
+    expect(readNumber(record, "gain")).toBeUndefined();
+    expect(readNumber(record, "title")).toBeUndefined();
+  });
+
+  it("reads booleans", () => {
+    expect(readBoolean(record, "explicit")).toBe(false);
+    expect(readBoolean(record, "missing")).toBeUndefined();
+  });
+
+  it("reads numeric and string IDs as strings", () => {
+    expect(readId(record)).toBe("4827185");
+    expect(readId(record, "uuid")).toBe("7f9c1d3e-2a4b-4c6d-8e0f-1a2b3c4d5e6f");
+    expect(readId(record, "empty")).toBeUndefined();
+    expect(readId(record, "gain")).toBeUndefined();
+  });
+
+  it("reads arrays, defaulting to empty", () => {
+    expect(readArray(record, "items")).toEqual([1, 2]);
+    expect(readArray(record, "title")).toEqual([]);
+  });
+});
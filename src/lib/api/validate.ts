@@ -0,0 +1,68 @@
+/**
+ * Runtime checks for proxy responses.
+ *
+ * The proxies wrap TIDAL's payloads in slightly different shapes, so
+ * parsers take `unknown` and read fields through these helpers instead
+ * of trusting a cast. Anything structurally wrong surfaces as a
+ * MalformedResponseError naming the endpoint.
+ */
+
+import { MalformedResponseError } from "./errors";
+
+export type JsonRecord = Record<string, unknown>;
+
+export function isRecord(value: unknown): value is JsonRecord {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+export function expectRecord(
+  value: unknown,
+  endpoint: string,
+  what = "object"
+): JsonRecord {
+  if (!isRecord(value)) {
+    throw new MalformedResponseError(endpoint, `expected ${what}`);
+  }
+  return value;
+}
+
+/** Parse a response body, reporting invalid JSON as malformed. */
+export async function readJson(response: Response, endpoint: string): Promise<unknown> {
+  try {
+    return await response.json();
+  } catch {
+    throw new MalformedResponseError(endpoint, "body is not valid JSON");
+  }
+}
+
+/** Most proxies nest the payload under `data`; some don't. */
+export function unwrapData(json: unknown): unknown {
+  return isRecord(json) && json.data != null ? json.data : json;
+}
+
+export function readString(record: JsonRecord, key: string): string | undefined {
+  const value = record[key];
+  return typeof value === "string" && value !== "" ? value : undefined;
+}
+
+export function readNumber(record: JsonRecord, key: string): number | undefined {
+  const value = record[key];
+  return typeof value === "number" && Number.isFinite(value) ? value : undefined;
+}
+
+export function readBoolean(record: JsonRecord, key: string): boolean | undefined {
+  const value = record[key];
+  return typeof value === "boolean" ? value : undefined;
+}
+
+/** IDs come back as numbers or strings depending on the endpoint. */
+export function readId(record: JsonRecord, key = "id"): string | undefined {
+  const value = record[key];
+  if (typeof value === "number" && Number.isFinite(value)) return String(value);
+  return typeof value === "string" && value !== "" ? value : undefined;
+}
+
+export function readArray(record: JsonRecord, key: string): unknown[] {
+  const value = record[key];
+  return Array.isArray(value) ? value : [];
+}
@@ -0,0 +1,117 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from "vitest";
+import { findSegmentIndex, parseDashManifest, parseIsoDuration } from "./dash-manifest";
+import templateDuration from "./fixtures/template-duration.mpd?raw";
+import timeline from "./fixtures/timeline.mpd?raw";
+import timelineOpenRepeat from "./fixtures/timeline-open-repeat.mpd?raw";
+
+const starts = (xml: string) =>
+  parseDashManifest(xml).representations[0].segments.map((segment) => segment.start);
+
+describe("parseIsoDuration", () => {
+  it("parses the durations manifests use", () => {
+    expect(parseIsoDuration("PT18.893S")).toBeCloseTo(18.893);
+    expect(parseIsoDuration("PT3M25.5S")).toBe(205.5);
+    expect(parseIsoDuration("PT1H")).toBe(3600);
+  });
+
+  it("treats missing or invalid durations as 0", () => {
+    expect(parseIsoDuration(null)).toBe(0);
+    expect(parseIsoDuration("3 minutes")).toBe(0);
+  });
+});
+
+describe("parseDashManifest", () => {
+  it("expands a SegmentTimeline with repeats", () => {
+    const manifest = parseDashManifest(timeline);
+    expect(manifest.duration).toBeCloseTo(18.893);
+    expect(manifest.representations).toHaveLength(1);
+
+    const [rep] = manifest.representations;
+    expect(rep).toMatchObject({
+      id: "FLAC,44100,16",
+      mimeType: "audio/mp4",
+      codecs: "flac",
+      bandwidth: 1011234,
+      sampleRate: 44100,
+      initializationUrl: "https://sp-ad-cf.audio.tidal.com/mediatracks/GmIA/0.mp4?token=abc",
+    });
+    expect(rep.segments.map((segment) => segment.url.split("?")[0].split("/").pop())).toEqual([
+      "1.mp4",
+      "2.mp4",
+      "3.mp4",
+      "4.mp4",
+      "5.mp4",
+    ]);
+    expect(rep.segments[1].start).toBeCloseTo(176128 / 44100);
+    expect(rep.segments[4].start).toBeCloseTo((4 * 176128) / 44100);
+    expect(rep.segments[4].duration).toBeCloseTo(128666 / 44100);
+  });
+
+  it("repeats r=-1 up to the next S@t, then to the end of the period", () => {
+    const manifest = parseDashManifest(timelineOpenRepeat);
+    const [rep] = manifest.representations;
+
+    expect(starts(timelineOpenRepeat)).toEqual([0, 2, 4, 6, 8, 11]);
+    expect(rep.segments.map((segment) => segment.duration)).toEqual([2, 2, 2, 2, 3, 3]);
+    expect(rep.segments[4].url).toBe("https://cdn.example.com/tracks/123/aac-320/8000.m4s");
+    expect(rep.initializationUrl).toBe("https://cdn.example.com/tracks/123/aac-320/init.mp4");
+    expect(rep.codecs).toBe("mp4a.40.2");
+    expect(rep.sampleRate).toBe(48000);
+  });
+
+  it("builds fixed-duration segments from a SegmentTemplate", () => {
+    const manifest = parseDashManifest(templateDuration);
+    expect(manifest.duration).toBe(10);
+    expect(manifest.representations.map((rep) => rep.id)).toEqual(["low", "high"]);
+
+    const [low, high] = manifest.representations;
+    expect(low.segments).toEqual([
+      { url: "https://cdn.example.com/media/audio/low/seg-00000.m4s", start: 0, duration: 4 },
+      { url: "https://cdn.example.com/media/audio/low/seg-00001.m4s", start: 4, duration: 4 },
+      { url: "https://cdn.example.com/media/audio/low/seg-00002.m4s", start: 8, duration: 4 },
+    ]);
+    expect(low.initializationUrl).toBe("https://cdn.example.com/media/audio/low/init.mp4");
+
+    // The representation's own template overrides the adaptation set's media
+    expect(high.segments[0].url).toBe("https://cdn.example.com/media/high/320000-0.m4s");
+    expect(high.initializationUrl).toBe("https://cdn.example.com/media/high/init.mp4");
+  });
+
+  it("rejects documents that aren't usable manifests", () => {
+    expect(() => parseDashManifest("<html></html>")).toThrow("Invalid DASH manifest");
+    expect(() => parseDashManifest("<MPD><Period>")).toThrow("Invalid DASH manifest");
+    expect(() => parseDashManifest('<MPD xmlns="urn:mpeg:dash:schema:mpd:2011"/>')).toThrow(
+      "no Period"
+    );
+    expect(() =>
+      parseDashManifest(templateDuration.replace(/initialization="[^"]*"/g, ""))
+    ).toThrow("no playable audio representation");
+  });
+});
+
+describe("findSegmentIndex", () => {
+  const segments = parseDashManifest(timelineOpenRepeat).representations[0].segments;
+
+  it("finds the segment containing a seek target", () => {
+    expect(findSegmentIndex(segments, 0)).toBe(0);
+    expect(findSegmentIndex(segments, 3.5)).toBe(1);
+    expect(findSegmentIndex(segments, 8)).toBe(4);
+    expect(findSegmentIndex(segments, 10.999)).toBe(4);
+    expect(findSegmentIndex(segments, 11)).toBe(5);
+  });
+
+  it("clamps targets outside the presentation", () => {
+    expect(findSegmentIndex(segments, -1)).toBe(0);
+    expect(findSegmentIndex(segments, 60)).toBe(segments.length - 1);
+    expect(findSegmentIndex([], 5)).toBe(0);
+  });
+
+  it("agrees with a linear scan across the whole track", () => {
+    const tidal = parseDashManifest(timeline).representations[0].segments;
+    for (let time = 0; time < 19; time += 0.25) {
+      const expected = tidal.filter((segment) => segment.start <= time).length - 1;
+      expect(findSegmentIndex(tidal, time)).toBe(expected);
+    }
+  });
+});
@@ -0,0 +1,322 @@
+/**
+ * MPEG-DASH manifest parsing for TIDAL hi-res streams.
+ *
+ * Only the subset TIDAL actually emits is supported: a single static
+ * period with SegmentTemplate addressing, either via a SegmentTimeline
+ * or a fixed segment duration. Segment URLs are expanded up front so
+ * the MSE loader can map any playback time to a segment index.
+ */
+
+export interface DashSegment {
+  url: string;
+  /** Presentation start time in seconds. */
+  start: number;
+  /** Segment duration in seconds. */
+  duration: number;
+}
+
+export interface DashRepresentation {
+  id: string;
+  mimeType: string;
+  codecs: string;
+  bandwidth: number;
+  sampleRate?: number;
+  initializationUrl: string;
+  segments: DashSegment[];
+}
+
+export interface DashManifest {
+  /** Total presentation duration in seconds (0 if unknown). */
+  duration: number;
+  representations: DashRepresentation[];
+}
+
+// -- Manifest registry --
+
+// Stream URLs are passed around as strings, so a DASH manifest is handed out
+// as a blob: URL and remembered here. The player looks it up to decide
+// whether the URL needs the MSE loader instead of a plain `audio.src`.
+const manifestRegistry = new Map<string, string>();
+const MAX_REGISTERED_MANIFESTS = 50;
+
+export function createDashManifestUrl(xml: string): string {
+  const url = URL.createObjectURL(
+    new Blob([xml], { type: "application/dash+xml" })
+  );
+  manifestRegistry.set(url, xml);
+
+  if (manifestRegistry.size > MAX_REGISTERED_MANIFESTS) {
+    const oldest = manifestRegistry.keys().next().value;
+    if (oldest !== undefined) {
+      manifestRegistry.delete(oldest);
+      URL.revokeObjectURL(oldest);
+    }
+  }
+
+  return url;
+}
+
+export function getDashManifestXml(url: string): string | undefined {
+  return manifestRegistry.get(url);
+}
+
+// -- Parsing --
+
+/**
+ * Parse an ISO 8601 duration (e.g. "PT3M25.5S") into seconds.
+ */
+export function parseIsoDuration(value: string | null | undefined): number {
+  if (!value) return 0;
+
+  const match = value.match(
+    /^P(?:(\d+(?:\.\d+)?)Y)?(?:(\d+(?:\.\d+)?)M)?(?:(\d+(?:\.\d+)?)D)?(?:T(?:(\d+(?:\.\d+)?)H)?(?:(\d+(?:\.\d+)?)M)?(?:(\d+(?:\.\d+)?)S)?)?$/
+  );
+  if (!match) return 0;
+
+  const [, years, months, days, hours, minutes, seconds] = match.map((part) =>
+    part ? parseFloat(part) : 0
+  );
+
+  return (
+    years * 365 * 86400 +
+    months * 30 * 86400 +
+    days * 86400 +
+    hours * 3600 +
+    minutes * 60 +
+    seconds
+  );
+}
+
+/**
+ * Expand $Number$, $Time$, $RepresentationID$ and $Bandwidth$ identifiers,
+ * including printf-style width tags such as $Number%05d$.
+ */
+function expandTemplate(
+  template: string,
+  values: { RepresentationID: string; Bandwidth: number; Number?: number; Time?: number }
+): string {
+  return template.replace(
+    /\$(RepresentationID|Bandwidth|Number|Time)(?:%0(\d+)d)?\$|\$\$/g,
+    (token, name: keyof typeof values | undefined, width: string | undefined) => {
+      if (token === "$$") return "$";
+      const value = name ? values[name] : undefined;
+      if (value === undefined) return token;
+      const text = String(value);
+      return width ? text.padStart(parseInt(width, 10), "0") : text;
+    }
+  );
+}
+
+function resolveUrl(url: string, base: string | undefined): string {
+  if (!base) return url;
+  try {
+    return new URL(url, base).toString();
+  } catch {
+    return url;
+  }
+}
+
+function childElements(parent: Element, name: string): Element[] {
+  return Array.from(parent.children).filter((el) => el.localName === name);
+}
+
+function firstChild(parent: Element, name: string): Element | undefined {
+  return childElements(parent, name)[0];
+}
+
+/**
+ * Resolve the effective BaseURL for an element by walking its ancestors.
+ */
+function resolveBaseUrl(elements: Element[]): string | undefined {
+  let base: string | undefined;
+  for (const el of elements) {
+    const baseEl = firstChild(el, "BaseURL");
+    const text = baseEl?.textContent?.trim();
+    if (text) base = resolveUrl(text, base);
+  }
+  return base;
+}
+
+/**
+ * Attributes on SegmentTemplate cascade from AdaptationSet to Representation.
+ */
+function templateAttr(
+  templates: (Element | undefined)[],
+  name: string
+): string | null {
+  for (let i = templates.length - 1; i >= 0; i--) {
+    const value = templates[i]?.getAttribute(name);
+    if (value != null) return value;
+  }
+  return null;
+}
+
+function buildSegments(
+  templates: (Element | undefined)[],
+  representation: { id: string; bandwidth: number },
+  baseUrl: string | undefined,
+  periodDuration: number
+): DashSegment[] {
+  const media = templateAttr(templates, "media");
+  if (!media) return [];
+
+  const timescale = parseInt(templateAttr(templates, "timescale") ?? "1", 10) || 1;
+  const startNumber = parseInt(templateAttr(templates, "startNumber") ?? "1", 10);
+  const presentationTimeOffset = parseInt(
+    templateAttr(templates, "presentationTimeOffset") ?? "0",
+    10
+  );
+
+  const timeline = templates
+    .map((template) => (template ? firstChild(template, "SegmentTimeline") : undefined))
+    .filter((el): el is Element => Boolean(el))
+    .pop();
+
+  const segments: DashSegment[] = [];
+  const push = (time: number, duration: number, number: number) => {
+    segments.push({
+      url: resolveUrl(
+        expandTemplate(media, {
+          RepresentationID: representation.id,
+          Bandwidth: representation.bandwidth,
+          Number: number,
+          Time: time,
+        }),
+        baseUrl
+      ),
+      start: (time - presentationTimeOffset) / timescale,
+      duration: duration / timescale,
+    });
+  };
+
+  if (timeline) {
+    const entries = childElements(timeline, "S");
+    let time = 0;
+    let number = startNumber;
+
+    entries.forEach((entry, index) => {
+      const t = entry.getAttribute("t");
+      if (t != null) time = parseInt(t, 10);
+
+      const d = parseInt(entry.getAttribute("d") ?? "0", 10);
+      if (d <= 0) return;
+
+      let repeat = parseInt(entry.getAttribute("r") ?? "0", 10);
+      if (repeat < 0) {
+        // r="-1" repeats until the next S@t or the end of the period
+        const nextT = entries[index + 1]?.getAttribute("t");
+        const end =
+          nextT != null
+            ? parseInt(nextT, 10)
+            : presentationTimeOffset + periodDuration * timescale;
+        repeat = Math.max(0, Math.ceil((end - time) / d) - 1);
+      }
+
+      for (let i = 0; i <= repeat; i++) {
+        push(time, d, number);
+        time += d;
+        number++;
+      }
+    });
+
+    return segments;
+  }
+
+  const duration = parseInt(templateAttr(templates, "duration") ?? "0", 10);
+  if (duration > 0 && periodDuration > 0) {
+    const count = Math.ceil((periodDuration * timescale) / duration);
+    for (let i = 0; i < count; i++) {
+      push(presentationTimeOffset + i * duration, duration, startNumber + i);
+    }
+  }
+
+  return segments;
+}
+
+export function parseDashManifest(xml: string): DashManifest {
+  const doc = new DOMParser().parseFromString(xml, "application/xml");
+  const mpd = doc.documentElement;
+
+  if (!mpd || mpd.localName !== "MPD" || doc.getElementsByTagName("parsererror").length > 0) {
+    throw new Error("Invalid DASH manifest");
+  }
+
+  const period = firstChild(mpd, "Period");
+  if (!period) throw new Error("DASH manifest has no Period");
+
+  const duration =
+    parseIsoDuration(period.getAttribute("duration")) ||
+    parseIsoDuration(mpd.getAttribute("mediaPresentationDuration"));
+
+  const representations: DashRepresentation[] = [];
+
+  for (const adaptationSet of childElements(period, "AdaptationSet")) {
+    const setMimeType = adaptationSet.getAttribute("mimeType") ?? "";
+    const contentType = adaptationSet.getAttribute("contentType");
+    if (contentType && contentType !== "audio") continue;
+
+    const setTemplate = firstChild(adaptationSet, "SegmentTemplate");
+
+    for (const rep of childElements(adaptationSet, "Representation")) {
+      const id = rep.getAttribute("id") ?? String(representations.length);
+      const bandwidth = parseInt(rep.getAttribute("bandwidth") ?? "0", 10);
+      const mimeType = rep.getAttribute("mimeType") ?? setMimeType;
+      const codecs =
+        rep.getAttribute("codecs") ?? adaptationSet.getAttribute("codecs") ?? "";
+      const sampleRateAttr =
+        rep.getAttribute("audioSamplingRate") ??
+        adaptationSet.getAttribute("audioSamplingRate");
+
+      if (mimeType && !mimeType.startsWith("audio/")) continue;
+
+      const templates = [setTemplate, firstChild(rep, "SegmentTemplate")];
+      const baseUrl = resolveBaseUrl([mpd, period, adaptationSet, rep]);
+      const initialization = templateAttr(templates, "initialization");
+      const segments = buildSegments(templates, { id, bandwidth }, baseUrl, duration);
+
+      if (!initialization || segments.length === 0) continue;
+
+      representations.push({
+        id,
+        mimeType: mimeType || "audio/mp4",
+        codecs,
+        bandwidth,
+        sampleRate: sampleRateAttr ? parseInt(sampleRateAttr, 10) : undefined,
+        initializationUrl: resolveUrl(
+          expandTemplate(initialization, { RepresentationID: id, Bandwidth: bandwidth }),
+          baseUrl
+        ),
+        segments,
+      });
+    }
+  }
+
+  if (representations.length === 0) {
+    throw new Error("DASH manifest has no playable audio representation");
+  }
+
+  const last = representations[0].segments.at(-1);
+  return {
+    duration: duration || (last ? last.start + last.duration : 0),
+    representations,
+  };
+}
+
+/**
+ * Index of the segment that contains `time`, clamped to the valid range.
+ */
+export function findSegmentIndex(segments: DashSegment[], time: number): number {
+  let low = 0;
+  let high = segments.length - 1;
+
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (segments[mid].start <= time) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+
+  return Math.max(0, low);
+}
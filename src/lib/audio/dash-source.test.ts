@@ -0,0 +1,45 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { selectRepresentation } from "./dash-source";
+import type { DashManifest, DashRepresentation } from "./dash-manifest";
+
+function representation(id: string, codecs: string, bandwidth: number): DashRepresentation {
+  return {
+    id,
+    mimeType: "audio/mp4",
+    codecs,
+    bandwidth,
+    initializationUrl: `${id}/init.mp4`,
+    segments: [{ url: `${id}/1.m4s`, start: 0, duration: 4 }],
+  };
+}
+
+const manifest: DashManifest = {
+  duration: 4,
+  representations: [
+    representation("aac", "mp4a.40.2", 320000),
+    representation("flac-hires", "flac", 4500000),
+    representation("flac", "flac", 1000000),
+  ],
+};
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("selectRepresentation", () => {
+  it("picks the highest bandwidth the browser can decode", () => {
+    vi.stubGlobal("MediaSource", { isTypeSupported: () => true });
+    expect(selectRepresentation(manifest)?.id).toBe("flac-hires");
+  });
+
+  it("skips codecs the browser can't decode", () => {
+    const isTypeSupported = vi.fn((type: string) => !type.includes("flac"));
+    vi.stubGlobal("MediaSource", { isTypeSupported });
+    expect(selectRepresentation(manifest)?.id).toBe("aac");
+    expect(isTypeSupported).toHaveBeenCalledWith('audio/mp4; codecs="mp4a.40.2"');
+  });
+
+  it("returns null without Media Source Extensions", () => {
+    expect(selectRepresentation(manifest)).toBeNull();
+  });
+});
@@ -0,0 +1,273 @@
+/**
+ * DashSource -- Media Source Extensions loader for DASH audio.
+ *
+ * Attaches a MediaSource to an HTMLAudioElement, appends the
+ * initialization segment and then keeps a rolling window of media
+ * segments buffered ahead of the playhead. Seeking outside the
+ * buffered range restarts loading from the segment containing the
+ * new position.
+ */
+
+import {
+  findSegmentIndex,
+  type DashManifest,
+  type DashRepresentation,
+} from "./dash-manifest";
+
+const BUFFER_AHEAD_SECONDS = 30;
+const BUFFER_BEHIND_SECONDS = 60;
+const SEGMENT_RETRIES = 2;
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function mimeCodec(rep: DashRepresentation): string {
+  return rep.codecs ? `${rep.mimeType}; codecs="${rep.codecs}"` : rep.mimeType;
+}
+
+/**
+ * Pick the highest-bandwidth representation the browser can decode.
+ */
+export function selectRepresentation(
+  manifest: DashManifest
+): DashRepresentation | null {
+  if (typeof MediaSource === "undefined") return null;
+
+  const supported = manifest.representations
+    .filter((rep) => MediaSource.isTypeSupported(mimeCodec(rep)))
+    .sort((a, b) => b.bandwidth - a.bandwidth);
+
+  return supported[0] ?? null;
+}
+
+export class DashSource {
+  private audio: HTMLAudioElement;
+  private manifest: DashManifest;
+  private representation: DashRepresentation;
+  private mediaSource = new MediaSource();
+  private sourceBuffer: SourceBuffer | null = null;
+  private objectUrl: string | null = null;
+  private nextSegment = 0;
+  private fetchController: AbortController | null = null;
+  private pumping = false;
+  private destroyed = false;
+
+  constructor(audio: HTMLAudioElement, manifest: DashManifest) {
+    const representation = selectRepresentation(manifest);
+    if (!representation) {
+      throw new Error("No supported codec in DASH manifest");
+    }
+
+    this.audio = audio;
+    this.manifest = manifest;
+    this.representation = representation;
+  }
+
+  // -- Public API --
+
+  /**
+   * Point the audio element at the MediaSource and append the
+   * initialization segment. Resolves once media segments start loading.
+   */
+  async attach(): Promise<void> {
+    this.objectUrl = URL.createObjectURL(this.mediaSource);
+    this.audio.src = this.objectUrl;
+
+    await new Promise<void>((resolve) => {
+      this.mediaSource.addEventListener("sourceopen", () => resolve(), {
+        once: true,
+      });
+    });
+    if (this.destroyed) return;
+
+    this.sourceBuffer = this.mediaSource.addSourceBuffer(
+      mimeCodec(this.representation)
+    );
+    if (this.manifest.duration > 0) {
+      this.mediaSource.duration = this.manifest.duration;
+    }
+
+    const init = await this.fetchSegment(this.representation.initializationUrl);
+    if (this.destroyed || !init) return;
+    await this.append(init);
+
+    this.audio.addEventListener("timeupdate", this.onTimeUpdate);
+    this.audio.addEventListener("seeking", this.onSeeking);
+    void this.pump();
+  }
+
+  destroy(): void {
+    if (this.destroyed) return;
+    this.destroyed = true;
+
+    this.fetchController?.abort();
+    this.audio.removeEventListener("timeupdate", this.onTimeUpdate);
+    this.audio.removeEventListener("seeking", this.onSeeking);
+
+    if (this.objectUrl) {
+      URL.revokeObjectURL(this.objectUrl);
+      this.objectUrl = null;
+    }
+  }
+
+  // -- Event handlers --
+
+  private onTimeUpdate = () => {
+    void this.pump();
+  };
+
+  private onSeeking = () => {
+    const time = this.audio.currentTime;
+    if (this.isBuffered(time)) return;
+
+    // Jump the loader to the segment that contains the seek target
+    this.fetchController?.abort();
+    this.nextSegment = findSegmentIndex(this.representation.segments, time);
+    void this.pump();
+  };
+
+  // -- Loading --
+
+  private async pump(): Promise<void> {
+    if (this.pumping || this.destroyed || !this.sourceBuffer) return;
+    this.pumping = true;
+
+    try {
+      const segments = this.representation.segments;
+
+      while (!this.destroyed && this.nextSegment < segments.length) {
+        if (this.bufferedAhead() >= BUFFER_AHEAD_SECONDS) break;
+
+        const index = this.nextSegment;
+        const data = await this.fetchSegment(segments[index].url);
+        if (this.destroyed) return;
+
+        // A seek moved the loader while this segment was in flight
+        if (!data || index !== this.nextSegment) continue;
+
+        await this.append(data);
+        if (index === this.nextSegment) this.nextSegment = index + 1;
+      }
+
+      if (
+        !this.destroyed &&
+        this.nextSegment >= segments.length &&
+        this.mediaSource.readyState === "open" &&
+        !this.sourceBuffer.updating
+      ) {
+        this.mediaSource.endOfStream();
+      }
+    } catch (error) {
+      if (!this.destroyed) {
+        console.error("[DASH] Segment loading failed:", error);
+        if (this.mediaSource.readyState === "open") {
+          this.mediaSource.endOfStream("network");
+        }
+      }
+    } finally {
+      this.pumping = false;
+    }
+  }
+
+  private async fetchSegment(url: string): Promise<ArrayBuffer | null> {
+    let lastError: unknown = null;
+
+    for (let attempt = 0; attempt <= SEGMENT_RETRIES; attempt++) {
+      const controller = new AbortController();
+      this.fetchController = controller;
+
+      try {
+        const response = await fetch(url, { signal: controller.signal });
+        if (!response.ok) {
+          throw new Error(`Segment request failed with status ${response.status}`);
+        }
+        return await response.arrayBuffer();
+      } catch (error) {
+        if (error instanceof Error && error.name === "AbortError") return null;
+        lastError = error;
+        await delay(300 * (attempt + 1));
+      } finally {
+        if (this.fetchController === controller) this.fetchController = null;
+      }
+    }
+
+    throw lastError ?? new Error("Segment request failed");
+  }
+
+  private async append(data: ArrayBuffer): Promise<void> {
+    const buffer = this.sourceBuffer;
+    if (!buffer) return;
+
+    try {
+      await this.appendOnce(buffer, data);
+    } catch (error) {
+      if (error instanceof DOMException && error.name === "QuotaExceededError") {
+        // Buffer is full -- drop what we've already played and retry once
+        await this.evictBehind(buffer);
+        await this.appendOnce(buffer, data);
+        return;
+      }
+      throw error;
+    }
+  }
+
+  private appendOnce(buffer: SourceBuffer, data: ArrayBuffer): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const onUpdateEnd = () => {
+        cleanup();
+        resolve();
+      };
+      const onError = () => {
+        cleanup();
+        reject(new Error("SourceBuffer append failed"));
+      };
+      const cleanup = () => {
+        buffer.removeEventListener("updateend", onUpdateEnd);
+        buffer.removeEventListener("error", onError);
+      };
+      buffer.addEventListener("updateend", onUpdateEnd);
+      buffer.addEventListener("error", onError);
+
+      try {
+        buffer.appendBuffer(data);
+      } catch (error) {
+        cleanup();
+        reject(error);
+      }
+    });
+  }
+
+  private evictBehind(buffer: SourceBuffer): Promise<void> {
+    const end = this.audio.currentTime - BUFFER_BEHIND_SECONDS / 2;
+    if (end <= 0 || buffer.buffered.length === 0) return Promise.resolve();
+
+    return new Promise((resolve) => {
+      buffer.addEventListener("updateend", () => resolve(), { once: true });
+      buffer.remove(0, end);
+    });
+  }
+
+  // -- Buffer inspection --
+
+  private isBuffered(time: number): boolean {
+    const ranges = this.sourceBuffer?.buffered;
+    if (!ranges) return false;
+    for (let i = 0; i < ranges.length; i++) {
+      if (time >= ranges.start(i) && time < ranges.end(i)) return true;
+    }
+    return false;
+  }
+
+  private bufferedAhead(): number {
+    const ranges = this.sourceBuffer?.buffered;
+    const time = this.audio.currentTime;
+    if (!ranges) return 0;
+    for (let i = 0; i < ranges.length; i++) {
+      if (time >= ranges.start(i) - 0.1 && time < ranges.end(i)) {
+        return ranges.end(i) - time;
+      }
+    }
+    return 0;
+  }
+}
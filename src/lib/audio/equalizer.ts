@@ -0,0 +1,125 @@
+/**
+ * Equalizer -- 10-band parametric EQ with a preamp, as a Web Audio chain.
+ *
+ * The first and last bands are shelves, everything in between is a
+ * peaking filter. Each band's frequency, gain and Q can be changed;
+ * updates are applied to the live nodes without rebuilding the chain.
+ */
+
+export interface EqBand {
+  type: BiquadFilterType;
+  frequency: number;
+  /** Boost/cut in dB. */
+  gain: number;
+  q: number;
+}
+
+export interface EqSettings {
+  enabled: boolean;
+  /** Gain in dB applied before the bands. */
+  preamp: number;
+  bands: EqBand[];
+}
+
+export interface EqPreset {
+  id: string;
+  name: string;
+  preamp: number;
+  bands: EqBand[];
+}
+
+export const EQ_GAIN_RANGE = 12;
+export const EQ_MIN_FREQUENCY = 20;
+export const EQ_MAX_FREQUENCY = 20000;
+export const EQ_MIN_Q = 0.1;
+export const EQ_MAX_Q = 10;
+
+const DEFAULT_FREQUENCIES = [32, 64, 125, 250, 500, 1000, 2000, 4000, 8000, 16000];
+const DEFAULT_Q = 1.41;
+
+export function createDefaultBands(): EqBand[] {
+  return DEFAULT_FREQUENCIES.map((frequency, index) => ({
+    type:
+      index === 0
+        ? "lowshelf"
+        : index === DEFAULT_FREQUENCIES.length - 1
+          ? "highshelf"
+          : "peaking",
+    frequency,
+    gain: 0,
+    q: DEFAULT_Q,
+  }));
+}
+
+export const DEFAULT_EQ_SETTINGS: EqSettings = {
+  enabled: false,
+  preamp: 0,
+  bands: createDefaultBands(),
+};
+
+function builtInPreset(
+  id: string,
+  name: string,
+  preamp: number,
+  gains: number[]
+): EqPreset {
+  const bands = createDefaultBands().map((band, i) => ({ ...band, gain: gains[i] ?? 0 }));
+  return { id, name, preamp, bands };
+}
+
+export const BUILT_IN_PRESETS: EqPreset[] = [
+  builtInPreset("flat", "Flat", 0, [0, 0, 0, 0, 0, 0, 0, 0, 0, 0]),
+  builtInPreset("bass-boost", "Bass Boost", -5, [6, 5, 4, 2, 0, 0, 0, 0, 0, 0]),
+  builtInPreset("treble-boost", "Treble Boost", -5, [0, 0, 0, 0, 0, 1, 2, 4, 5, 6]),
+  builtInPreset("vocal", "Vocal", -3, [-2, -2, -1, 1, 3, 3, 2, 1, 0, -1]),
+  builtInPreset("loudness", "Loudness", -5, [5, 4, 1, 0, -1, 0, 0, 1, 3, 4]),
+  builtInPreset("acoustic", "Acoustic", -3, [3, 3, 2, 1, 1, 1, 2, 2, 2, 1]),
+  builtInPreset("electronic", "Electronic", -4, [4, 4, 1, 0, -2, 1, 0, 1, 4, 4]),
+];
+
+export function formatFrequency(frequency: number): string {
+  return frequency >= 1000
+    ? `${Math.round(frequency / 100) / 10}k`
+    : String(Math.round(frequency));
+}
+
+function dbToGain(db: number): number {
+  return 10 ** (db / 20);
+}
+
+export class Equalizer {
+  /** Connect sources here. */
+  readonly input: GainNode;
+  /** Connect this to the next stage. */
+  readonly output: GainNode;
+  private filters: BiquadFilterNode[];
+
+  constructor(context: BaseAudioContext) {
+    this.input = context.createGain();
+    this.output = context.createGain();
+    this.filters = createDefaultBands().map(() => context.createBiquadFilter());
+
+    let previous: AudioNode = this.input;
+    for (const filter of this.filters) {
+      previous.connect(filter);
+      previous = filter;
+    }
+    previous.connect(this.output);
+  }
+
+  // -- Public API --
+
+  apply(settings: EqSettings): void {
+    // Disabled = unity preamp and flat filters, so the chain stays intact
+    this.input.gain.value = settings.enabled ? dbToGain(settings.preamp) : 1;
+
+    this.filters.forEach((filter, index) => {
+      const band = settings.bands[index];
+      if (!band) return;
+      filter.type = band.type;
+      filter.frequency.value = band.frequency;
+      filter.Q.value = band.q;
+      filter.gain.value = settings.enabled ? band.gain : 0;
+    });
+  }
+}
@@ -0,0 +1,123 @@
+/**
+ * LoudnessMeter -- integrated loudness estimate for a playing element.
+ *
+ * Follows ITU-R BS.1770 closely enough for normalization: the signal is
+ * K-weighted with two biquads, cut into consecutive blocks read from an
+ * AnalyserNode while the element plays, and the block energies are
+ * gated (absolute at -70 LUFS, then relative at -10 LU) before being
+ * averaged. Sample peak is tracked on the unweighted signal.
+ */
+
+export interface LoudnessEstimate {
+  /** Integrated loudness in LUFS. */
+  integrated: number;
+  /** Sample peak as a linear amplitude (1 = full scale). */
+  peak: number;
+}
+
+const BLOCK_SIZE = 16384;
+const MIN_MEASURED_SECONDS = 15;
+const ABSOLUTE_GATE_LUFS = -70;
+const RELATIVE_GATE_LU = 10;
+// Analysers downmix to mono, which reads ~3 dB low for typical
+// (mostly correlated) stereo compared to BS.1770's channel sum
+const STEREO_CORRECTION_DB = 3.01;
+
+function blockLoudness(meanSquare: number): number {
+  return -0.691 + 10 * Math.log10(meanSquare) + STEREO_CORRECTION_DB;
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+export class LoudnessMeter {
+  private audio: HTMLAudioElement;
+  private weighted: AnalyserNode;
+  private raw: AnalyserNode;
+  private buffer = new Float32Array(BLOCK_SIZE);
+  private blockSeconds: number;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private blocks: number[] = [];
+  private peak = 0;
+
+  constructor(context: AudioContext, source: AudioNode, audio: HTMLAudioElement) {
+    // K-weighting: high-shelf "head" filter followed by the RLB high-pass
+    const shelf = context.createBiquadFilter();
+    shelf.type = "highshelf";
+    shelf.frequency.value = 1681.97;
+    shelf.gain.value = 4;
+
+    const highpass = context.createBiquadFilter();
+    highpass.type = "highpass";
+    highpass.frequency.value = 38.13;
+    highpass.Q.value = 0.5;
+
+    this.weighted = context.createAnalyser();
+    this.weighted.fftSize = BLOCK_SIZE;
+    this.raw = context.createAnalyser();
+    this.raw.fftSize = BLOCK_SIZE;
+
+    source.connect(shelf);
+    shelf.connect(highpass);
+    highpass.connect(this.weighted);
+    source.connect(this.raw);
+
+    this.audio = audio;
+    this.blockSeconds = BLOCK_SIZE / context.sampleRate;
+
+    audio.addEventListener("play", this.start);
+    audio.addEventListener("pause", this.stop);
+    audio.addEventListener("ended", this.stop);
+  }
+
+  // -- Public API --
+
+  /**
+   * Estimate for everything heard since the last call, or null if too
+   * little was played to be meaningful. Starts a fresh measurement.
+   */
+  finish(): LoudnessEstimate | null {
+    const { blocks, peak } = this;
+    this.blocks = [];
+    this.peak = 0;
+
+    if (blocks.length * this.blockSeconds < MIN_MEASURED_SECONDS) return null;
+
+    const audible = blocks.filter((ms) => blockLoudness(ms) > ABSOLUTE_GATE_LUFS);
+    if (audible.length === 0) return null;
+
+    const threshold = blockLoudness(mean(audible)) - RELATIVE_GATE_LU;
+    const gated = audible.filter((ms) => blockLoudness(ms) > threshold);
+    return { integrated: blockLoudness(mean(gated)), peak };
+  }
+
+  // -- Sampling --
+
+  private start = () => {
+    if (this.timer) return;
+    this.timer = setInterval(this.sample, this.blockSeconds * 1000);
+  };
+
+  private stop = () => {
+    if (!this.timer) return;
+    clearInterval(this.timer);
+    this.timer = null;
+  };
+
+  private sample = () => {
+    if (this.audio.paused) return;
+
+    this.weighted.getFloatTimeDomainData(this.buffer);
+    let sum = 0;
+    for (const value of this.buffer) sum += value * value;
+    const meanSquare = sum / this.buffer.length;
+    if (meanSquare > 0) this.blocks.push(meanSquare);
+
+    this.raw.getFloatTimeDomainData(this.buffer);
+    for (const value of this.buffer) {
+      const amplitude = Math.abs(value);
+      if (amplitude > this.peak) this.peak = amplitude;
+    }
+  };
+}
@@ -0,0 +1,148 @@
+/**
+ * Loudness normalization -- gain calculation and the per-track
+ * loudness cache.
+ *
+ * ReplayGain values from the stream info are preferred. Tracks without
+ * them fall back to an estimate measured during their first play,
+ * which is kept in IndexedDB by track ID.
+ */
+
+import type { ReplayGainInfo } from "@/types/music";
+import type { LoudnessEstimate } from "./loudness-meter";
+
+export type NormalizationMode = "off" | "track" | "album";
+
+export const NORMALIZATION_MODES: NormalizationMode[] = ["off", "track", "album"];
+
+export const NORMALIZATION_LABELS: Record<
+  NormalizationMode,
+  { label: string; description: string }
+> = {
+  off: { label: "Off", description: "Play tracks as mastered" },
+  track: { label: "Track", description: "Even out every track" },
+  album: { label: "Album", description: "Keep loudness differences within an album" },
+};
+
+// ReplayGain 2.0 reference level
+const REFERENCE_LOUDNESS_LUFS = -18;
+const MAX_GAIN_DB = 15;
+
+export function isNormalizationMode(value: unknown): value is NormalizationMode {
+  return NORMALIZATION_MODES.includes(value as NormalizationMode);
+}
+
+/**
+ * Linear gain for a track. The result never lifts the track's peak
+ * above full scale; the engine's limiter catches anything the peak
+ * data misses.
+ */
+export function normalizationGain(
+  mode: NormalizationMode,
+  replayGain?: ReplayGainInfo,
+  estimate?: LoudnessEstimate | null
+): number {
+  if (mode === "off") return 1;
+
+  let gainDb: number;
+  let peak: number | undefined;
+
+  if (mode === "album" && replayGain?.albumGain !== undefined) {
+    gainDb = replayGain.albumGain;
+    peak = replayGain.albumPeak ?? replayGain.trackPeak;
+  } else if (replayGain?.trackGain !== undefined) {
+    gainDb = replayGain.trackGain;
+    peak = replayGain.trackPeak;
+  } else if (estimate) {
+    // No album-level estimate exists, so album mode uses the track's
+    gainDb = REFERENCE_LOUDNESS_LUFS - estimate.integrated;
+    peak = estimate.peak;
+  } else {
+    return 1;
+  }
+
+  const clampedDb = Math.max(-MAX_GAIN_DB, Math.min(MAX_GAIN_DB, gainDb));
+  const gain = 10 ** (clampedDb / 20);
+  return peak && peak > 0 ? Math.min(gain, 1 / peak) : gain;
+}
+
+// -- Measured loudness cache --
+
+const DB_NAME = "moonsway-loudness";
+const DB_VERSION = 1;
+const STORE_NAME = "tracks";
+
+interface LoudnessEntry extends LoudnessEstimate {
+  trackId: string;
+  timestamp: number;
+}
+
+class LoudnessCache {
+  private memory = new Map<string, LoudnessEstimate>();
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  // -- Public API --
+
+  async get(trackId: string): Promise<LoudnessEstimate | null> {
+    const cached = this.memory.get(trackId);
+    if (cached) return cached;
+
+    try {
+      const db = await this.openDB();
+      const entry = await new Promise<LoudnessEntry | undefined>((resolve, reject) => {
+        const tx = db.transaction(STORE_NAME, "readonly");
+        const request = tx.objectStore(STORE_NAME).get(trackId);
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+      if (!entry) return null;
+
+      const estimate = { integrated: entry.integrated, peak: entry.peak };
+      this.memory.set(trackId, estimate);
+      return estimate;
+    } catch {
+      return null;
+    }
+  }
+
+  async set(trackId: string, estimate: LoudnessEstimate): Promise<void> {
+    this.memory.set(trackId, estimate);
+
+    try {
+      const db = await this.openDB();
+      const entry: LoudnessEntry = { trackId, ...estimate, timestamp: Date.now() };
+      await new Promise<void>((resolve, reject) => {
+        const tx = db.transaction(STORE_NAME, "readwrite");
+        tx.objectStore(STORE_NAME).put(entry);
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+      });
+    } catch (error) {
+      console.warn("[Moonsway] Failed to store loudness estimate:", error);
+    }
+  }
+
+  // -- Private helpers --
+
+  private openDB(): Promise<IDBDatabase> {
+    if (this.dbPromise) return this.dbPromise;
+
+    this.dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE_NAME)) {
+          db.createObjectStore(STORE_NAME, { keyPath: "trackId" });
+        }
+      };
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+
+    return this.dbPromise;
+  }
+}
+
+/** Singleton loudness cache for the entire app. */
+export const loudnessCache = new LoudnessCache();
@@ -0,0 +1,632 @@
+/**
+ * PlaybackEngine -- two audio "decks" for gapless playback.
+ *
+ * The active deck plays the current track while the standby deck
+ * resolves and buffers the next one. When the active deck reaches its
+ * end the standby deck is started at a time scheduled on the
+ * AudioContext clock and the decks swap roles, so there is no
+ * load/canplay gap between consecutive tracks.
+ *
+ * With a crossfade duration set, the standby deck instead starts that
+ * many seconds early and the two decks overlap using equal-power gain
+ * curves. The caller opts each transition in or out when preloading.
+ *
+ * Each deck is routed through Web Audio when available: a normalization
+ * gain, a level gain (volume x fade), then a shared equalizer and
+ * limiter, with a loudness meter tapped before any gain is applied.
+ * Routing needs CORS for cross-origin streams; if a host doesn't send
+ * CORS headers, the deck falls back to a plain element that plays
+ * outside the graph (no equalizer, no loudness measurement).
+ *
+ * Media events from the active deck are re-dispatched on the engine,
+ * which lets the player store listen to a single EventTarget no matter
+ * which element is currently audible. An `advance` event is dispatched
+ * when the engine switches to the preloaded track on its own.
+ */
+
+import { getDashManifestXml, parseDashManifest } from "./dash-manifest";
+import { DashSource } from "./dash-source";
+import { DEFAULT_EQ_SETTINGS, Equalizer, type EqSettings } from "./equalizer";
+import { LoudnessMeter, type LoudnessEstimate } from "./loudness-meter";
+
+const FORWARDED_EVENTS = [
+  "timeupdate",
+  "loadedmetadata",
+  "durationchange",
+  "ended",
+  "play",
+  "pause",
+] as const;
+
+// Start the standby deck once this close to the end of the active one
+const SCHEDULE_WINDOW_SECONDS = 0.6;
+
+export const MAX_CROSSFADE_SECONDS = 12;
+const FADE_STEP_MS = 50;
+
+interface DeckOutput {
+  normalization: GainNode;
+  level: GainNode;
+  meter: LoudnessMeter;
+}
+
+interface Deck {
+  /** The element in use: `routedAudio`, or `plainAudio` after a CORS failure. */
+  audio: HTMLAudioElement;
+  /** Routed through Web Audio, so it loads with CORS. */
+  routedAudio: HTMLAudioElement;
+  /** Loads without CORS and plays outside the graph; created when needed. */
+  plainAudio: HTMLAudioElement | null;
+  output: DeckOutput | null;
+  dash: DashSource | null;
+  /** Caller-defined identity of what's loaded (e.g. queue index + track ID). */
+  key: string | null;
+  ready: Promise<void> | null;
+  isReady: boolean;
+  /** Whether the transition into this deck may crossfade. */
+  crossfade: boolean;
+  /** Per-deck fade level (0-1), multiplied with the master volume. */
+  gain: number;
+  /** Linear loudness normalization gain for the loaded track. */
+  normalization: number;
+  /** Receives the measured loudness once the track is unloaded or ends. */
+  onLoudness: ((estimate: LoudnessEstimate) => void) | null;
+}
+
+export interface DeckOptions {
+  /** Whether the transition into this deck may crossfade (preload only). */
+  crossfade?: boolean;
+  /** Linear normalization gain; defaults to 1. */
+  gain?: number;
+  /** Measure the track's loudness while it plays and report it here. */
+  onLoudness?: (estimate: LoudnessEstimate) => void;
+}
+
+function createDeck(): Deck {
+  const audio = new Audio();
+  audio.preload = "auto";
+  // Required for Web Audio to see the samples of cross-origin streams
+  audio.crossOrigin = "anonymous";
+  return {
+    audio,
+    routedAudio: audio,
+    plainAudio: null,
+    output: null,
+    dash: null,
+    key: null,
+    ready: null,
+    isReady: false,
+    crossfade: false,
+    gain: 1,
+    normalization: 1,
+    onLoudness: null,
+  };
+}
+
+function reportLoudness(deck: Deck): void {
+  const estimate = deck.output?.meter.finish();
+  const onLoudness = deck.onLoudness;
+  deck.onLoudness = null;
+  if (estimate && onLoudness) onLoudness(estimate);
+}
+
+function resetDeck(deck: Deck): void {
+  reportLoudness(deck);
+  deck.dash?.destroy();
+  deck.dash = null;
+  deck.key = null;
+  deck.ready = null;
+  deck.isReady = false;
+  deck.crossfade = false;
+  deck.gain = 1;
+  deck.normalization = 1;
+  deck.audio.pause();
+  deck.audio.removeAttribute("src");
+  deck.audio.load();
+  // Give the next stream another chance at CORS
+  deck.audio = deck.routedAudio;
+}
+
+/**
+ * Point a deck at a stream URL and wait until it can play. DASH
+ * manifests are played through Media Source Extensions; everything
+ * else is a direct URL.
+ */
+function loadDeck(deck: Deck, url: string): Promise<void> {
+  const { audio } = deck;
+
+  return new Promise<void>((resolve, reject) => {
+    const onCanPlay = () => {
+      cleanup();
+      resolve();
+    };
+    const onError = () => {
+      cleanup();
+      reject(new Error("Audio load error"));
+    };
+    const cleanup = () => {
+      audio.removeEventListener("canplay", onCanPlay);
+      audio.removeEventListener("error", onError);
+    };
+    audio.addEventListener("canplay", onCanPlay, { once: true });
+    audio.addEventListener("error", onError, { once: true });
+
+    const manifestXml = getDashManifestXml(url);
+    if (!manifestXml) {
+      audio.src = url;
+      return;
+    }
+
+    try {
+      const source = new DashSource(audio, parseDashManifest(manifestXml));
+      deck.dash = source;
+      source.attach().catch((error) => {
+        cleanup();
+        reject(error);
+      });
+    } catch (error) {
+      cleanup();
+      reject(error);
+    }
+  });
+}
+
+export class PlaybackEngine extends EventTarget {
+  private decks: [Deck, Deck] = [createDeck(), createDeck()];
+  private activeIndex = 0;
+  /** Cancels the scheduled switch to the standby deck. */
+  private switchTimer: (() => void) | null = null;
+  private volume = 1;
+  private crossfadeSeconds = 0;
+  private context: AudioContext | null = null;
+  private equalizer: Equalizer | null = null;
+  private eqSettings: EqSettings = DEFAULT_EQ_SETTINGS;
+  private outputDeviceId = "default";
+  // Outgoing deck while a crossfade is running
+  private fade: {
+    deck: Deck;
+    timer: ReturnType<typeof setInterval>;
+    done: Promise<void>;
+    resolve: () => void;
+  } | null = null;
+
+  constructor() {
+    super();
+
+    for (const deck of this.decks) this.listen(deck, deck.audio);
+  }
+
+  // -- Public API --
+
+  /** The audible element. Always read it fresh -- it changes on advance. */
+  get audio(): HTMLAudioElement {
+    return this.active.audio;
+  }
+
+  get hasSource(): boolean {
+    return Boolean(this.active.audio.getAttribute("src"));
+  }
+
+  /**
+   * Load a URL into the active deck, replacing whatever was playing.
+   */
+  async load(
+    url: string,
+    key: string | null = null,
+    options: DeckOptions = {}
+  ): Promise<void> {
+    this.ensureGraph();
+    this.cancelSwitch();
+    this.finishFade();
+    const deck = this.active;
+    resetDeck(deck);
+    deck.key = key;
+    deck.normalization = options.gain ?? 1;
+    deck.onLoudness = options.onLoudness ?? null;
+    this.applyVolume(deck);
+    await this.loadWithFallback(deck, url);
+    deck.isReady = true;
+  }
+
+  /**
+   * Buffer a URL on the standby deck so it can start without a gap.
+   * Calling again with the same key is a no-op.
+   */
+  preload(key: string, url: string, options: DeckOptions = {}): Promise<void> {
+    // The standby deck is still fading out -- load once it's free
+    if (this.fade) {
+      return this.fade.done.then(() => this.preload(key, url, options));
+    }
+
+    const deck = this.standby;
+    if (deck.key === key && deck.ready) {
+      deck.crossfade = Boolean(options.crossfade);
+      if (options.gain !== undefined) this.setGain(options.gain, key);
+      return deck.ready;
+    }
+
+    this.ensureGraph();
+    this.cancelSwitch();
+    this.finishFade();
+    resetDeck(deck);
+    deck.key = key;
+    deck.crossfade = Boolean(options.crossfade);
+    deck.normalization = options.gain ?? 1;
+    deck.onLoudness = options.onLoudness ?? null;
+    this.applyVolume(deck);
+
+    const ready = this.loadWithFallback(deck, url).then(
+      () => {
+        if (deck.ready === ready) deck.isReady = true;
+      },
+      (error) => {
+        if (deck.ready === ready) resetDeck(deck);
+        throw error;
+      }
+    );
+    deck.ready = ready;
+    return ready;
+  }
+
+  /** Key of the buffered standby track, if it's ready to play. */
+  get preloadedKey(): string | null {
+    const deck = this.standby;
+    return deck.isReady && this.fade?.deck !== deck ? deck.key : null;
+  }
+
+  clearPreload(): void {
+    this.cancelSwitch();
+    if (this.fade?.deck === this.standby) return;
+    resetDeck(this.standby);
+  }
+
+  /**
+   * Swap to the preloaded deck immediately (e.g. on a manual skip).
+   * Returns false if nothing is buffered under `key`.
+   */
+  promote(key: string): boolean {
+    if (this.preloadedKey !== key) return false;
+    this.swap();
+    return true;
+  }
+
+  setVolume(volume: number): void {
+    this.volume = volume;
+    this.decks.forEach((deck) => this.applyVolume(deck));
+  }
+
+  /**
+   * Normalization gain for the deck holding `key`, or the active deck.
+   * Independent of the master volume.
+   */
+  setGain(gain: number, key?: string): void {
+    const deck = key === undefined
+      ? this.active
+      : this.decks.find((d) => d.key === key);
+    if (!deck) return;
+    deck.normalization = gain;
+    this.applyVolume(deck);
+  }
+
+  setEqualizer(settings: EqSettings): void {
+    this.eqSettings = settings;
+    this.equalizer?.apply(settings);
+  }
+
+  /**
+   * Send output to an audio device from `enumerateDevices()`.
+   * "default" follows the system default.
+   */
+  async setOutputDevice(deviceId: string): Promise<void> {
+    this.outputDeviceId = deviceId;
+    await this.applyOutputDevice();
+  }
+
+  /** Crossfade length in seconds; 0 disables it (plain gapless). */
+  setCrossfade(seconds: number): void {
+    this.crossfadeSeconds = Math.max(0, Math.min(MAX_CROSSFADE_SECONDS, seconds));
+  }
+
+  reset(): void {
+    this.cancelSwitch();
+    this.finishFade();
+    this.decks.forEach(resetDeck);
+  }
+
+  // -- Deck elements --
+
+  /** Forward an element's media events while it's the active deck's. */
+  private listen(deck: Deck, audio: HTMLAudioElement): void {
+    const isCurrent = () => deck === this.active && deck.audio === audio;
+
+    for (const type of FORWARDED_EVENTS) {
+      audio.addEventListener(type, () => {
+        if (!isCurrent()) return;
+        if (type === "ended" && this.advance()) return;
+        this.dispatchEvent(new Event(type));
+      });
+    }
+    audio.addEventListener("timeupdate", () => {
+      if (isCurrent()) this.scheduleSwitch();
+    });
+    audio.addEventListener("play", () => {
+      if (this.context?.state === "suspended") void this.context.resume();
+    });
+    audio.addEventListener("ended", () => {
+      if (deck.audio === audio) reportLoudness(deck);
+    });
+    audio.addEventListener("pause", () => {
+      // Pausing mid-crossfade drops the outgoing tail
+      if (isCurrent() && this.fade) this.finishFade();
+    });
+  }
+
+  /**
+   * Load a stream, retrying a direct one without CORS if it fails. The
+   * retry plays outside Web Audio, where it can't be measured.
+   */
+  private async loadWithFallback(deck: Deck, url: string): Promise<void> {
+    const key = deck.key;
+    try {
+      await loadDeck(deck, url);
+    } catch (error) {
+      // DASH segments are fetched by script and need CORS regardless
+      const canRetry =
+        deck.key === key && deck.audio === deck.routedAudio && !getDashManifestXml(url);
+      if (!canRetry) throw error;
+
+      console.warn("[Engine] Stream failed to load with CORS, retrying without:", error);
+      this.usePlainAudio(deck);
+      await loadDeck(deck, url);
+    }
+  }
+
+  private usePlainAudio(deck: Deck): void {
+    if (!deck.plainAudio) {
+      const audio = new Audio();
+      audio.preload = "auto";
+      deck.plainAudio = audio;
+      this.listen(deck, audio);
+      void this.applyOutputDevice();
+    }
+
+    const { routedAudio } = deck;
+    routedAudio.removeAttribute("src");
+    routedAudio.load();
+    deck.audio = deck.plainAudio;
+    deck.onLoudness = null;
+    this.applyVolume(deck);
+  }
+
+  // -- Deck switching --
+
+  private get active(): Deck {
+    return this.decks[this.activeIndex];
+  }
+
+  private get standby(): Deck {
+    return this.decks[1 - this.activeIndex];
+  }
+
+  /**
+   * Called when the active deck ends. Returns true if playback continued
+   * on the preloaded deck.
+   */
+  private advance(fadeSeconds = 0): boolean {
+    if (!this.standby.isReady) return false;
+    this.swap(fadeSeconds);
+    this.dispatchEvent(new Event("advance"));
+    return true;
+  }
+
+  private swap(fadeSeconds = 0): void {
+    this.cancelSwitch();
+    this.finishFade();
+    const previous = this.active;
+    this.activeIndex = 1 - this.activeIndex;
+
+    const next = this.active;
+    next.audio.currentTime = 0;
+
+    if (fadeSeconds > 0) {
+      this.startFade(previous, next, fadeSeconds);
+    } else {
+      next.gain = 1;
+      this.applyVolume(next);
+      resetDeck(previous);
+    }
+
+    void next.audio.play().catch((error) => {
+      console.error("[Engine] Failed to start next deck:", error);
+    });
+
+    // Let listeners pick up the new element's state
+    this.dispatchEvent(new Event("loadedmetadata"));
+    this.dispatchEvent(new Event("play"));
+  }
+
+  private scheduleSwitch(): void {
+    if (this.switchTimer || this.fade || !this.standby.isReady) return;
+
+    const { audio } = this.active;
+    if (audio.paused || !Number.isFinite(audio.duration)) return;
+
+    const remaining = audio.duration - audio.currentTime;
+
+    const crossfade = this.standby.crossfade ? this.crossfadeSeconds : 0;
+    if (crossfade > 0 && remaining > SCHEDULE_WINDOW_SECONDS) {
+      if (remaining <= crossfade) this.advance(remaining);
+      return;
+    }
+
+    if (remaining > SCHEDULE_WINDOW_SECONDS) return;
+
+    const rate = audio.playbackRate || 1;
+    this.switchTimer = this.scheduleAt(Math.max(0, remaining / rate), () => {
+      this.switchTimer = null;
+      if (!this.active.audio.paused) this.advance();
+    });
+  }
+
+  /**
+   * Run `callback` in `seconds`, timed by the AudioContext clock when
+   * it's running. A silent source's `ended` event fires within one
+   * render quantum (128 frames, ~3 ms) of the scheduled time and isn't
+   * throttled in background windows the way timers are; what's left is
+   * the element's own start latency, a few ms more. Without Web Audio
+   * a timer does it, usually within a few ms in the foreground, and a
+   * late timer is covered by the `ended` handler. Returns a canceller.
+   */
+  private scheduleAt(seconds: number, callback: () => void): () => void {
+    const context = this.context;
+    if (context?.state === "running") {
+      const clock = context.createConstantSource();
+      clock.offset.value = 0;
+      clock.connect(context.destination);
+      clock.onended = () => {
+        clock.disconnect();
+        callback();
+      };
+      clock.start();
+      clock.stop(context.currentTime + seconds);
+      return () => {
+        clock.onended = null;
+        clock.disconnect();
+      };
+    }
+
+    const timer = setTimeout(callback, seconds * 1000);
+    return () => clearTimeout(timer);
+  }
+
+  // -- Output graph --
+
+  /**
+   * Route both decks through Web Audio. Created on first load so the
+   * AudioContext starts from a user gesture; without Web Audio the
+   * element volume is used and normalization can only attenuate.
+   */
+  private ensureGraph(): void {
+    if (this.context || typeof AudioContext === "undefined") return;
+
+    try {
+      const context = new AudioContext();
+      const limiter = context.createDynamicsCompressor();
+      limiter.threshold.value = -1;
+      limiter.knee.value = 0;
+      limiter.ratio.value = 20;
+      limiter.attack.value = 0.003;
+      limiter.release.value = 0.25;
+      limiter.connect(context.destination);
+      this.context = context;
+
+      const equalizer = new Equalizer(context);
+      equalizer.apply(this.eqSettings);
+      equalizer.output.connect(limiter);
+      this.equalizer = equalizer;
+      void this.applyOutputDevice();
+
+      for (const deck of this.decks) {
+        const source = context.createMediaElementSource(deck.audio);
+        const normalization = context.createGain();
+        const level = context.createGain();
+        source.connect(normalization);
+        normalization.connect(level);
+        level.connect(equalizer.input);
+        deck.output = {
+          normalization,
+          level,
+          meter: new LoudnessMeter(context, source, deck.audio),
+        };
+        this.applyVolume(deck);
+      }
+    } catch (error) {
+      console.warn("[Engine] Web Audio unavailable, normalization limited:", error);
+    }
+  }
+
+  private async applyOutputDevice(): Promise<void> {
+    const sinkId = this.outputDeviceId === "default" ? "" : this.outputDeviceId;
+
+    try {
+      if (this.context) {
+        // Not in the DOM typings yet (Chromium 110+)
+        const context = this.context as AudioContext & {
+          setSinkId?: (sinkId: string) => Promise<void>;
+        };
+        await context.setSinkId?.(sinkId);
+      }
+      // Elements outside the graph pick their own output
+      const elements = this.decks.flatMap((deck) => [
+        ...(this.context ? [] : [deck.routedAudio]),
+        ...(deck.plainAudio ? [deck.plainAudio] : []),
+      ]);
+      await Promise.all(elements.map((audio) => audio.setSinkId?.(sinkId)));
+    } catch (error) {
+      console.warn("[Engine] Failed to switch output device:", error);
+    }
+  }
+
+  private applyVolume(deck: Deck): void {
+    const level = Math.max(0, Math.min(1, this.volume * deck.gain));
+    if (deck.output && deck.audio === deck.routedAudio) {
+      deck.audio.volume = 1;
+      deck.output.level.gain.value = level;
+      deck.output.normalization.gain.value = deck.normalization;
+    } else {
+      deck.audio.volume = level * Math.min(1, deck.normalization);
+    }
+  }
+
+  // -- Crossfade --
+
+  /**
+   * Equal-power crossfade: the outgoing deck follows cos(t * pi/2) and
+   * the incoming one sin(t * pi/2), keeping perceived loudness steady.
+   */
+  private startFade(from: Deck, to: Deck, seconds: number): void {
+    const startedAt = performance.now();
+    const durationMs = seconds * 1000;
+
+    const step = () => {
+      const t = Math.min(1, (performance.now() - startedAt) / durationMs);
+      from.gain = Math.cos((t * Math.PI) / 2);
+      to.gain = Math.sin((t * Math.PI) / 2);
+      this.applyVolume(from);
+      this.applyVolume(to);
+      if (t >= 1) this.finishFade();
+    };
+
+    to.gain = 0;
+    this.applyVolume(to);
+
+    let resolve = () => {};
+    const done = new Promise<void>((r) => {
+      resolve = r;
+    });
+    this.fade = { deck: from, timer: setInterval(step, FADE_STEP_MS), done, resolve };
+  }
+
+  private finishFade(): void {
+    if (!this.fade) return;
+    const { deck, timer, resolve } = this.fade;
+    this.fade = null;
+    clearInterval(timer);
+    resetDeck(deck);
+    resolve();
+
+    const active = this.active;
+    active.gain = 1;
+    this.applyVolume(active);
+  }
+
+  private cancelSwitch(): void {
+    if (this.switchTimer) {
+      this.switchTimer();
+      this.switchTimer = null;
+    }
+  }
+}
+
+/** Singleton engine for the entire app. */
+export const engine = new PlaybackEngine();
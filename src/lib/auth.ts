@@ -0,0 +1,121 @@
+/**
+ * Account auth against the local PocketBase `users` collection.
+ *
+ * PocketBase's own auth store keeps the token and user record in
+ * localStorage, so a session survives restarts; these helpers wrap the
+ * calls that change it and turn failures into messages for the UI.
+ */
+
+import { ClientResponseError, getTokenPayload } from "pocketbase";
+import type { AuthProviderInfo, RecordModel } from "pocketbase";
+import { pb, usersCollection } from "@/lib/pocketbase";
+
+export interface AuthUser {
+  id: string;
+  email: string;
+  name: string;
+  avatarUrl?: string;
+}
+
+/** The signed-in user, or null when there's no valid session. */
+export function currentUser(): AuthUser | null {
+  const record = pb.authStore.isValid ? pb.authStore.record : null;
+  return record ? toAuthUser(record) : null;
+}
+
+/** When the current token expires, in ms since epoch; null without one. */
+export function tokenExpiry(): number | null {
+  const { exp } = getTokenPayload(pb.authStore.token);
+  return typeof exp === "number" ? exp * 1000 : null;
+}
+
+// -- Auth calls --
+
+export async function signInWithPassword(email: string, password: string): Promise<AuthUser> {
+  const { record } = await usersCollection().authWithPassword(email, password);
+  return toAuthUser(record);
+}
+
+export async function signUpWithPassword(
+  email: string,
+  password: string,
+  name: string
+): Promise<AuthUser> {
+  await usersCollection().create({
+    email,
+    password,
+    passwordConfirm: password,
+    name,
+  });
+  return signInWithPassword(email, password);
+}
+
+/** OAuth2 providers enabled on the server; empty when none or unreachable. */
+export async function listOAuthProviders(): Promise<AuthProviderInfo[]> {
+  try {
+    const methods = await usersCollection().listAuthMethods();
+    return methods.oauth2.enabled ? methods.oauth2.providers : [];
+  } catch (error) {
+    console.warn("[Auth] Could not load sign-in methods:", error);
+    return [];
+  }
+}
+
+/** Opens the provider's sign-in page in a popup and waits for it. */
+export async function signInWithOAuth(provider: string): Promise<AuthUser> {
+  const { record } = await usersCollection().authWithOAuth2({ provider });
+  return toAuthUser(record);
+}
+
+/** Renew the token; returns the (possibly updated) user. */
+export async function refreshSession(): Promise<AuthUser> {
+  const { record } = await usersCollection().authRefresh();
+  return toAuthUser(record);
+}
+
+export function signOut(): void {
+  pb.authStore.clear();
+}
+
+// -- Errors --
+
+/** The server rejected the session itself, as opposed to being unreachable. */
+export function isSessionRejected(error: unknown): boolean {
+  return (
+    error instanceof ClientResponseError &&
+    (error.status === 401 || error.status === 403 || error.status === 404)
+  );
+}
+
+/** A message to show for a failed auth call. */
+export function describeAuthError(error: unknown): string {
+  if (!(error instanceof ClientResponseError)) {
+    return error instanceof Error ? error.message : "Something went wrong";
+  }
+  if (error.isAbort) return "Sign-in was cancelled";
+  if (error.status === 0) return "Can't reach the account server";
+
+  // Field validation errors, e.g. { email: { message: "..." } }
+  const fields = (error.response?.data ?? {}) as Record<string, { message?: string }>;
+  const [field, detail] = Object.entries(fields)[0] ?? [];
+  if (field && detail?.message) return `${capitalize(field)}: ${detail.message}`;
+
+  if (error.status === 400) return "Wrong email or password";
+  return error.response?.message || "Something went wrong";
+}
+
+// -- Private helpers --
+
+function toAuthUser(record: RecordModel): AuthUser {
+  const avatar = typeof record.avatar === "string" ? record.avatar : "";
+  return {
+    id: record.id,
+    email: typeof record.email === "string" ? record.email : "",
+    name: typeof record.name === "string" ? record.name : "",
+    avatarUrl: avatar ? pb.files.getURL(record, avatar, { thumb: "100x100" }) : undefined,
+  };
+}
+
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
@@ -0,0 +1,88 @@
+/**
+ * Autoplay -- what to play once the queue runs out.
+ *
+ * Recommendations are seeded from the last few played tracks. The
+ * proxy's track radio is used when it has one; otherwise favorites that
+ * share an artist or album with a seed, then the seed artists' top
+ * tracks, fill the batch.
+ */
+
+import { getArtist, getTrackRecommendations } from "@/lib/api/music-api";
+import type { Track } from "@/types/music";
+
+const BATCH_SIZE = 10;
+
+/** How many recently played tracks seed a batch. */
+export const AUTOPLAY_SEED_COUNT = 3;
+
+export interface AutoplayContext {
+  /** Recently played tracks, most recent first. */
+  seeds: Track[];
+  favorites: Track[];
+  /** Track IDs to leave out -- already queued or recently played. */
+  exclude: Set<string>;
+}
+
+/** Up to `count` tracks to append; empty if nothing could be found. */
+export async function recommendTracks(
+  { seeds, favorites, exclude }: AutoplayContext,
+  count = BATCH_SIZE
+): Promise<Track[]> {
+  if (seeds.length === 0) return [];
+
+  const picked: Track[] = [];
+  const seen = new Set(exclude);
+  const take = (tracks: Track[], limit = count) => {
+    for (const track of tracks) {
+      if (picked.length >= count || limit <= 0) break;
+      if (seen.has(track.id)) continue;
+      seen.add(track.id);
+      picked.push(track);
+      limit--;
+    }
+  };
+
+  // Track radio, split evenly across the seeds
+  const radios = await Promise.all(
+    seeds.map((seed) => settle(getTrackRecommendations(seed.id), seed.id))
+  );
+  const perSeed = Math.ceil(count / seeds.length);
+  radios.forEach((tracks) => take(tracks, perSeed));
+  radios.forEach((tracks) => take(tracks));
+
+  // Favorites next to what was playing
+  const artistIds = new Set(seeds.flatMap(artistIdsOf));
+  const albumIds = new Set(seeds.map((seed) => seed.album.id));
+  take(
+    favorites.filter(
+      (track) =>
+        albumIds.has(track.album.id) || artistIdsOf(track).some((id) => artistIds.has(id))
+    )
+  );
+
+  // The seed artists' own top tracks
+  for (const artistId of artistIds) {
+    if (picked.length >= count) break;
+    const artist = await settle(
+      getArtist(artistId).then(({ tracks }) => tracks),
+      `artist ${artistId}`
+    );
+    take(artist, perSeed);
+  }
+
+  return picked;
+}
+
+function artistIdsOf(track: Track): string[] {
+  const ids = (track.artists ?? []).map((artist) => artist.id);
+  return ids.includes(track.artist.id) ? ids : [track.artist.id, ...ids];
+}
+
+async function settle(request: Promise<Track[]>, source: string): Promise<Track[]> {
+  try {
+    return await request;
+  } catch (error) {
+    console.warn(`[Autoplay] No recommendations from ${source}:`, error);
+    return [];
+  }
+}
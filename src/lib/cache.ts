@@ -4,6 +4,8 @@
  * - Memory is checked first (fastest).
  * - Falls back to IndexedDB for persistence across page reloads.
  * - Both tiers share the same TTL and key format.
+ * - Expired IndexedDB entries are kept for a while longer so pages can
+ *   still render from `getStale()` while offline.
  * - Auto-cleanup runs every 5 minutes to evict expired entries.
  */
 
@@ -12,6 +14,7 @@ const DB_VERSION = 1;
 const STORE_NAME = "responses";
 
 const DEFAULT_TTL_MS = 1000 * 60 * 30; // 30 minutes
+const STALE_RETENTION_MS = 1000 * 60 * 60 * 24 * 30; // 30 days
 const MAX_MEMORY_ENTRIES = 200;
 const CLEANUP_INTERVAL_MS = 1000 * 60 * 5; // 5 minutes
 
@@ -61,14 +64,28 @@ class CacheManager {
       return dbEntry.data as T;
     }
 
-    // Stale DB entry -- remove it
-    if (dbEntry) {
+    // Past even the offline retention -- remove it
+    if (dbEntry && now - dbEntry.timestamp >= STALE_RETENTION_MS) {
       this.deleteFromDB(key);
     }
 
     return null;
   }
 
+  /**
+   * Like `get()`, but ignores the TTL. For offline use, where old data
+   * beats no data.
+   */
+  async getStale<T = unknown>(type: string, params: string): Promise<T | null> {
+    const key = buildKey(type, params);
+
+    const memEntry = this.memory.get(key);
+    if (memEntry) return memEntry.data as T;
+
+    const dbEntry = await this.getFromDB(key);
+    return dbEntry ? (dbEntry.data as T) : null;
+  }
+
   async set(type: string, params: string, data: unknown): Promise<void> {
     const key = buildKey(type, params);
     const entry: CacheEntry = { key, data, timestamp: Date.now() };
@@ -92,6 +109,7 @@ class CacheManager {
   async clearExpired(): Promise<void> {
     const now = Date.now();
     const cutoff = now - this.ttl;
+    const staleCutoff = now - Math.max(this.ttl, STALE_RETENTION_MS);
 
     // Memory cleanup
     for (const [key, entry] of this.memory) {
@@ -106,7 +124,7 @@ class CacheManager {
       const tx = db.transaction(STORE_NAME, "readwrite");
       const store = tx.objectStore(STORE_NAME);
       const index = store.index("timestamp");
-      const range = IDBKeyRange.upperBound(cutoff);
+      const range = IDBKeyRange.upperBound(staleCutoff);
       const request = index.openCursor(range);
 
       request.onsuccess = () => {
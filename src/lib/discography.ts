@@ -0,0 +1,130 @@
+/**
+ * Discography grouping.
+ *
+ * Turns the flat release list from the artist endpoint into groups by
+ * `Album.type` (releases by other primary artists count as appearances),
+ * collapses explicit/clean and remaster duplicates, and sorts each group
+ * by release date, newest first.
+ *
+ * Two releases are editions of each other only if their titles match
+ * once remaster suffixes are stripped *and* they came out the same year
+ * -- or, for a remaster, have the same number of tracks. Self-titled
+ * albums from different years stay separate. Appearances also need the
+ * same primary artist.
+ */
+
+import type { Album, Discography, ReleaseGroup } from "@/types/music";
+
+export const RELEASE_GROUPS: ReleaseGroup[] = [
+  "albums",
+  "singles",
+  "compilations",
+  "appearances",
+];
+
+export const RELEASE_GROUP_LABELS: Record<ReleaseGroup, string> = {
+  albums: "Albums",
+  singles: "EPs & Singles",
+  compilations: "Compilations",
+  appearances: "Appears On",
+};
+
+// "(Remastered)", "[2011 Remaster]", "- Remastered 2009", ...
+const REMASTER_PATTERN =
+  /\s*(?:[([]\s*(?:\d{4}\s+)?remaster(?:ed)?(?:\s+\d{4})?(?:\s+version)?\s*[)\]]|-\s*(?:\d{4}\s+)?remaster(?:ed)?(?:\s+\d{4})?(?:\s+version)?)\s*$/i;
+
+function isRemaster(album: Album): boolean {
+  return REMASTER_PATTERN.test(album.title);
+}
+
+/** Title with remaster suffixes and case differences removed. */
+function baseTitle(album: Album): string {
+  return album.title.replace(REMASTER_PATTERN, "").trim().toLowerCase();
+}
+
+export function releaseGroupOf(album: Album, artistId: string): ReleaseGroup {
+  if (album.artist.id !== artistId) return "appearances";
+
+  switch (album.type?.toUpperCase()) {
+    case "EP":
+    case "SINGLE":
+      return "singles";
+    case "COMPILATION":
+      return "compilations";
+    default:
+      return "albums";
+  }
+}
+
+/**
+ * Of two editions of the same release, keep the explicit one, then the
+ * original over a remaster, then the one with more tracks.
+ */
+function preferredEdition(a: Album, b: Album): Album {
+  if (Boolean(a.explicit) !== Boolean(b.explicit)) return a.explicit ? a : b;
+  if (isRemaster(a) !== isRemaster(b)) return isRemaster(a) ? b : a;
+  return (b.numberOfTracks ?? 0) > (a.numberOfTracks ?? 0) ? b : a;
+}
+
+function releaseYear(album: Album): string | undefined {
+  return album.releaseDate?.slice(0, 4) || undefined;
+}
+
+function isSameRelease(a: Album, b: Album): boolean {
+  const yearA = releaseYear(a);
+  const yearB = releaseYear(b);
+  if (yearA && yearB && yearA === yearB) return true;
+
+  // A remaster comes out years later; match it on the track list instead.
+  // Without a year on one side the track count is all there is to go on.
+  const compareTracks = isRemaster(a) || isRemaster(b) || !yearA || !yearB;
+  return (
+    compareTracks &&
+    a.numberOfTracks !== undefined &&
+    a.numberOfTracks === b.numberOfTracks
+  );
+}
+
+function byReleaseDateDesc(a: Album, b: Album): number {
+  return (b.releaseDate ?? "").localeCompare(a.releaseDate ?? "");
+}
+
+export function buildDiscography(artistId: string, releases: Album[]): Discography {
+  // Releases sharing a group, title (and artist, for appearances); each
+  // bucket holds one entry per distinct release
+  const buckets = new Map<string, { group: ReleaseGroup; album: Album }[]>();
+
+  for (const album of releases) {
+    const group = releaseGroupOf(album, artistId);
+    const artistKey = group === "appearances" ? album.artist.id : "";
+    const key = `${group}:${artistKey}:${baseTitle(album)}`;
+
+    const bucket = buckets.get(key) ?? [];
+    const edition = bucket.find((entry) => isSameRelease(entry.album, album));
+    if (edition) {
+      edition.album = preferredEdition(edition.album, album);
+    } else {
+      bucket.push({ group, album });
+    }
+    buckets.set(key, bucket);
+  }
+
+  const discography: Discography = {
+    albums: [],
+    singles: [],
+    compilations: [],
+    appearances: [],
+  };
+
+  for (const bucket of buckets.values()) {
+    for (const { group, album } of bucket) {
+      discography[group].push(album);
+    }
+  }
+
+  for (const group of RELEASE_GROUPS) {
+    discography[group].sort(byReleaseDateDesc);
+  }
+
+  return discography;
+}
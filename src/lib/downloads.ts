@@ -0,0 +1,234 @@
+/**
+ * Offline audio -- fetching complete streams and keeping them in
+ * IndexedDB.
+ *
+ * Direct streams are saved as-is. DASH streams are saved as the
+ * initialization segment followed by every media segment of the best
+ * playable representation, which the audio element plays back as one
+ * fragmented MP4 file.
+ */
+
+import { getDashManifestXml, parseDashManifest } from "@/lib/audio/dash-manifest";
+import { selectRepresentation } from "@/lib/audio/dash-source";
+import type { StreamDescriptor } from "@/types/music";
+
+const DB_NAME = "moonsway-downloads";
+const DB_VERSION = 1;
+const STORE_NAME = "audio";
+
+const SEGMENT_RETRIES = 2;
+
+/** A stream descriptor minus its (expiring) URL. */
+export type StoredStream = Omit<StreamDescriptor, "url">;
+
+interface DownloadEntry {
+  trackId: string;
+  blob: Blob;
+  stream: StoredStream;
+  timestamp: number;
+}
+
+export type DownloadProgress = (fraction: number) => void;
+
+// -- Fetching --
+
+async function fetchWithRetry(url: string, signal: AbortSignal): Promise<Response> {
+  let lastError: unknown = null;
+
+  for (let attempt = 0; attempt <= SEGMENT_RETRIES; attempt++) {
+    try {
+      const response = await fetch(url, { signal });
+      if (!response.ok) {
+        throw new Error(`Download request failed with status ${response.status}`);
+      }
+      return response;
+    } catch (error) {
+      if (signal.aborted) throw error;
+      lastError = error;
+    }
+  }
+
+  throw lastError ?? new Error("Download request failed");
+}
+
+async function fetchDirect(
+  url: string,
+  mimeType: string,
+  signal: AbortSignal,
+  onProgress: DownloadProgress
+): Promise<Blob> {
+  const response = await fetchWithRetry(url, signal);
+  const total = Number(response.headers.get("content-length")) || 0;
+
+  if (!response.body || total === 0) {
+    const blob = await response.blob();
+    onProgress(1);
+    return blob;
+  }
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array<ArrayBuffer>[] = [];
+  let received = 0;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    received += value.byteLength;
+    onProgress(Math.min(1, received / total));
+  }
+
+  return new Blob(chunks, { type: response.headers.get("content-type") ?? mimeType });
+}
+
+async function fetchDash(
+  xml: string,
+  signal: AbortSignal,
+  onProgress: DownloadProgress
+): Promise<{ blob: Blob; mimeType: string }> {
+  const manifest = parseDashManifest(xml);
+  const representation =
+    selectRepresentation(manifest) ??
+    [...manifest.representations].sort((a, b) => b.bandwidth - a.bandwidth)[0];
+  if (!representation) throw new Error("DASH manifest has no representations");
+
+  const urls = [
+    representation.initializationUrl,
+    ...representation.segments.map((s) => s.url),
+  ];
+  const parts: ArrayBuffer[] = [];
+
+  for (const [index, url] of urls.entries()) {
+    const response = await fetchWithRetry(url, signal);
+    parts.push(await response.arrayBuffer());
+    onProgress((index + 1) / urls.length);
+  }
+
+  return {
+    blob: new Blob(parts, { type: representation.mimeType }),
+    mimeType: representation.mimeType,
+  };
+}
+
+/**
+ * Download the complete audio behind a resolved stream.
+ */
+export async function fetchStreamAudio(
+  stream: StreamDescriptor,
+  signal: AbortSignal,
+  onProgress: DownloadProgress = () => {}
+): Promise<{ blob: Blob; stream: StoredStream }> {
+  const { url, ...meta } = stream;
+  const xml = getDashManifestXml(url);
+
+  if (xml) {
+    const { blob, mimeType } = await fetchDash(xml, signal, onProgress);
+    return { blob, stream: { ...meta, mimeType } };
+  }
+
+  const blob = await fetchDirect(url, meta.mimeType ?? "audio/mp4", signal, onProgress);
+  return { blob, stream: { ...meta, mimeType: blob.type || meta.mimeType } };
+}
+
+// -- Storage --
+
+class DownloadStorage {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+  // One object URL per track so repeated plays don't leak blobs
+  private objectUrls = new Map<string, string>();
+
+  // -- Public API --
+
+  async save(trackId: string, blob: Blob, stream: StoredStream): Promise<void> {
+    const entry: DownloadEntry = { trackId, blob, stream, timestamp: Date.now() };
+    const db = await this.openDB();
+    await new Promise<void>((resolve, reject) => {
+      const tx = db.transaction(STORE_NAME, "readwrite");
+      tx.objectStore(STORE_NAME).put(entry);
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+  }
+
+  /**
+   * A playable descriptor for the downloaded copy of a track, or null
+   * if it hasn't been downloaded.
+   */
+  async getStream(trackId: string): Promise<StreamDescriptor | null> {
+    const entry = await this.getEntry(trackId);
+    if (!entry) return null;
+
+    let url = this.objectUrls.get(trackId);
+    if (!url) {
+      url = URL.createObjectURL(entry.blob);
+      this.objectUrls.set(trackId, url);
+    }
+    return { ...entry.stream, url };
+  }
+
+  async delete(trackId: string): Promise<void> {
+    const url = this.objectUrls.get(trackId);
+    if (url) {
+      URL.revokeObjectURL(url);
+      this.objectUrls.delete(trackId);
+    }
+
+    const db = await this.openDB();
+    await new Promise<void>((resolve, reject) => {
+      const tx = db.transaction(STORE_NAME, "readwrite");
+      tx.objectStore(STORE_NAME).delete(trackId);
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+  }
+
+  /** IDs of every stored track. */
+  async keys(): Promise<string[]> {
+    const db = await this.openDB();
+    return new Promise((resolve, reject) => {
+      const tx = db.transaction(STORE_NAME, "readonly");
+      const request = tx.objectStore(STORE_NAME).getAllKeys();
+      request.onsuccess = () => resolve(request.result.map(String));
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  // -- Private helpers --
+
+  private async getEntry(trackId: string): Promise<DownloadEntry | null> {
+    try {
+      const db = await this.openDB();
+      return await new Promise((resolve, reject) => {
+        const tx = db.transaction(STORE_NAME, "readonly");
+        const request = tx.objectStore(STORE_NAME).get(trackId);
+        request.onsuccess = () => resolve(request.result ?? null);
+        request.onerror = () => reject(request.error);
+      });
+    } catch {
+      return null;
+    }
+  }
+
+  private openDB(): Promise<IDBDatabase> {
+    if (this.dbPromise) return this.dbPromise;
+
+    this.dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE_NAME)) {
+          db.createObjectStore(STORE_NAME, { keyPath: "trackId" });
+        }
+      };
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+
+    return this.dbPromise;
+  }
+}
+
+/** Singleton download storage for the entire app. */
+export const downloadStorage = new DownloadStorage();
@@ -1,3 +1,5 @@
+import type { StreamDescriptor } from "@/types/music";
+
 /**
  * Format seconds into mm:ss or h:mm:ss.
  * e.g. 185 -> "3:05", 3661 -> "1:01:01"
@@ -16,3 +18,75 @@ export function formatTime(seconds: number): string {
 
   return `${m}:${String(s).padStart(2, "0")}`;
 }
+
+/**
+ * Describe a delivered stream's format.
+ * e.g. FLAC at 24-bit/96 kHz -> "FLAC 24/96", AAC -> "AAC"
+ */
+export function formatStreamFormat(stream: StreamDescriptor): string {
+  const codec = stream.codec?.toLowerCase() ?? "";
+  const name = codec.startsWith("mp4a")
+    ? "AAC"
+    : codec
+      ? codec.split(".")[0].toUpperCase()
+      : stream.mimeType?.split("/")[1]?.toUpperCase() ?? "";
+
+  if (!stream.bitDepth || !stream.sampleRate) return name;
+
+  const khz = Math.round(stream.sampleRate / 100) / 10;
+  return `${name} ${stream.bitDepth}/${khz}`.trim();
+}
+
+/**
+ * Format a byte count for display.
+ * e.g. 1536 -> "1.5 KB", 52428800 -> "50 MB"
+ */
+export function formatBytes(bytes: number): string {
+  if (!Number.isFinite(bytes) || bytes <= 0) return "0 B";
+
+  const units = ["B", "KB", "MB", "GB"];
+  const exponent = Math.min(units.length - 1, Math.floor(Math.log(bytes) / Math.log(1024)));
+  const value = bytes / 1024 ** exponent;
+  const rounded = value >= 10 || exponent === 0 ? Math.round(value) : Math.round(value * 10) / 10;
+  return `${rounded} ${units[exponent]}`;
+}
+
+/**
+ * Describe how long ago a timestamp was.
+ * e.g. 30 seconds ago -> "just now", 5 minutes ago -> "5m ago"
+ */
+export function formatRelativeTime(timestamp: number, now = Date.now()): string {
+  const seconds = Math.max(0, Math.floor((now - timestamp) / 1000));
+  if (seconds < 60) return "just now";
+
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m ago`;
+
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ago`;
+
+  return `${Math.floor(hours / 24)}d ago`;
+}
+
+/**
+ * Name the day a timestamp falls on, relative to today.
+ * e.g. "Today", "Yesterday", "Monday, March 3", "March 3, 2023"
+ */
+export function formatDay(timestamp: number, now = Date.now()): string {
+  const day = new Date(timestamp);
+  const today = new Date(now);
+  const startOfDay = (date: Date) =>
+    new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime();
+  const daysAgo = Math.round((startOfDay(today) - startOfDay(day)) / 86_400_000);
+
+  if (daysAgo === 0) return "Today";
+  if (daysAgo === 1) return "Yesterday";
+  if (daysAgo > 1 && daysAgo < 7) {
+    return day.toLocaleDateString(undefined, { weekday: "long", month: "long", day: "numeric" });
+  }
+  return day.toLocaleDateString(undefined, {
+    month: "long",
+    day: "numeric",
+    ...(day.getFullYear() !== today.getFullYear() ? { year: "numeric" } : {}),
+  });
+}
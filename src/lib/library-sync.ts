@@ -0,0 +1,279 @@
+/**
+ * Favorites and history on PocketBase -- the remote half of the library
+ * store's sync.
+ *
+ * Favorites are one `favorites` record per item; removing a favorite
+ * deletes its record. History is the play log (see lib/play-log): one
+ * `history` record per play, with the same ID as the local play so
+ * sending one twice just updates it. Plays logged before listening was
+ * tracked have no `started_at` and are timed by their `created` date.
+ * Merging lives in the library store; this module only reads, writes
+ * and subscribes.
+ */
+
+import type { RecordSubscription } from "pocketbase";
+import {
+  favoritesCollection,
+  historyCollection,
+  isNotFound,
+  parseTimestamp,
+  pb,
+} from "@/lib/pocketbase";
+import type {
+  Album,
+  ArtistMinified,
+  PBFavorite,
+  PBHistory,
+  PlayEvent,
+  Track,
+} from "@/types/music";
+
+// -- Types --
+
+export type LibraryItemType = "track" | "album" | "artist";
+
+export interface LibraryItems {
+  track: Track;
+  album: Album;
+  artist: ArtistMinified;
+}
+
+export interface RemoteFavorite<T extends LibraryItemType = LibraryItemType> {
+  type: T;
+  item: LibraryItems[T];
+  /** Last change on the server, ms since epoch. */
+  updatedAt: number;
+}
+
+export interface RemotePlay extends PlayEvent {
+  /** Last change on the server, ms since epoch. */
+  updatedAt: number;
+}
+
+export interface LibraryEvents {
+  onFavoriteAdded: (favorite: RemoteFavorite) => void;
+  onFavoriteRemoved: (type: LibraryItemType, id: string, at: number) => void;
+  /** A play was logged or updated. */
+  onPlayed: (play: RemotePlay) => void;
+  onPlayRemoved: (id: string) => void;
+}
+
+const LIBRARY_ITEM_TYPES: LibraryItemType[] = ["track", "album", "artist"];
+
+/** Key for an item in the maps the library store keeps per favorite. */
+export function favoriteKey(type: LibraryItemType, id: string): string {
+  return `${type}:${id}`;
+}
+
+// -- Favorites --
+
+export async function fetchRemoteFavorites(userId: string): Promise<RemoteFavorite[]> {
+  const records = await favoritesCollection().getFullList({
+    filter: pb.filter("user = {:user}", { user: userId }),
+  });
+  return records
+    .map(toRemoteFavorite)
+    .filter((favorite): favorite is RemoteFavorite => favorite !== null);
+}
+
+/** Add a favorite record unless one already exists. */
+export async function pushFavorite(
+  userId: string,
+  type: LibraryItemType,
+  item: LibraryItems[LibraryItemType]
+): Promise<void> {
+  const existing = await favoritesCollection().getList(1, 1, {
+    filter: favoriteFilter(userId, type, item.id),
+  });
+  if (existing.items.length > 0) return;
+
+  await favoritesCollection().create({
+    user: userId,
+    item_type: type,
+    item_id: item.id,
+    metadata: item,
+  });
+}
+
+export async function deleteRemoteFavorite(
+  userId: string,
+  type: LibraryItemType,
+  id: string
+): Promise<void> {
+  const records = await favoritesCollection().getFullList({
+    filter: favoriteFilter(userId, type, id),
+  });
+  for (const record of records) {
+    await favoritesCollection().delete(record.id);
+  }
+}
+
+// -- History --
+
+/** Plays changed on the server at or after `since` (ms since epoch). */
+export async function fetchRemotePlays(userId: string, since: number): Promise<RemotePlay[]> {
+  const records = await historyCollection().getFullList({
+    filter: pb.filter("user = {:user} && updated >= {:since}", {
+      user: userId,
+      since: new Date(since),
+    }),
+  });
+  return records.map(toRemotePlay);
+}
+
+export interface RemotePlayTimes {
+  /** When each fetched play started, by ID. */
+  times: Map<string, number>;
+  /**
+   * Start of the oldest fetched play when the page was full -- plays
+   * started at or before it may be missing from `times`.
+   */
+  coveredAfter: number;
+}
+
+/** When each of the user's `limit` most recent plays started. */
+export async function fetchRemotePlayTimes(
+  userId: string,
+  limit: number
+): Promise<RemotePlayTimes> {
+  const { items } = await historyCollection().getList(1, limit, {
+    filter: pb.filter("user = {:user}", { user: userId }),
+    sort: "-started_at,-created",
+    fields: "id,started_at,created",
+    skipTotal: true,
+  });
+  const times = new Map(items.map((record) => [record.id, playStartedAt(record)]));
+  const coveredAfter =
+    items.length < limit ? Number.NEGATIVE_INFINITY : Math.min(...times.values());
+  return { times, coveredAfter };
+}
+
+/** Whether the server still has any play started up to `before`. */
+export async function hasRemotePlaysBefore(userId: string, before: number): Promise<boolean> {
+  const { items } = await historyCollection().getList(1, 1, {
+    filter: startedBeforeFilter(userId, before),
+    fields: "id",
+    skipTotal: true,
+  });
+  return items.length > 0;
+}
+
+/** Create or update the record for `play`. */
+export async function pushPlay(userId: string, play: PlayEvent): Promise<void> {
+  const body = {
+    user: userId,
+    track_id: play.track.id,
+    metadata: play.track,
+    started_at: new Date(play.startedAt).toISOString(),
+    listened: play.listened,
+    completed: play.completed,
+    source: play.source ?? null,
+  };
+
+  try {
+    await historyCollection().update(play.id, body);
+  } catch (error) {
+    if (!isNotFound(error)) throw error;
+    await historyCollection().create({ id: play.id, ...body });
+  }
+}
+
+/** Delete every play started up to `before` (ms since epoch). */
+export async function clearRemoteHistory(userId: string, before: number): Promise<void> {
+  const records = await historyCollection().getFullList({
+    filter: startedBeforeFilter(userId, before),
+    fields: "id",
+  });
+  for (const record of records) {
+    await historyCollection().delete(record.id);
+  }
+}
+
+// -- Realtime --
+
+/**
+ * Follow changes other devices make to the user's favorites and
+ * history. Resolves to a function that stops listening.
+ */
+export async function subscribeToLibrary(
+  userId: string,
+  events: LibraryEvents
+): Promise<() => Promise<void>> {
+  const filter = pb.filter("user = {:user}", { user: userId });
+
+  const stopFavorites = await favoritesCollection().subscribe(
+    "*",
+    ({ action, record }: RecordSubscription<PBFavorite>) => {
+      if (action === "delete") {
+        if (isLibraryItemType(record.item_type)) {
+          events.onFavoriteRemoved(record.item_type, record.item_id, Date.now());
+        }
+        return;
+      }
+      const favorite = toRemoteFavorite(record);
+      if (favorite) events.onFavoriteAdded(favorite);
+    },
+    { filter }
+  );
+
+  const stopHistory = await historyCollection().subscribe(
+    "*",
+    ({ action, record }: RecordSubscription<PBHistory>) => {
+      if (action === "delete") events.onPlayRemoved(record.id);
+      else events.onPlayed(toRemotePlay(record));
+    },
+    { filter }
+  );
+
+  return async () => {
+    await Promise.all([stopFavorites(), stopHistory()]);
+  };
+}
+
+// -- Private helpers --
+
+function isLibraryItemType(value: string): value is LibraryItemType {
+  return (LIBRARY_ITEM_TYPES as string[]).includes(value);
+}
+
+function favoriteFilter(userId: string, type: LibraryItemType, id: string): string {
+  return pb.filter("user = {:user} && item_type = {:type} && item_id = {:id}", {
+    user: userId,
+    type,
+    id,
+  });
+}
+
+/** Plays started up to `before`; older plays are timed by `created`. */
+function startedBeforeFilter(userId: string, before: number): string {
+  return pb.filter(
+    "user = {:user} && ((started_at = '' && created <= {:before}) || " +
+      "(started_at != '' && started_at <= {:before}))",
+    { user: userId, before: new Date(before) }
+  );
+}
+
+function toRemoteFavorite(record: PBFavorite): RemoteFavorite | null {
+  if (!isLibraryItemType(record.item_type) || !record.metadata) return null;
+  return {
+    type: record.item_type,
+    item: record.metadata as LibraryItems[LibraryItemType],
+    updatedAt: parseTimestamp(record.updated),
+  };
+}
+
+function playStartedAt(record: Pick<PBHistory, "started_at" | "created">): number {
+  return parseTimestamp(record.started_at) || parseTimestamp(record.created);
+}
+
+function toRemotePlay(record: PBHistory): RemotePlay {
+  return {
+    id: record.id,
+    track: record.metadata,
+    startedAt: playStartedAt(record),
+    listened: record.listened ?? 0,
+    completed: Boolean(record.completed),
+    ...(record.source ? { source: record.source } : {}),
+    updatedAt: parseTimestamp(record.updated),
+  };
+}
@@ -0,0 +1,140 @@
+/**
+ * NetworkMonitor -- decides whether the app should behave as offline.
+ *
+ * The app is offline when the user forces it, when the browser reports
+ * no connection, or when API requests keep failing at the network
+ * level. In the last case a lightweight probe runs until an instance
+ * answers again. A `change` event is dispatched whenever `isOffline`
+ * flips.
+ */
+
+import { getInstances } from "./api/instances";
+
+const FORCED_OFFLINE_KEY = "moonsway-offline-mode";
+const PROBE_INTERVAL_MS = 15_000;
+const PROBE_TIMEOUT_MS = 5_000;
+
+function readForcedOffline(): boolean {
+  try {
+    return localStorage.getItem(FORCED_OFFLINE_KEY) === "1";
+  } catch {
+    return false;
+  }
+}
+
+class NetworkMonitor extends EventTarget {
+  private forced = readForcedOffline();
+  private browserOnline = typeof navigator === "undefined" || navigator.onLine;
+  private reachable = true;
+  private probeTimer: ReturnType<typeof setInterval> | null = null;
+
+  constructor() {
+    super();
+
+    if (typeof window !== "undefined") {
+      window.addEventListener("online", () => {
+        this.update(() => {
+          this.browserOnline = true;
+          // Give the instances a fresh chance after reconnecting
+          this.reachable = true;
+        });
+      });
+      window.addEventListener("offline", () => {
+        this.update(() => {
+          this.browserOnline = false;
+        });
+      });
+    }
+  }
+
+  // -- Public API --
+
+  get isOffline(): boolean {
+    return this.forced || !this.browserOnline || !this.reachable;
+  }
+
+  /** Whether offline mode was switched on by the user. */
+  get isForcedOffline(): boolean {
+    return this.forced;
+  }
+
+  setForcedOffline(forced: boolean): void {
+    try {
+      localStorage.setItem(FORCED_OFFLINE_KEY, forced ? "1" : "0");
+    } catch {
+      // Non-critical
+    }
+    this.update(() => {
+      this.forced = forced;
+    });
+  }
+
+  /** Every instance failed at the network level -- treat as offline. */
+  reportUnreachable(): void {
+    if (!this.reachable) return;
+    console.warn("[Network] API instances unreachable, switching to offline");
+    this.update(() => {
+      this.reachable = false;
+    });
+    this.startProbe();
+  }
+
+  reportReachable(): void {
+    this.update(() => {
+      this.reachable = true;
+    });
+  }
+
+  // -- Private helpers --
+
+  private update(mutate: () => void): void {
+    const wasOffline = this.isOffline;
+    mutate();
+    if (this.reachable) this.stopProbe();
+    if (this.isOffline !== wasOffline) {
+      this.dispatchEvent(new Event("change"));
+    }
+  }
+
+  private startProbe(): void {
+    if (this.probeTimer) return;
+    this.probeTimer = setInterval(() => {
+      void this.probe();
+    }, PROBE_INTERVAL_MS);
+  }
+
+  private stopProbe(): void {
+    if (this.probeTimer) {
+      clearInterval(this.probeTimer);
+      this.probeTimer = null;
+    }
+  }
+
+  private async probe(): Promise<void> {
+    if (this.forced || !this.browserOnline) return;
+
+    const [instance] = getInstances("api");
+    if (!instance) return;
+
+    const timeout = new AbortController();
+    const timer = setTimeout(() => timeout.abort(), PROBE_TIMEOUT_MS);
+
+    try {
+      // Opaque response is fine -- any answer means the network works
+      await fetch(instance, {
+        method: "HEAD",
+        mode: "no-cors",
+        cache: "no-store",
+        signal: timeout.signal,
+      });
+      this.reportReachable();
+    } catch {
+      // Still unreachable
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
+
+/** Singleton network monitor for the entire app. */
+export const network = new NetworkMonitor();
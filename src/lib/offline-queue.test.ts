@@ -0,0 +1,160 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+// Fresh singletons for every test; both read localStorage on creation
+async function load() {
+  vi.resetModules();
+  const [{ offlineQueue }, { network }, { OfflineError }] = await Promise.all([
+    import("./offline-queue"),
+    import("./network"),
+    import("./api/errors"),
+  ]);
+  return { offlineQueue, network, OfflineError };
+}
+
+beforeEach(() => {
+  localStorage.clear();
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("offlineQueue", () => {
+  it("runs an action right away when online", async () => {
+    const { offlineQueue } = await load();
+    const handler = vi.fn(async () => {});
+    offlineQueue.register("favorite:add", handler);
+
+    offlineQueue.enqueue("favorite:add", { id: "1" });
+    await offlineQueue.replay();
+
+    expect(handler).toHaveBeenCalledWith({ id: "1" });
+    expect(offlineQueue.size).toBe(0);
+  });
+
+  it("keeps actions while offline and replays them in order on reconnect", async () => {
+    const { offlineQueue, network } = await load();
+    const sent: string[] = [];
+    offlineQueue.register("playlist:save", async (payload) => {
+      sent.push((payload as { id: string }).id);
+    });
+
+    network.setForcedOffline(true);
+    offlineQueue.enqueue("playlist:save", { id: "a" });
+    offlineQueue.enqueue("playlist:save", { id: "b" });
+    await offlineQueue.replay();
+    expect(sent).toEqual([]);
+    expect(offlineQueue.size).toBe(2);
+
+    network.setForcedOffline(false);
+    await offlineQueue.replay();
+    expect(sent).toEqual(["a", "b"]);
+    expect(offlineQueue.size).toBe(0);
+  });
+
+  it("survives a reload", async () => {
+    const first = await load();
+    first.network.setForcedOffline(true);
+    first.offlineQueue.enqueue("favorite:remove", { id: "1" });
+
+    const { offlineQueue, network } = await load();
+    expect(offlineQueue.size).toBe(1);
+
+    const handler = vi.fn(async () => {});
+    network.setForcedOffline(false);
+    offlineQueue.register("favorite:remove", handler);
+    await offlineQueue.replay();
+    expect(handler).toHaveBeenCalledWith({ id: "1" });
+  });
+
+  it("runs actions enqueued while a replay is under way", async () => {
+    const { offlineQueue } = await load();
+    const sent: string[] = [];
+    offlineQueue.register("favorite:add", async (payload) => {
+      sent.push((payload as { id: string }).id);
+    });
+
+    offlineQueue.enqueue("favorite:add", { id: "1" });
+    offlineQueue.enqueue("favorite:add", { id: "2" });
+    await offlineQueue.replay();
+    expect(sent).toEqual(["1", "2"]);
+    expect(offlineQueue.size).toBe(0);
+  });
+
+  it("holds actions until their handler is registered", async () => {
+    const { offlineQueue } = await load();
+    offlineQueue.enqueue("history:add", { id: "p1" });
+    await offlineQueue.replay();
+    expect(offlineQueue.size).toBe(1);
+
+    const handler = vi.fn(async () => {});
+    offlineQueue.register("history:add", handler);
+    await offlineQueue.replay();
+    expect(handler).toHaveBeenCalledOnce();
+    expect(offlineQueue.size).toBe(0);
+  });
+
+  it("stops at an action that finds the network gone", async () => {
+    const { offlineQueue, OfflineError } = await load();
+    const later = vi.fn(async () => {});
+    offlineQueue.register("first", async () => {
+      throw new OfflineError();
+    });
+    offlineQueue.register("second", later);
+
+    offlineQueue.enqueue("first", null);
+    offlineQueue.enqueue("second", null);
+    await offlineQueue.replay();
+
+    expect(later).not.toHaveBeenCalled();
+    expect(offlineQueue.size).toBe(2);
+  });
+
+  it("retries a failing action without holding up the rest, then drops it", async () => {
+    const { offlineQueue } = await load();
+    const failing = vi.fn(async () => {
+      throw new Error("500");
+    });
+    const later = vi.fn(async () => {});
+    offlineQueue.register("failing", failing);
+    offlineQueue.register("later", later);
+
+    offlineQueue.enqueue("failing", null);
+    offlineQueue.enqueue("later", null);
+    await offlineQueue.replay();
+    expect(later).toHaveBeenCalledOnce();
+    expect(offlineQueue.size).toBe(1);
+
+    for (let pass = 0; pass < 10 && offlineQueue.size > 0; pass++) {
+      await offlineQueue.replay();
+    }
+    expect(failing).toHaveBeenCalledTimes(5);
+    expect(offlineQueue.size).toBe(0);
+  });
+
+  it("retries a failed action on its own after a backoff", async () => {
+    vi.useFakeTimers();
+    const { offlineQueue } = await load();
+    const handler = vi
+      .fn<(payload: unknown) => Promise<void>>()
+      .mockRejectedValueOnce(new Error("500"))
+      .mockResolvedValue(undefined);
+    offlineQueue.register("favorite:add", handler);
+
+    const nextChange = () =>
+      new Promise((resolve) => offlineQueue.addEventListener("change", resolve, { once: true }));
+
+    offlineQueue.enqueue("favorite:add", { id: "1" });
+    await nextChange();
+    expect(handler).toHaveBeenCalledOnce();
+    expect(offlineQueue.size).toBe(1);
+
+    const sent = nextChange();
+    await vi.advanceTimersByTimeAsync(5000);
+    await sent;
+    expect(handler).toHaveBeenCalledTimes(2);
+    expect(offlineQueue.size).toBe(0);
+  });
+});
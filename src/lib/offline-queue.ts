@@ -0,0 +1,180 @@
+/**
+ * OfflineQueue -- persisted outbox for actions that need the network.
+ *
+ * Stores enqueue actions by type instead of calling the server
+ * directly; the queue runs them right away when online and otherwise
+ * keeps them in localStorage until connectivity returns. Each type is
+ * executed by a handler registered with `register()`. Actions whose
+ * handler isn't registered yet stay queued.
+ *
+ * The stores own their actions: favorites and plays (library store),
+ * playlist saves and deletions (playlist store) and settings (settings
+ * store) each register handlers for the types they enqueue.
+ */
+
+import { isOfflineError } from "./api/errors";
+import { network } from "./network";
+
+const STORAGE_KEY = "moonsway-offline-queue";
+const MAX_ATTEMPTS = 5;
+// Backoff before retrying a failed action: 5s, 10s, 20s, ...
+const RETRY_BASE_DELAY_MS = 5000;
+const MAX_RETRY_DELAY_MS = 5 * 60 * 1000;
+
+export type ReplayHandler = (payload: unknown) => Promise<void>;
+
+interface QueuedAction {
+  id: string;
+  type: string;
+  payload: unknown;
+  createdAt: number;
+  attempts: number;
+}
+
+function readQueue(): QueuedAction[] {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+class OfflineQueue extends EventTarget {
+  private actions: QueuedAction[] = readQueue();
+  private handlers = new Map<string, ReplayHandler>();
+  private replaying: Promise<void> | null = null;
+  // Asked to replay while already running -- go round again after
+  private replayAgain = false;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor() {
+    super();
+    network.addEventListener("change", () => {
+      if (!network.isOffline) void this.replay();
+    });
+  }
+
+  // -- Public API --
+
+  /** Number of actions waiting to be sent. */
+  get size(): number {
+    return this.actions.length;
+  }
+
+  register(type: string, handler: ReplayHandler): void {
+    this.handlers.set(type, handler);
+    void this.replay();
+  }
+
+  enqueue(type: string, payload: unknown): void {
+    this.actions.push({
+      id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+      type,
+      payload,
+      createdAt: Date.now(),
+      attempts: 0,
+    });
+    this.save();
+    void this.replay();
+  }
+
+  /** Drop every queued action, e.g. when the user they belong to signs out. */
+  clear(): void {
+    this.cancelRetry();
+    this.actions = [];
+    this.save();
+  }
+
+  /**
+   * Run queued actions in order. Stops at the first one that fails
+   * because we're offline; other failures are retried a few times,
+   * backing off between tries, and then dropped.
+   */
+  replay(): Promise<void> {
+    if (this.replaying) {
+      // Whatever was just enqueued or registered missed the current pass
+      this.replayAgain = true;
+      return this.replaying;
+    }
+    if (network.isOffline || this.actions.length === 0) return Promise.resolve();
+
+    // This pass retries anything waiting on the timer
+    this.cancelRetry();
+    this.replaying = this.runUntilCaughtUp().finally(() => {
+      this.replaying = null;
+    });
+    return this.replaying;
+  }
+
+  // -- Private helpers --
+
+  private async runUntilCaughtUp(): Promise<void> {
+    do {
+      this.replayAgain = false;
+      await this.run();
+    } while (this.replayAgain && !network.isOffline);
+  }
+
+  private async run(): Promise<void> {
+    for (const action of [...this.actions]) {
+      if (network.isOffline) return;
+
+      const handler = this.handlers.get(action.type);
+      if (!handler) continue;
+
+      try {
+        await handler(action.payload);
+        this.remove(action.id);
+      } catch (error) {
+        if (isOfflineError(error)) return;
+
+        action.attempts++;
+        if (action.attempts >= MAX_ATTEMPTS) {
+          console.warn(
+            `[Offline] Dropping ${action.type} after ${action.attempts} attempts:`,
+            error
+          );
+          this.remove(action.id);
+        } else {
+          console.warn(`[Offline] ${action.type} failed, will retry:`, error);
+          this.save();
+          this.scheduleRetry(action.attempts);
+        }
+      }
+    }
+  }
+
+  private scheduleRetry(attempts: number): void {
+    if (this.retryTimer) return;
+    const delay = Math.min(RETRY_BASE_DELAY_MS * 2 ** (attempts - 1), MAX_RETRY_DELAY_MS);
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      void this.replay();
+    }, delay);
+  }
+
+  private cancelRetry(): void {
+    if (!this.retryTimer) return;
+    clearTimeout(this.retryTimer);
+    this.retryTimer = null;
+  }
+
+  private remove(id: string): void {
+    this.actions = this.actions.filter((action) => action.id !== id);
+    this.save();
+  }
+
+  private save(): void {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(this.actions));
+    } catch {
+      // Ignore storage failures (private mode/quota)
+    }
+    this.dispatchEvent(new Event("change"));
+  }
+}
+
+/** Singleton offline queue for the entire app. */
+export const offlineQueue = new OfflineQueue();
@@ -0,0 +1,150 @@
+/**
+ * Play log -- every logged listen, kept in IndexedDB.
+ *
+ * Unlike the library store's "recently played" list, nothing here is
+ * deduplicated or capped. Each play remembers whether its latest
+ * version has reached PocketBase (`synced`), so plays made offline or
+ * signed out can be sent later.
+ */
+
+import type { PlayEvent } from "@/types/music";
+
+const DB_NAME = "moonsway-play-log";
+const DB_VERSION = 1;
+const STORE_NAME = "plays";
+const STARTED_AT_INDEX = "startedAt";
+
+export interface LoggedPlay extends PlayEvent {
+  synced: boolean;
+}
+
+class PlayLog {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  // -- Public API --
+
+  /** Add plays, or replace them if their IDs are already logged. */
+  async put(plays: PlayEvent[], synced: boolean): Promise<void> {
+    if (plays.length === 0) return;
+    await this.write((store) => {
+      for (const play of plays) {
+        const entry: LoggedPlay = { ...play, synced };
+        store.put(entry);
+      }
+    });
+  }
+
+  async get(id: string): Promise<LoggedPlay | null> {
+    const db = await this.openDB();
+    return new Promise((resolve, reject) => {
+      const tx = db.transaction(STORE_NAME, "readonly");
+      const request = tx.objectStore(STORE_NAME).get(id);
+      request.onsuccess = () => resolve(request.result ?? null);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  /** Mark a play as sent, unless it changed since `sent` was read. */
+  async markSynced(sent: PlayEvent): Promise<void> {
+    const current = await this.get(sent.id);
+    if (!current || current.listened !== sent.listened || current.completed !== sent.completed) {
+      return;
+    }
+    await this.put([current], true);
+  }
+
+  /** Up to `limit` plays started before `before`, newest first. */
+  async list(limit: number, before = Number.POSITIVE_INFINITY): Promise<LoggedPlay[]> {
+    const db = await this.openDB();
+    return new Promise((resolve, reject) => {
+      const tx = db.transaction(STORE_NAME, "readonly");
+      const index = tx.objectStore(STORE_NAME).index(STARTED_AT_INDEX);
+      const range = Number.isFinite(before) ? IDBKeyRange.upperBound(before, true) : null;
+      const request = index.openCursor(range, "prev");
+      const plays: LoggedPlay[] = [];
+
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor || plays.length >= limit) {
+          resolve(plays);
+          return;
+        }
+        plays.push(cursor.value);
+        cursor.continue();
+      };
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async all(): Promise<LoggedPlay[]> {
+    const db = await this.openDB();
+    return new Promise((resolve, reject) => {
+      const tx = db.transaction(STORE_NAME, "readonly");
+      const request = tx.objectStore(STORE_NAME).getAll();
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async delete(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+    await this.write((store) => {
+      for (const id of ids) store.delete(id);
+    });
+  }
+
+  /** Delete every play started at or before `before`. */
+  async clear(before: number): Promise<void> {
+    await this.write((store) => {
+      const request = store
+        .index(STARTED_AT_INDEX)
+        .openKeyCursor(IDBKeyRange.upperBound(before));
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) return;
+        store.delete(cursor.primaryKey);
+        cursor.continue();
+      };
+    });
+  }
+
+  async clearAll(): Promise<void> {
+    await this.write((store) => store.clear());
+  }
+
+  // -- Private helpers --
+
+  private async write(apply: (store: IDBObjectStore) => void): Promise<void> {
+    const db = await this.openDB();
+    await new Promise<void>((resolve, reject) => {
+      const tx = db.transaction(STORE_NAME, "readwrite");
+      apply(tx.objectStore(STORE_NAME));
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+  }
+
+  private openDB(): Promise<IDBDatabase> {
+    if (this.dbPromise) return this.dbPromise;
+
+    this.dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE_NAME)) {
+          const store = db.createObjectStore(STORE_NAME, { keyPath: "id" });
+          store.createIndex(STARTED_AT_INDEX, "startedAt");
+        }
+      };
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+
+    return this.dbPromise;
+  }
+}
+
+/** Singleton play log for the entire app. */
+export const playLog = new PlayLog();
@@ -0,0 +1,68 @@
+/**
+ * Play sources -- where a play was started from, as recorded in the
+ * play log, and how listening history labels and links back to it.
+ */
+
+import type {
+  AlbumMinified,
+  ArtistMinified,
+  PlaySource,
+  PlaySourceType,
+  Playlist,
+  PlaylistSummary,
+} from "@/types/music";
+
+export function albumSource(album: AlbumMinified): PlaySource {
+  return { type: "album", id: album.id, name: album.title };
+}
+
+export function artistSource(artist: ArtistMinified): PlaySource {
+  return { type: "artist", id: artist.id, name: artist.name };
+}
+
+export function playlistSource(playlist: PlaylistSummary): PlaySource {
+  return { type: "playlist", id: playlist.id, name: playlist.title };
+}
+
+export function userPlaylistSource(playlist: Playlist): PlaySource {
+  return { type: "user-playlist", id: playlist.id, name: playlist.name };
+}
+
+const SOURCE_LABELS: Record<PlaySourceType, string> = {
+  album: "Album",
+  artist: "Artist",
+  playlist: "Playlist",
+  "user-playlist": "Playlist",
+  search: "Search",
+  favorites: "Favorites",
+  history: "History",
+  downloads: "Downloads",
+  radio: "Artist radio",
+  autoplay: "Autoplay",
+};
+
+/** "Album: Blue", "Autoplay" and so on. */
+export function describeSource(source: PlaySource): string {
+  const label = SOURCE_LABELS[source.type];
+  return source.name ? `${label}: ${source.name}` : label;
+}
+
+/** App route for the source, if it has a page of its own. */
+export function sourcePath(source: PlaySource): string | null {
+  if (!source.id && source.type !== "search") return null;
+  switch (source.type) {
+    case "album":
+      return `/album/${source.id}`;
+    case "artist":
+    case "radio":
+      return `/artist/${source.id}`;
+    case "playlist":
+      return `/playlist/${source.id}`;
+    case "user-playlist":
+      return `/library/playlists/${source.id}`;
+    case "search":
+      return source.name ? `/search/${encodeURIComponent(source.name)}` : null;
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,108 @@
+/**
+ * Play tracker -- measures how much of the current track was actually
+ * heard and decides when it counts as a play.
+ *
+ * A play is logged once it passes the scrobble threshold (half the
+ * track or four minutes, whichever comes first), and logged again with
+ * its final listening time when it ends. Plays that never reach the
+ * threshold -- a quick skip, say -- aren't logged at all.
+ */
+
+import { newRecordId } from "@/lib/pocketbase";
+import type { PlayEvent, PlaySource, Track } from "@/types/music";
+
+// A play counts after this share of the track...
+const SCROBBLE_FRACTION = 0.5;
+// ...or this many seconds, whichever is less
+const SCROBBLE_MAX_SECONDS = 240;
+// Larger jumps between time updates are seeks, not listening
+const MAX_STEP_SECONDS = 5;
+
+/** Seconds of `duration` that must be heard before a play counts. */
+export function scrobbleThreshold(duration: number): number {
+  return duration > 0
+    ? Math.min(duration * SCROBBLE_FRACTION, SCROBBLE_MAX_SECONDS)
+    : SCROBBLE_MAX_SECONDS;
+}
+
+/**
+ * `play` is the latest version of a logged play; `final` once it has
+ * ended and won't change again.
+ */
+export type PlayListener = (play: PlayEvent, final: boolean) => void;
+
+interface Session {
+  play: PlayEvent;
+  threshold: number;
+  /** Playback position at the last update, or null after a break. */
+  position: number | null;
+  logged: boolean;
+}
+
+export class PlayTracker {
+  private session: Session | null = null;
+  private listener: PlayListener;
+
+  constructor(listener: PlayListener) {
+    this.listener = listener;
+  }
+
+  get isTracking(): boolean {
+    return this.session !== null;
+  }
+
+  /** Start a new play, ending the current one as skipped. */
+  start(track: Track, source?: PlaySource): void {
+    this.finish(false);
+    this.session = {
+      play: {
+        id: newRecordId(),
+        track,
+        startedAt: Date.now(),
+        listened: 0,
+        completed: false,
+        ...(source ? { source } : {}),
+      },
+      threshold: scrobbleThreshold(track.duration),
+      position: null,
+      logged: false,
+    };
+  }
+
+  /** Feed the playback position; call on every time update. */
+  progress(position: number): void {
+    const session = this.session;
+    if (!session) return;
+
+    const step = session.position === null ? 0 : position - session.position;
+    session.position = position;
+    if (step <= 0 || step > MAX_STEP_SECONDS) return;
+
+    session.play.listened += step;
+    if (!session.logged && session.play.listened >= session.threshold) {
+      session.logged = true;
+      this.listener(this.snapshot(session), false);
+    }
+  }
+
+  /** Playback jumped (seek, restart); don't count the gap. */
+  interrupt(): void {
+    if (this.session) this.session.position = null;
+  }
+
+  /** End the current play; `completed` when it played to the end. */
+  finish(completed: boolean): void {
+    const session = this.session;
+    this.session = null;
+    if (!session?.logged) return;
+
+    session.play.completed = completed;
+    this.listener(this.snapshot(session), true);
+  }
+
+  // -- Private helpers --
+
+  private snapshot(session: Session): PlayEvent {
+    return { ...session.play, listened: Math.round(session.play.listened) };
+  }
+}
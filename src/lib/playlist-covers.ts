@@ -0,0 +1,84 @@
+/**
+ * Playlist covers -- images picked for a playlist that haven't been
+ * uploaded yet, kept in IndexedDB.
+ *
+ * Playlists persist to localStorage, which is too small for images.
+ * While its cover waits here a playlist's `cover` is LOCAL_COVER; the
+ * playlist store turns that into an object URL for display.
+ */
+
+const DB_NAME = "moonsway-playlist-covers";
+const DB_VERSION = 1;
+const STORE_NAME = "covers";
+
+/** `Playlist.cover` of a playlist whose cover is stored here. */
+export const LOCAL_COVER = "local-cover";
+
+interface CoverEntry {
+  playlistId: string;
+  blob: Blob;
+}
+
+class PlaylistCovers {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  // -- Public API --
+
+  async put(playlistId: string, blob: Blob): Promise<void> {
+    const entry: CoverEntry = { playlistId, blob };
+    await this.write((store) => store.put(entry));
+  }
+
+  async get(playlistId: string): Promise<Blob | null> {
+    const db = await this.openDB();
+    return new Promise((resolve, reject) => {
+      const tx = db.transaction(STORE_NAME, "readonly");
+      const request = tx.objectStore(STORE_NAME).get(playlistId);
+      request.onsuccess = () => resolve((request.result as CoverEntry | undefined)?.blob ?? null);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async delete(playlistId: string): Promise<void> {
+    await this.write((store) => store.delete(playlistId));
+  }
+
+  async clear(): Promise<void> {
+    await this.write((store) => store.clear());
+  }
+
+  // -- Private helpers --
+
+  private async write(apply: (store: IDBObjectStore) => void): Promise<void> {
+    const db = await this.openDB();
+    await new Promise<void>((resolve, reject) => {
+      const tx = db.transaction(STORE_NAME, "readwrite");
+      apply(tx.objectStore(STORE_NAME));
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+  }
+
+  private openDB(): Promise<IDBDatabase> {
+    if (this.dbPromise) return this.dbPromise;
+
+    this.dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE_NAME)) {
+          db.createObjectStore(STORE_NAME, { keyPath: "playlistId" });
+        }
+      };
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+
+    return this.dbPromise;
+  }
+}
+
+/** Singleton cover store for the entire app. */
+export const playlistCovers = new PlaylistCovers();
@@ -0,0 +1,102 @@
+/**
+ * User playlists on PocketBase -- mapping between the local `Playlist`
+ * shape and `playlists` records, plus the few remote calls the
+ * playlist store needs.
+ *
+ * Playlists get their PocketBase-compatible ID when they're created
+ * locally, so a playlist made while signed out keeps the same ID once
+ * it's pushed. Covers wait in IndexedDB (see lib/playlist-covers) until
+ * they've been uploaded; after that they point at the record's file URL.
+ */
+
+import { LOCAL_COVER, playlistCovers } from "@/lib/playlist-covers";
+import { isNotFound, pb, playlistsCollection } from "@/lib/pocketbase";
+import type { PBPlaylist, Playlist } from "@/types/music";
+
+// Longest side of an uploaded cover, in pixels
+const COVER_SIZE = 512;
+
+// -- Remote --
+
+export async function fetchRemotePlaylists(userId: string): Promise<Playlist[]> {
+  const records = await playlistsCollection().getFullList({
+    filter: pb.filter("user = {:user}", { user: userId }),
+    sort: "-updated",
+  });
+  return records.map(fromRecord);
+}
+
+/** Create or update the playlist's record and return it as stored. */
+export async function pushPlaylist(userId: string, playlist: Playlist): Promise<Playlist> {
+  const body: Record<string, unknown> = {
+    user: userId,
+    name: playlist.name,
+    description: playlist.description ?? "",
+    tracks: playlist.tracks,
+    is_public: playlist.isPublic,
+  };
+  // Remote covers are already uploaded; only send new or removed ones
+  if (!playlist.cover) {
+    body.cover = null;
+  } else if (playlist.cover === LOCAL_COVER) {
+    const blob = await playlistCovers.get(playlist.id);
+    if (blob) body.cover = new File([blob], "cover.jpg", { type: blob.type });
+  }
+
+  try {
+    return fromRecord(await playlistsCollection().update(playlist.id, body));
+  } catch (error) {
+    if (!isNotFound(error)) throw error;
+    return fromRecord(await playlistsCollection().create({ id: playlist.id, ...body }));
+  }
+}
+
+export async function deleteRemotePlaylist(id: string): Promise<void> {
+  try {
+    await playlistsCollection().delete(id);
+  } catch (error) {
+    // Never pushed, or already deleted elsewhere
+    if (!isNotFound(error)) throw error;
+  }
+}
+
+// -- Covers --
+
+/** Scale an image file down to cover size and encode it as a JPEG. */
+export async function readCoverFile(file: File): Promise<Blob> {
+  const bitmap = await createImageBitmap(file);
+  const scale = Math.min(1, COVER_SIZE / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.round(bitmap.width * scale);
+  canvas.height = Math.round(bitmap.height * scale);
+
+  const context = canvas.getContext("2d");
+  if (!context) throw new Error("Canvas is not available");
+  context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error("Could not encode the cover"))),
+      "image/jpeg",
+      0.85
+    );
+  });
+}
+
+// -- Private helpers --
+
+function fromRecord(record: PBPlaylist): Playlist {
+  const tracks = Array.isArray(record.tracks) ? record.tracks : [];
+  return {
+    id: record.id,
+    name: record.name,
+    description: record.description || undefined,
+    cover: record.cover ? pb.files.getURL(record, record.cover) : undefined,
+    tracks,
+    isPublic: record.is_public,
+    numberOfTracks: tracks.length,
+    createdAt: record.created,
+    updatedAt: record.updated,
+  };
+}
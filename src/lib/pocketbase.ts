@@ -1,4 +1,4 @@
-import PocketBase from "pocketbase";
+import PocketBase, { ClientResponseError } from "pocketbase";
 import type { RecordService, RecordModel } from "pocketbase";
 import type {
   PBFavorite,
@@ -9,11 +9,44 @@ import type {
 
 const POCKETBASE_URL = "http://127.0.0.1:8090";
 
+// PocketBase record IDs: 15 chars of [a-z0-9]
+const ID_LENGTH = 15;
+const ID_ALPHABET = "abcdefghijklmnopqrstuvwxyz0123456789";
+
 export const pb = new PocketBase(POCKETBASE_URL);
 
 // Disable auto-cancellation for real-time subscriptions
 pb.autoCancellation(false);
 
+/** ID of the signed-in user, or null when signed out. */
+export function currentUserId(): string | null {
+  return pb.authStore.isValid ? (pb.authStore.record?.id ?? null) : null;
+}
+
+/**
+ * A new ID in PocketBase's format, for records created locally before
+ * they reach the server.
+ */
+export function newRecordId(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(ID_LENGTH));
+  return Array.from(bytes, (byte) => ID_ALPHABET[byte % ID_ALPHABET.length]).join("");
+}
+
+export function isNotFound(error: unknown): boolean {
+  return error instanceof ClientResponseError && error.status === 404;
+}
+
+/**
+ * Milliseconds since epoch for a record date; 0 when missing or invalid.
+ * Also accepts plain ISO strings.
+ */
+export function parseTimestamp(value: string | undefined): number {
+  if (!value) return 0;
+  // PocketBase writes "2024-01-01 12:00:00.000Z"
+  const time = Date.parse(value.replace(" ", "T"));
+  return Number.isNaN(time) ? 0 : time;
+}
+
 // -- Typed collection accessors --
 
 export function usersCollection(): RecordService<RecordModel> {
@@ -0,0 +1,53 @@
+/**
+ * Stream quality ladder and display labels.
+ *
+ * When a quality fails to resolve or play, the player steps down the
+ * ladder until something works.
+ */
+
+import type { StreamQuality } from "@/types/music";
+
+export const QUALITY_LADDER: StreamQuality[] = [
+  "HI_RES_LOSSLESS",
+  "LOSSLESS",
+  "HIGH",
+  "LOW",
+];
+
+export const QUALITY_LABELS: Record<
+  StreamQuality,
+  { label: string; badge: string; description: string }
+> = {
+  HI_RES_LOSSLESS: {
+    label: "Hi-Res Lossless",
+    badge: "HI-RES",
+    description: "FLAC up to 24-bit/192 kHz",
+  },
+  LOSSLESS: {
+    label: "Lossless",
+    badge: "LOSSLESS",
+    description: "FLAC 16-bit/44.1 kHz",
+  },
+  HIGH: {
+    label: "High",
+    badge: "HIGH",
+    description: "AAC 320 kbps",
+  },
+  LOW: {
+    label: "Low",
+    badge: "LOW",
+    description: "AAC 96 kbps",
+  },
+};
+
+export function isStreamQuality(value: unknown): value is StreamQuality {
+  return QUALITY_LADDER.includes(value as StreamQuality);
+}
+
+/**
+ * Qualities to try, best first, starting at `preferred`.
+ */
+export function qualityLadderFrom(preferred: StreamQuality): StreamQuality[] {
+  const start = QUALITY_LADDER.indexOf(preferred);
+  return QUALITY_LADDER.slice(Math.max(0, start));
+}
@@ -0,0 +1,192 @@
+import { describe, expect, it } from "vitest";
+import {
+  append,
+  createEntries,
+  createQueue,
+  currentEntry,
+  enqueue,
+  followingIndex,
+  insertNext,
+  originalEntries,
+  precedingIndex,
+  remove,
+  shuffle,
+  skipTo,
+  unshuffle,
+  type QueueEntry,
+  type QueueModel,
+} from "@/lib/queue";
+import type { Track } from "@/types/music";
+
+function track(id: string): Track {
+  return {
+    id,
+    title: `Track ${id}`,
+    duration: 180,
+    artist: { id: "ar1", name: "Artist" },
+    album: { id: "al1", title: "Album", artist: { id: "ar1", name: "Artist" } },
+  };
+}
+
+function queueOf(ids: string[], startIndex = 0): QueueModel {
+  return createQueue(ids.map(track), startIndex);
+}
+
+function playOrder(model: QueueModel): string[] {
+  return model.entries.map((entry) => entry.track.id);
+}
+
+function currentId(model: QueueModel): string | undefined {
+  return currentEntry(model)?.track.id;
+}
+
+const reversed = (entries: QueueEntry[]) => [...entries].reverse();
+
+describe("createQueue", () => {
+  it("starts at the given index, clamped to the queue", () => {
+    expect(currentId(queueOf(["a", "b", "c"], 1))).toBe("b");
+    expect(currentId(queueOf(["a", "b", "c"], 9))).toBe("c");
+    expect(queueOf([]).currentIndex).toBe(-1);
+  });
+
+  it("gives the same track a different uid each time it's queued", () => {
+    const model = createQueue([track("a"), track("a")]);
+    expect(model.entries[0].uid).not.toBe(model.entries[1].uid);
+  });
+});
+
+describe("shuffle", () => {
+  it("puts the current entry first and keeps playing it", () => {
+    const model = shuffle(queueOf(["a", "b", "c", "d"], 2), reversed);
+    expect(playOrder(model)).toEqual(["c", "d", "b", "a"]);
+    expect(model.currentIndex).toBe(0);
+    expect(currentId(model)).toBe("c");
+  });
+
+  it("remembers the queued order", () => {
+    const model = shuffle(queueOf(["a", "b", "c"]), reversed);
+    expect(originalEntries(model).map((entry) => entry.track.id)).toEqual(["a", "b", "c"]);
+  });
+
+  it("keeps the first queued order when shuffled twice", () => {
+    const once = shuffle(queueOf(["a", "b", "c", "d"]), reversed);
+    const twice = shuffle(skipTo(once, 2), reversed);
+    expect(currentId(twice)).toBe(currentId(skipTo(once, 2)));
+    expect(originalEntries(twice).map((entry) => entry.track.id)).toEqual(["a", "b", "c", "d"]);
+  });
+
+  it("has no current entry when nothing was playing", () => {
+    const model = shuffle({ ...queueOf(["a", "b"]), currentIndex: -1 }, reversed);
+    expect(model.currentIndex).toBe(-1);
+    expect(playOrder(model)).toEqual(["b", "a"]);
+  });
+});
+
+describe("unshuffle", () => {
+  it("restores the queued order and stays on the current entry", () => {
+    const shuffled = skipTo(shuffle(queueOf(["a", "b", "c", "d"], 1), reversed), 2);
+    expect(currentId(shuffled)).toBe("c");
+
+    const model = unshuffle(shuffled);
+    expect(playOrder(model)).toEqual(["a", "b", "c", "d"]);
+    expect(currentId(model)).toBe("c");
+    expect(model.originalOrder).toBeNull();
+  });
+
+  it("leaves an unshuffled queue alone", () => {
+    const model = queueOf(["a", "b"]);
+    expect(unshuffle(model)).toBe(model);
+  });
+});
+
+describe("adding entries", () => {
+  it("appends without moving the current entry", () => {
+    const model = append(queueOf(["a", "b"], 1), createEntries([track("c")]));
+    expect(playOrder(model)).toEqual(["a", "b", "c"]);
+    expect(currentId(model)).toBe("b");
+  });
+
+  it("inserts after the current entry", () => {
+    const model = insertNext(queueOf(["a", "b", "c"], 1), createEntries([track("x"), track("y")]));
+    expect(playOrder(model)).toEqual(["a", "b", "x", "y", "c"]);
+    expect(currentId(model)).toBe("b");
+  });
+
+  it("queues ahead of upcoming autoplay picks", () => {
+    const withAutoplay = append(queueOf(["a", "b"]), createEntries([track("auto")], { autoplay: true }));
+    const model = enqueue(withAutoplay, createEntries([track("x")]));
+    expect(playOrder(model)).toEqual(["a", "b", "x", "auto"]);
+    expect(currentId(model)).toBe("a");
+  });
+
+  it("keeps entries added while shuffled after unshuffling", () => {
+    const shuffled = shuffle(queueOf(["a", "b", "c"], 1), reversed);
+    const next = insertNext(shuffled, createEntries([track("x")]));
+    const last = append(next, createEntries([track("z")]));
+    expect(currentId(last)).toBe("b");
+    expect(playOrder(last)).toEqual(["b", "x", "c", "a", "z"]);
+
+    const model = unshuffle(last);
+    expect(playOrder(model)).toEqual(["a", "b", "x", "c", "z"]);
+    expect(currentId(model)).toBe("b");
+  });
+});
+
+describe("remove", () => {
+  it("shifts the current index past removed earlier entries", () => {
+    const model = queueOf(["a", "b", "c", "d"], 2);
+    const removed = remove(model, [model.entries[0].uid, model.entries[3].uid]);
+    expect(playOrder(removed)).toEqual(["b", "c"]);
+    expect(currentId(removed)).toBe("c");
+  });
+
+  it("never removes the current entry", () => {
+    const model = queueOf(["a", "b", "c"], 1);
+    const removed = remove(model, [model.entries[1].uid]);
+    expect(removed).toBe(model);
+  });
+
+  it("removes entries from the queued order too while shuffled", () => {
+    const shuffled = shuffle(queueOf(["a", "b", "c", "d"], 0), reversed);
+    const dropped = shuffled.entries.find((entry) => entry.track.id === "c");
+    const removed = remove(shuffled, [dropped!.uid]);
+    expect(currentId(removed)).toBe("a");
+
+    const model = unshuffle(removed);
+    expect(playOrder(model)).toEqual(["a", "b", "d"]);
+    expect(currentId(model)).toBe("a");
+  });
+});
+
+describe("repeat", () => {
+  it("stops at the end of the queue without repeat", () => {
+    const model = queueOf(["a", "b", "c"], 2);
+    expect(followingIndex(model, false)).toBeNull();
+    expect(followingIndex(skipTo(model, 1), false)).toBe(2);
+  });
+
+  it("wraps to the start with repeat all", () => {
+    const model = queueOf(["a", "b", "c"], 2);
+    const wrapped = skipTo(model, followingIndex(model, true)!);
+    expect(currentId(wrapped)).toBe("a");
+  });
+
+  it("goes back to the end from the start with repeat all", () => {
+    const model = queueOf(["a", "b", "c"], 0);
+    expect(precedingIndex(model, false)).toBe(0);
+    expect(currentId(skipTo(model, precedingIndex(model, true)))).toBe("c");
+  });
+
+  it("wraps through the shuffled order, not the queued one", () => {
+    const model = shuffle(queueOf(["a", "b", "c"], 1), reversed);
+    expect(playOrder(model)).toEqual(["b", "c", "a"]);
+
+    const last = skipTo(model, 2);
+    expect(currentId(last)).toBe("a");
+    expect(currentId(skipTo(last, followingIndex(last, true)!))).toBe("b");
+  });
+
+  it("has nothing to wrap to in an empty queue", () => {
+    expect(followingIndex(queueOf([]), true)).toBeNull();
+  });
+});
@@ -0,0 +1,242 @@
+/**
+ * Queue model -- play order, original order and position in one value.
+ *
+ * Every entry gets a `uid` when it's queued, so the same track can sit
+ * in the queue twice and still be moved, removed or found again after
+ * a shuffle. `entries` is the play order and the only list of entries;
+ * while shuffled, `originalOrder` remembers the order they were queued
+ * in so the shuffle can be undone. Functions never mutate the model
+ * they're given.
+ */
+
+import type { PlaySource, Track } from "@/types/music";
+
+// -- Types --
+
+export type RepeatMode = "off" | "all" | "one";
+
+export interface QueueEntry {
+  uid: string;
+  track: Track;
+  /** Picked by autoplay rather than queued by the user. */
+  autoplay?: boolean;
+  /** Where the entry was queued from, for the play log. */
+  source?: PlaySource;
+}
+
+export interface QueueModel {
+  /** Entries in play order. */
+  entries: QueueEntry[];
+  /** Index into `entries` of what's playing, or -1. */
+  currentIndex: number;
+  /** Entry uids in queued order while shuffled; null when not shuffled. */
+  originalOrder: string[] | null;
+}
+
+export const EMPTY_QUEUE: QueueModel = {
+  entries: [],
+  currentIndex: -1,
+  originalOrder: null,
+};
+
+// -- Construction --
+
+let uidCounter = 0;
+
+export function createEntries(
+  tracks: Track[],
+  options: { autoplay?: boolean; source?: PlaySource } = {}
+): QueueEntry[] {
+  return tracks.map((track) => ({
+    uid: `q${(++uidCounter).toString(36)}`,
+    track,
+    ...(options.autoplay ? { autoplay: true } : {}),
+    ...(options.source ? { source: options.source } : {}),
+  }));
+}
+
+export function createQueue(tracks: Track[], startIndex = 0, source?: PlaySource): QueueModel {
+  const entries = createEntries(tracks, { source });
+  return {
+    entries,
+    currentIndex:
+      entries.length > 0 ? Math.max(0, Math.min(startIndex, entries.length - 1)) : -1,
+    originalOrder: null,
+  };
+}
+
+// -- Reading --
+
+export function currentEntry(model: QueueModel): QueueEntry | undefined {
+  return model.entries[model.currentIndex];
+}
+
+/** Entries in the order they were queued. */
+export function originalEntries(model: QueueModel): QueueEntry[] {
+  if (!model.originalOrder) return model.entries;
+
+  const byUid = new Map(model.entries.map((entry) => [entry.uid, entry]));
+  return model.originalOrder
+    .map((uid) => byUid.get(uid))
+    .filter((entry): entry is QueueEntry => entry !== undefined);
+}
+
+/** Index after the current entry, wrapping to the start when `wrap`. */
+export function followingIndex(model: QueueModel, wrap: boolean): number | null {
+  const next = model.currentIndex + 1;
+  if (next < model.entries.length) return next;
+  return wrap && model.entries.length > 0 ? 0 : null;
+}
+
+/** Index before the current entry, wrapping to the end when `wrap`. */
+export function precedingIndex(model: QueueModel, wrap: boolean): number {
+  const prev = model.currentIndex - 1;
+  if (prev >= 0) return prev;
+  return wrap ? model.entries.length - 1 : 0;
+}
+
+// -- Editing --
+
+export function skipTo(model: QueueModel, index: number): QueueModel {
+  if (index < 0 || index >= model.entries.length) return model;
+  return { ...model, currentIndex: index };
+}
+
+/**
+ * Insert entries at a play-order position. While shuffled they also go
+ * into the original order -- after the current entry or at the end.
+ */
+function insertAt(
+  model: QueueModel,
+  at: number,
+  added: QueueEntry[],
+  originalPlacement: "afterCurrent" | "end"
+): QueueModel {
+  if (added.length === 0) return model;
+
+  const entries = [...model.entries.slice(0, at), ...added, ...model.entries.slice(at)];
+  const currentIndex =
+    model.currentIndex >= at ? model.currentIndex + added.length : model.currentIndex;
+
+  let originalOrder = model.originalOrder;
+  if (originalOrder) {
+    const uids = added.map((entry) => entry.uid);
+    const current = currentEntry(model);
+    const anchor =
+      originalPlacement === "afterCurrent" && current
+        ? originalOrder.indexOf(current.uid) + 1
+        : originalOrder.length;
+    originalOrder = [...originalOrder.slice(0, anchor), ...uids, ...originalOrder.slice(anchor)];
+  }
+
+  return { entries, currentIndex, originalOrder };
+}
+
+/** Add entries at the very end, after any autoplay picks. */
+export function append(model: QueueModel, added: QueueEntry[]): QueueModel {
+  return insertAt(model, model.entries.length, added, "end");
+}
+
+/**
+ * Add entries the user queued: after the current entry and anything
+ * they queued before, but ahead of upcoming autoplay picks.
+ */
+export function enqueue(model: QueueModel, added: QueueEntry[]): QueueModel {
+  let at = model.entries.length;
+  for (let i = model.currentIndex + 1; i < model.entries.length; i++) {
+    if (model.entries[i].autoplay) {
+      at = i;
+      break;
+    }
+  }
+  return insertAt(model, at, added, "end");
+}
+
+/** Add entries right after the current one ("Play next"). */
+export function insertNext(model: QueueModel, added: QueueEntry[]): QueueModel {
+  return insertAt(model, model.currentIndex + 1, added, "afterCurrent");
+}
+
+/**
+ * Move an entry to another play-order position. While shuffled only
+ * the play order changes. An autoplay pick the user moves counts as
+ * queued by them from then on.
+ */
+export function move(model: QueueModel, from: number, to: number): QueueModel {
+  const count = model.entries.length;
+  if (from === to || from < 0 || to < 0 || from >= count || to >= count) return model;
+
+  const entries = [...model.entries];
+  const [entry] = entries.splice(from, 1);
+  entries.splice(to, 0, entry.autoplay ? { uid: entry.uid, track: entry.track } : entry);
+
+  const current = currentEntry(model);
+  const currentIndex = current
+    ? entries.findIndex((e) => e.uid === current.uid)
+    : model.currentIndex;
+
+  return { ...model, entries, currentIndex };
+}
+
+/** Remove entries by uid. The current entry is never removed. */
+export function remove(model: QueueModel, uids: Iterable<string>): QueueModel {
+  const current = currentEntry(model);
+  const drop = new Set(uids);
+  if (current) drop.delete(current.uid);
+  if (drop.size === 0) return model;
+
+  const entries = model.entries.filter((entry) => !drop.has(entry.uid));
+  return {
+    entries,
+    currentIndex: current ? entries.indexOf(current) : model.currentIndex,
+    originalOrder: model.originalOrder?.filter((uid) => !drop.has(uid)) ?? null,
+  };
+}
+
+/**
+ * Drop played entries beyond the `keep` most recent, so an endless
+ * queue doesn't grow without bound.
+ */
+export function trimHistory(model: QueueModel, keep: number): QueueModel {
+  const drop = model.currentIndex - keep;
+  if (drop <= 0) return model;
+  return remove(
+    model,
+    model.entries.slice(0, drop).map((entry) => entry.uid)
+  );
+}
+
+// -- Shuffle --
+
+/**
+ * Shuffle everything except the current entry, which plays first.
+ * `order` decides the new order of the rest. Shuffling again keeps the
+ * original order from the first shuffle.
+ */
+export function shuffle(
+  model: QueueModel,
+  order: (entries: QueueEntry[]) => QueueEntry[]
+): QueueModel {
+  const current = currentEntry(model);
+  const rest = model.entries.filter((entry) => entry !== current);
+  const entries = current ? [current, ...order(rest)] : order(rest);
+
+  return {
+    entries,
+    currentIndex: current ? 0 : -1,
+    originalOrder: model.originalOrder ?? model.entries.map((entry) => entry.uid),
+  };
+}
+
+/** Back to the queued order, staying on the current entry. */
+export function unshuffle(model: QueueModel): QueueModel {
+  if (!model.originalOrder) return model;
+
+  const current = currentEntry(model);
+  const entries = originalEntries(model);
+  return {
+    entries,
+    currentIndex: current ? entries.indexOf(current) : -1,
+    originalOrder: null,
+  };
+}
@@ -0,0 +1,127 @@
+/**
+ * ArtistRadio -- an endless station seeded by one artist.
+ *
+ * Each batch mixes the seed artist's top tracks with top tracks from
+ * related artists. When the related artists are used up it widens to
+ * artists related to *those*, so the station keeps going; tracks that
+ * were already handed out are skipped until everything reachable has
+ * played once.
+ */
+
+import { getArtist, getSimilarArtists } from "@/lib/api/music-api";
+import { fisherYates as shuffle } from "@/lib/shuffle";
+import type { ArtistMinified, Track } from "@/types/music";
+
+const BATCH_SIZE = 10;
+// Share of each batch that comes from the seed artist
+const SEED_SHARE = 0.3;
+// Tracks taken from one related artist per batch
+const TRACKS_PER_ARTIST = 2;
+// Related artists to try per batch before settling for a short one
+const MAX_ARTISTS_PER_BATCH = 12;
+
+export class ArtistRadio {
+  readonly seed: ArtistMinified;
+
+  private played = new Set<string>();
+  private topTracks = new Map<string, Track[]>();
+  // Related artists waiting to be drawn, already drawn, and not yet explored
+  private pool: ArtistMinified[] = [];
+  private drawn: ArtistMinified[] = [];
+  private toExpand: string[];
+  private seen: Set<string>;
+
+  constructor(seed: ArtistMinified) {
+    this.seed = seed;
+    this.toExpand = [seed.id];
+    this.seen = new Set([seed.id]);
+  }
+
+  /** The next tracks for the queue. Empty only if nothing can be found. */
+  async nextBatch(): Promise<Track[]> {
+    let batch = await this.collect();
+
+    // Everything reachable has played -- start over rather than stop
+    if (batch.length === 0 && this.played.size > 0) {
+      this.played.clear();
+      batch = await this.collect();
+    }
+
+    batch.forEach((track) => this.played.add(track.id));
+    return shuffle(batch);
+  }
+
+  // -- Private helpers --
+
+  private async collect(): Promise<Track[]> {
+    const batch: Track[] = [];
+    const take = (tracks: Track[], count: number) => {
+      for (const track of tracks) {
+        if (count <= 0) break;
+        if (this.played.has(track.id) || batch.some((t) => t.id === track.id)) continue;
+        batch.push(track);
+        count--;
+      }
+    };
+
+    const seedTracks = await this.tracksOf(this.seed.id);
+    take(shuffle(seedTracks), Math.ceil(BATCH_SIZE * SEED_SHARE));
+
+    for (let tried = 0; batch.length < BATCH_SIZE && tried < MAX_ARTISTS_PER_BATCH; tried++) {
+      const artist = await this.nextRelatedArtist();
+      if (!artist) break;
+      take(shuffle(await this.tracksOf(artist.id)), TRACKS_PER_ARTIST);
+    }
+
+    // Not enough related material -- pad with the seed artist
+    if (batch.length < BATCH_SIZE) take(shuffle(seedTracks), BATCH_SIZE - batch.length);
+
+    return batch;
+  }
+
+  /**
+   * Draw the next related artist, exploring further out once the
+   * current pool is used up. When there's nowhere left to explore,
+   * previously drawn artists are reshuffled into the pool.
+   */
+  private async nextRelatedArtist(): Promise<ArtistMinified | null> {
+    while (this.pool.length === 0 && this.toExpand.length > 0) {
+      const id = this.toExpand.shift()!;
+      try {
+        const related = await getSimilarArtists(id);
+        for (const artist of related) {
+          if (this.seen.has(artist.id)) continue;
+          this.seen.add(artist.id);
+          this.pool.push(artist);
+          this.toExpand.push(artist.id);
+        }
+      } catch (error) {
+        console.warn(`[Radio] Could not load artists related to ${id}:`, error);
+      }
+    }
+
+    if (this.pool.length === 0) {
+      this.pool = shuffle(this.drawn);
+      this.drawn = [];
+    }
+
+    const artist = this.pool.shift() ?? null;
+    if (artist) this.drawn.push(artist);
+    return artist;
+  }
+
+  private async tracksOf(artistId: string): Promise<Track[]> {
+    const cached = this.topTracks.get(artistId);
+    if (cached) return cached;
+
+    try {
+      const { tracks } = await getArtist(artistId);
+      this.topTracks.set(artistId, tracks);
+      return tracks;
+    } catch (error) {
+      console.warn(`[Radio] Could not load tracks for artist ${artistId}:`, error);
+      this.topTracks.set(artistId, []);
+      return [];
+    }
+  }
+}
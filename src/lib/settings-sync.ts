@@ -0,0 +1,42 @@
+/**
+ * Settings on PocketBase -- one `settings` record per user and key.
+ */
+
+import { parseTimestamp, pb, settingsCollection } from "@/lib/pocketbase";
+import { isSettingKey, parseSetting, type SettingKey } from "@/lib/settings";
+
+export interface RemoteSetting {
+  key: SettingKey;
+  value: unknown;
+  /** Last change on the server, ms since epoch. */
+  updatedAt: number;
+}
+
+/** The user's stored settings, skipping unknown keys and invalid values. */
+export async function fetchRemoteSettings(userId: string): Promise<RemoteSetting[]> {
+  const records = await settingsCollection().getFullList({
+    filter: pb.filter("user = {:user}", { user: userId }),
+  });
+
+  const settings: RemoteSetting[] = [];
+  for (const record of records) {
+    if (!isSettingKey(record.key)) continue;
+    const value = parseSetting(record.key, record.value);
+    if (value === undefined) continue;
+    settings.push({ key: record.key, value, updatedAt: parseTimestamp(record.updated) });
+  }
+  return settings;
+}
+
+/** Create or update the record for `key`. */
+export async function pushSetting(userId: string, key: SettingKey, value: unknown): Promise<void> {
+  const { items } = await settingsCollection().getList(1, 1, {
+    filter: pb.filter("user = {:user} && key = {:key}", { user: userId, key }),
+  });
+
+  if (items[0]) {
+    await settingsCollection().update(items[0].id, { value });
+  } else {
+    await settingsCollection().create({ user: userId, key, value });
+  }
+}
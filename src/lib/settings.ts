@@ -0,0 +1,299 @@
+/**
+ * Settings registry -- every user setting with its type, default,
+ * validation and where it shows up on the settings page.
+ *
+ * Values are validated with `parse()` wherever they come from
+ * (localStorage, PocketBase, old storage keys), so a bad value falls
+ * back to the default instead of reaching the player. Settings marked
+ * `sync: false` belong to the device (volume, for one) and never leave
+ * it.
+ */
+
+import { MAX_CROSSFADE_SECONDS } from "@/lib/audio/playback-engine";
+import {
+  NORMALIZATION_LABELS,
+  NORMALIZATION_MODES,
+  type NormalizationMode,
+} from "@/lib/audio/normalization";
+import { QUALITY_LABELS, QUALITY_LADDER } from "@/lib/quality";
+import { SHUFFLE_MODE_LABELS, SHUFFLE_MODES, type ShuffleMode } from "@/lib/shuffle";
+import type { RepeatMode } from "@/lib/queue";
+import type { StreamQuality } from "@/types/music";
+
+// -- Types --
+
+export type SettingsSectionId = "playback" | "queue" | "search";
+
+export const SETTINGS_SECTIONS: { id: SettingsSectionId; title: string; description: string }[] =
+  [
+    { id: "playback", title: "Playback", description: "Audio quality and how tracks play" },
+    { id: "queue", title: "Queue", description: "Shuffle, repeat and what plays next" },
+    { id: "search", title: "Search", description: "Search history on this device" },
+  ];
+
+interface SettingBase<T> {
+  section: SettingsSectionId;
+  label: string;
+  description?: string;
+  default: T;
+  /** Follow the user across devices. */
+  sync: boolean;
+  /** Set from elsewhere in the app; not listed on the settings page. */
+  hidden?: boolean;
+  /** The value if it's valid for this setting, otherwise undefined. */
+  parse: (value: unknown) => T | undefined;
+}
+
+export interface BooleanSetting extends SettingBase<boolean> {
+  type: "boolean";
+}
+
+export interface NumberSetting extends SettingBase<number> {
+  type: "number";
+  min: number;
+  max: number;
+  step: number;
+  format: (value: number) => string;
+}
+
+export interface ChoiceSetting<T extends string = string> extends SettingBase<T> {
+  type: "choice";
+  options: { value: T; label: string; description?: string }[];
+}
+
+export interface ListSetting extends SettingBase<string[]> {
+  type: "list";
+  maxItems: number;
+}
+
+export type SettingDefinition = BooleanSetting | NumberSetting | ChoiceSetting | ListSetting;
+
+// -- Definition helpers --
+
+type Options<S extends SettingDefinition> = Omit<S, "type" | "parse">;
+
+function booleanSetting(options: Options<BooleanSetting>): BooleanSetting {
+  return {
+    ...options,
+    type: "boolean",
+    parse: (value) => (typeof value === "boolean" ? value : undefined),
+  };
+}
+
+function numberSetting(options: Options<NumberSetting>): NumberSetting {
+  return {
+    ...options,
+    type: "number",
+    parse: (value) =>
+      typeof value === "number" && Number.isFinite(value)
+        ? Math.min(options.max, Math.max(options.min, value))
+        : undefined,
+  };
+}
+
+function choiceSetting<T extends string>(options: Options<ChoiceSetting<T>>): ChoiceSetting<T> {
+  return {
+    ...options,
+    type: "choice",
+    parse: (value) => options.options.find((option) => option.value === value)?.value,
+  };
+}
+
+function listSetting(options: Options<ListSetting>): ListSetting {
+  return {
+    ...options,
+    type: "list",
+    parse: (value) =>
+      Array.isArray(value)
+        ? value
+            .filter((item): item is string => typeof item === "string")
+            .slice(0, options.maxItems)
+        : undefined,
+  };
+}
+
+// -- Registry --
+
+export const SETTINGS = {
+  "playback.quality": choiceSetting<StreamQuality>({
+    section: "playback",
+    label: "Streaming quality",
+    description: "Tracks step down from here when a quality isn't available",
+    default: "HI_RES_LOSSLESS",
+    sync: true,
+    options: QUALITY_LADDER.map((quality) => ({
+      value: quality,
+      label: QUALITY_LABELS[quality].label,
+      description: QUALITY_LABELS[quality].description,
+    })),
+  }),
+  "playback.revertQuality": booleanSetting({
+    section: "playback",
+    label: "Retry the chosen quality for each track",
+    description: "After a fallback, start the next track at the chosen quality again",
+    default: true,
+    sync: true,
+  }),
+  "playback.crossfade": numberSetting({
+    section: "playback",
+    label: "Crossfade",
+    description: "Blend into the next track; 0 plays gaplessly",
+    default: 0,
+    sync: true,
+    min: 0,
+    max: MAX_CROSSFADE_SECONDS,
+    step: 1,
+    format: (seconds) => (seconds === 0 ? "Off" : `${seconds}s`),
+  }),
+  "playback.normalization": choiceSetting<NormalizationMode>({
+    section: "playback",
+    label: "Loudness normalization",
+    default: "off",
+    sync: true,
+    options: NORMALIZATION_MODES.map((mode) => ({
+      value: mode,
+      label: NORMALIZATION_LABELS[mode].label,
+      description: NORMALIZATION_LABELS[mode].description,
+    })),
+  }),
+  "playback.volume": numberSetting({
+    section: "playback",
+    label: "Volume",
+    default: 1,
+    sync: false,
+    min: 0,
+    max: 1,
+    step: 0.01,
+    format: (volume) => `${Math.round(volume * 100)}%`,
+  }),
+  "playback.muted": booleanSetting({
+    section: "playback",
+    label: "Muted",
+    default: false,
+    sync: false,
+    hidden: true,
+  }),
+  "queue.repeat": choiceSetting<RepeatMode>({
+    section: "queue",
+    label: "Repeat",
+    default: "off",
+    sync: true,
+    options: [
+      { value: "off", label: "Off" },
+      { value: "all", label: "Queue" },
+      { value: "one", label: "Track" },
+    ],
+  }),
+  "queue.autoplay": booleanSetting({
+    section: "queue",
+    label: "Autoplay similar tracks when the queue ends",
+    default: false,
+    sync: true,
+  }),
+  "queue.shuffleMode": choiceSetting<ShuffleMode>({
+    section: "queue",
+    label: "Shuffle",
+    default: "standard",
+    sync: true,
+    options: SHUFFLE_MODES.map((mode) => ({
+      value: mode,
+      label: SHUFFLE_MODE_LABELS[mode].label,
+      description: SHUFFLE_MODE_LABELS[mode].description,
+    })),
+  }),
+  "queue.shuffleFavorites": booleanSetting({
+    section: "queue",
+    label: "Play favorite tracks earlier in smart shuffle",
+    default: false,
+    sync: true,
+  }),
+  "search.recentSearches": listSetting({
+    section: "search",
+    label: "Recent searches",
+    default: [],
+    sync: false,
+    maxItems: 6,
+  }),
+};
+
+export type SettingKey = keyof typeof SETTINGS;
+
+export type SettingValue<K extends SettingKey> = (typeof SETTINGS)[K]["default"];
+
+export type SettingValues = { [K in SettingKey]: SettingValue<K> };
+
+export const SETTING_KEYS = Object.keys(SETTINGS) as SettingKey[];
+
+export function isSettingKey(value: string): value is SettingKey {
+  return Object.hasOwn(SETTINGS, value);
+}
+
+export function defaultSettings(): SettingValues {
+  return Object.fromEntries(
+    SETTING_KEYS.map((key) => [key, SETTINGS[key].default])
+  ) as SettingValues;
+}
+
+/** `value` validated for `key`, or undefined if it isn't a valid value. */
+export function parseSetting<K extends SettingKey>(
+  key: K,
+  value: unknown
+): SettingValue<K> | undefined {
+  return (SETTINGS[key] as SettingBase<SettingValue<K>>).parse(value);
+}
+
+// -- Migration --
+
+const LEGACY_PLAYER_KEY = "moonsway-player-state";
+const LEGACY_RECENT_SEARCHES_KEY = "moonsway-recent-searches";
+
+// Fields of the old player snapshot that are settings now
+const LEGACY_PLAYER_FIELDS: Partial<Record<string, SettingKey>> = {
+  quality: "playback.quality",
+  revertQuality: "playback.revertQuality",
+  crossfade: "playback.crossfade",
+  normalization: "playback.normalization",
+  volume: "playback.volume",
+  isMuted: "playback.muted",
+  repeatMode: "queue.repeat",
+  autoplay: "queue.autoplay",
+  shuffleMode: "queue.shuffleMode",
+  shuffleFavorites: "queue.shuffleFavorites",
+};
+
+/**
+ * Settings saved under the storage keys used before the registry
+ * existed. The old recent-searches key is removed once read; the
+ * player snapshot stays, since it also holds the queue.
+ */
+export function readLegacySettings(): Partial<SettingValues> {
+  const values: Partial<Record<SettingKey, unknown>> = {};
+
+  const player = readJson(LEGACY_PLAYER_KEY);
+  if (player && typeof player === "object") {
+    for (const [field, value] of Object.entries(player)) {
+      const key = LEGACY_PLAYER_FIELDS[field];
+      const parsed = key ? parseSetting(key, value) : undefined;
+      if (key && parsed !== undefined) values[key] = parsed;
+    }
+  }
+
+  const searches = parseSetting("search.recentSearches", readJson(LEGACY_RECENT_SEARCHES_KEY));
+  if (searches) values["search.recentSearches"] = searches;
+  try {
+    localStorage.removeItem(LEGACY_RECENT_SEARCHES_KEY);
+  } catch {
+    // Ignore storage failures (private mode/quota)
+  }
+
+  return values as Partial<SettingValues>;
+}
+
+function readJson(key: string): unknown {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? JSON.parse(raw) : undefined;
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import { fisherYates, isShuffleMode, smartShuffle } from "@/lib/shuffle";
+import { createEntries, type QueueEntry } from "@/lib/queue";
+import type { Track } from "@/types/music";
+
+function track(id: string, artistId = "ar1", albumId = "al1"): Track {
+  const artist = { id: artistId, name: `Artist ${artistId}` };
+  return {
+    id,
+    title: `Track ${id}`,
+    duration: 180,
+    artist,
+    album: { id: albumId, title: `Album ${albumId}`, artist },
+  };
+}
+
+const ids = (tracks: Track[]) => tracks.map((t) => t.id);
+const sorted = (values: string[]) => [...values].sort();
+
+describe("fisherYates", () => {
+  it("returns a permutation without touching the input", () => {
+    const items = ["a", "b", "c", "d", "e"];
+    const shuffled = fisherYates(items);
+    expect(items).toEqual(["a", "b", "c", "d", "e"]);
+    expect(sorted(shuffled)).toEqual(items);
+  });
+
+  it("handles empty and single-item lists", () => {
+    expect(fisherYates([])).toEqual([]);
+    expect(fisherYates(["a"])).toEqual(["a"]);
+  });
+});
+
+describe("smartShuffle", () => {
+  const tracks = [
+    track("a1", "a", "x"),
+    track("a2", "a", "x"),
+    track("a3", "a", "y"),
+    track("b1", "b"),
+    track("b2", "b"),
+    track("c1", "c"),
+  ];
+
+  it("keeps every item exactly once", () => {
+    const shuffled = smartShuffle(tracks, (t) => t);
+    expect(sorted(ids(shuffled))).toEqual(sorted(ids(tracks)));
+  });
+
+  it("plays recent tracks after everything else", () => {
+    const recent = new Set(["a1", "b2"]);
+    for (let run = 0; run < 20; run++) {
+      const shuffled = ids(smartShuffle(tracks, (t) => t, { recent }));
+      expect(sorted(shuffled.slice(-2))).toEqual(["a1", "b2"]);
+    }
+  });
+
+  it("shuffles queue entries through `trackOf`", () => {
+    const entries = createEntries(tracks);
+    const shuffled = smartShuffle(entries, (entry: QueueEntry) => entry.track);
+    expect(sorted(shuffled.map((entry) => entry.uid))).toEqual(
+      sorted(entries.map((entry) => entry.uid))
+    );
+  });
+
+});
+
+describe("isShuffleMode", () => {
+  it("accepts only known modes", () => {
+    expect(isShuffleMode("smart")).toBe(true);
+    expect(isShuffleMode("standard")).toBe(true);
+    expect(isShuffleMode("random")).toBe(false);
+  });
+});
@@ -0,0 +1,130 @@
+/**
+ * Shuffle orders for the queue.
+ *
+ * "standard" is a plain Fisher-Yates shuffle. "smart" is a balanced
+ * shuffle: each artist's tracks are spread evenly across the whole
+ * order (and each album's within the artist's share), so the same
+ * artist rarely plays back-to-back. Smart shuffle can also pull
+ * favorites forward and push recently played tracks to the end.
+ */
+
+import type { Track } from "@/types/music";
+
+export type ShuffleMode = "standard" | "smart";
+
+export const SHUFFLE_MODES: ShuffleMode[] = ["standard", "smart"];
+
+export const SHUFFLE_MODE_LABELS: Record<ShuffleMode, { label: string; description: string }> = {
+  standard: {
+    label: "Standard",
+    description: "Completely random order",
+  },
+  smart: {
+    label: "Smart",
+    description: "Spreads out artists and albums, skips recent plays",
+  },
+};
+
+export function isShuffleMode(value: unknown): value is ShuffleMode {
+  return value === "standard" || value === "smart";
+}
+
+// Favorites land in roughly the first this-much of the order
+const FAVORITE_SPAN = 0.7;
+
+export interface SmartShuffleOptions {
+  /** Track IDs to pull towards the front. */
+  favorites?: Set<string>;
+  /** Track IDs played recently; these go after everything else. */
+  recent?: Set<string>;
+}
+
+export function fisherYates<T>(items: T[]): T[] {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+}
+
+/**
+ * Balanced shuffle of `items`. `trackOf` reads the track an item holds,
+ * so queue entries can be shuffled directly.
+ */
+export function smartShuffle<T>(
+  items: T[],
+  trackOf: (item: T) => Track,
+  { favorites, recent }: SmartShuffleOptions = {}
+): T[] {
+  const isRecent = (item: T) => recent?.has(trackOf(item).id) ?? false;
+  const fresh = items.filter((item) => !isRecent(item));
+  const played = items.filter(isRecent);
+
+  return [
+    ...balancedOrder(fresh, trackOf, favorites),
+    ...balancedOrder(played, trackOf, favorites),
+  ];
+}
+
+// -- Balanced placement --
+
+/**
+ * Give every item a position in [0, 1) so that each artist's items are
+ * evenly spaced with a random offset, then sort by position.
+ */
+function balancedOrder<T>(
+  items: T[],
+  trackOf: (item: T) => Track,
+  favorites?: Set<string>
+): T[] {
+  const positioned: { item: T; position: number }[] = [];
+
+  for (const group of groupBy(items, (item) => trackOf(item).artist.id)) {
+    // Within an artist, alternate albums before spacing them out
+    const ordered = interleave(groupBy(fisherYates(group), (item) => trackOf(item).album.id));
+    spread(ordered.length).forEach((position, i) => {
+      const item = ordered[i];
+      const isFavorite = favorites?.has(trackOf(item).id) ?? false;
+      positioned.push({ item, position: isFavorite ? position * FAVORITE_SPAN : position });
+    });
+  }
+
+  return positioned.sort((a, b) => a.position - b.position).map(({ item }) => item);
+}
+
+/** `count` evenly spaced positions in [0, 1) with a random offset and jitter. */
+function spread(count: number): number[] {
+  const gap = 1 / count;
+  const offset = Math.random() * gap;
+  return Array.from({ length: count }, (_, i) => {
+    // Jitter by up to a tenth of the gap either way so artists with the
+    // same number of tracks don't always play in the same sequence
+    const jitter = (Math.random() - 0.5) * gap * 0.2;
+    return Math.min(Math.max(offset + i * gap + jitter, 0), 0.999999);
+  });
+}
+
+/** Take one item from each group in turn, largest groups first. */
+function interleave<T>(groups: T[][]): T[] {
+  const queues = fisherYates(groups).sort((a, b) => b.length - a.length);
+  const rounds = queues[0]?.length ?? 0;
+  const result: T[] = [];
+  for (let round = 0; round < rounds; round++) {
+    for (const queue of queues) {
+      if (round < queue.length) result.push(queue[round]);
+    }
+  }
+  return result;
+}
+
+function groupBy<T>(items: T[], keyOf: (item: T) => string): T[][] {
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    const key = keyOf(item);
+    const group = groups.get(key);
+    if (group) group.push(item);
+    else groups.set(key, [item]);
+  }
+  return Array.from(groups.values());
+}
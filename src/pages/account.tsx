@@ -0,0 +1,73 @@
+import { useNavigate } from "react-router";
+import { LogOut } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { UserAvatar } from "@/components/user-avatar";
+import { useAuthStore } from "@/stores/auth-store";
+import { useNetworkStore } from "@/stores/network-store";
+import { usePlaylistStore } from "@/stores/playlist-store";
+import { useLibraryStore } from "@/stores/library-store";
+
+/** Signed-in account overview. Only reachable behind `RequireAuth`. */
+export function AccountPage() {
+  const navigate = useNavigate();
+  const user = useAuthStore((s) => s.user);
+  const signOut = useAuthStore((s) => s.signOut);
+  const pendingActions = useNetworkStore((s) => s.pendingActions);
+  const playlistCount = usePlaylistStore((s) => s.playlists.length);
+  const favoriteCount = useLibraryStore(
+    (s) => s.favoriteTracks.length + s.favoriteAlbums.length + s.favoriteArtists.length
+  );
+
+  if (!user) return null;
+
+  const handleSignOut = () => {
+    signOut();
+    navigate("/");
+  };
+
+  return (
+    <div className="flex flex-1 flex-col gap-6 p-6">
+      <div className="flex items-center gap-4">
+        <UserAvatar user={user} className="size-16 text-2xl" />
+        <div className="min-w-0">
+          <h1 className="truncate text-2xl font-bold tracking-tight">
+            {user.name || user.email}
+          </h1>
+          {user.name && <p className="text-sm text-muted-foreground">{user.email}</p>}
+        </div>
+      </div>
+
+      <div className="grid max-w-md grid-cols-2 gap-3">
+        <Stat label="Playlists" value={playlistCount} />
+        <Stat label="Favorites" value={favoriteCount} />
+      </div>
+
+      <div className="flex max-w-md flex-col gap-2">
+        {pendingActions > 0 && (
+          <p className="text-sm text-amber-400">
+            {pendingActions} changes haven't synced yet. Signing out now will discard them.
+          </p>
+        )}
+        <div>
+          <Button variant="outline" onClick={handleSignOut}>
+            <LogOut className="size-4" />
+            Sign out
+          </Button>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Signing out removes your favorites, history and playlists from this device.
+          They stay on the server and come back when you sign in again.
+        </p>
+      </div>
+    </div>
+  );
+}
+
+function Stat({ label, value }: { label: string; value: number }) {
+  return (
+    <div className="rounded-lg border border-border/70 p-4">
+      <p className="text-2xl font-bold tabular-nums">{value}</p>
+      <p className="text-xs text-muted-foreground">{label}</p>
+    </div>
+  );
+}
@@ -2,11 +2,15 @@ import { useCallback, useEffect, useState } from "react";
 import { useParams, useNavigate, Link } from "react-router";
 import { ArrowLeft, Clock, Heart, Play } from "lucide-react";
 import { getAlbum, getCoverUrl } from "@/lib/api/music-api";
+import { describeApiError } from "@/lib/api/errors";
 import { TrackList } from "@/components/track-list";
+import { DownloadButton } from "@/components/download-button";
+import { AddToPlaylistButton } from "@/components/add-to-playlist";
 import { usePlayerStore } from "@/stores/player-store";
 import { useLibraryStore } from "@/stores/library-store";
 import { formatTime } from "@/lib/format";
 import { cn } from "@/lib/utils";
+import { albumSource } from "@/lib/play-sources";
 import { Skeleton } from "@/components/ui/skeleton";
 import type { Album, Track } from "@/types/music";
 
@@ -39,7 +43,7 @@ export function AlbumPage() {
       .catch((err) => {
         if (cancelled) return;
         console.error("[Album] Failed to load:", err);
-        setError("Failed to load album");
+        setError(describeApiError(err, "album"));
       })
       .finally(() => {
         if (!cancelled) setIsLoading(false);
@@ -52,16 +56,16 @@ export function AlbumPage() {
 
   const handlePlayTrack = useCallback(
     (track: Track, _index: number) => {
-      playTrack(track, tracks);
+      playTrack(track, tracks, album ? albumSource(album) : undefined);
     },
-    [playTrack, tracks]
+    [playTrack, tracks, album]
   );
 
   const handlePlayAll = useCallback(() => {
     if (tracks.length > 0) {
-      playQueue(tracks, 0);
+      playQueue(tracks, 0, album ? albumSource(album) : undefined);
     }
-  }, [playQueue, tracks]);
+  }, [playQueue, tracks, album]);
 
   if (isLoading) return <AlbumSkeleton />;
 
@@ -163,6 +167,8 @@ export function AlbumPage() {
             />
           </button>
         )}
+        <AddToPlaylistButton tracks={tracks} />
+        <DownloadButton tracks={tracks} />
       </div>
 
       {/* Track list */}
@@ -1,18 +1,29 @@
 import { useCallback, useEffect, useState } from "react";
 import { useParams, useNavigate, Link } from "react-router";
-import { ArrowLeft, Heart, Play } from "lucide-react";
-import { getArtist, getCoverUrl, getArtistPictureUrl } from "@/lib/api/music-api";
+import { ArrowLeft, Heart, Play, Radio } from "lucide-react";
+import {
+  getArtist,
+  getArtistDiscography,
+  getCoverUrl,
+  getArtistPictureUrl,
+  getSimilarArtists,
+} from "@/lib/api/music-api";
+import { describeApiError } from "@/lib/api/errors";
+import { RELEASE_GROUPS, RELEASE_GROUP_LABELS } from "@/lib/discography";
 import { TrackList } from "@/components/track-list";
 import { usePlayerStore } from "@/stores/player-store";
 import { useLibraryStore } from "@/stores/library-store";
 import { cn } from "@/lib/utils";
+import { artistSource } from "@/lib/play-sources";
 import { Skeleton } from "@/components/ui/skeleton";
-import type { Album, ArtistMinified, Track } from "@/types/music";
-
-interface ArtistDetail extends ArtistMinified {
-  albums: Album[];
-  tracks: Track[];
-}
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import type {
+  Album,
+  ArtistDetail,
+  ArtistMinified,
+  Discography,
+  Track,
+} from "@/types/music";
 
 export function ArtistPage() {
   const { id } = useParams<{ id: string }>();
@@ -23,6 +34,9 @@ export function ArtistPage() {
 
   const playTrack = usePlayerStore((s) => s.playTrack);
   const playQueue = usePlayerStore((s) => s.playQueue);
+  const radio = usePlayerStore((s) => s.radio);
+  const startArtistRadio = usePlayerStore((s) => s.startArtistRadio);
+  const stopRadio = usePlayerStore((s) => s.stopRadio);
   const favoriteArtists = useLibraryStore((s) => s.favoriteArtists);
   const toggleFavoriteArtist = useLibraryStore((s) => s.toggleFavoriteArtist);
 
@@ -34,14 +48,14 @@ export function ArtistPage() {
     setError(null);
 
     getArtist(id)
-      .then((result: ArtistDetail) => {
+      .then((result) => {
         if (cancelled) return;
         setArtist(result);
       })
       .catch((err) => {
         if (cancelled) return;
         console.error("[Artist] Failed to load:", err);
-        setError("Failed to load artist");
+        setError(describeApiError(err, "artist"));
       })
       .finally(() => {
         if (!cancelled) setIsLoading(false);
@@ -55,7 +69,7 @@ export function ArtistPage() {
   const handlePlayTrack = useCallback(
     (track: Track, _index: number) => {
       if (artist) {
-        playTrack(track, artist.tracks);
+        playTrack(track, artist.tracks, artistSource(artist));
       }
     },
     [playTrack, artist]
@@ -63,7 +77,7 @@ export function ArtistPage() {
 
   const handlePlayAll = useCallback(() => {
     if (artist && artist.tracks.length > 0) {
-      playQueue(artist.tracks, 0);
+      playQueue(artist.tracks, 0, artistSource(artist));
     }
   }, [playQueue, artist]);
 
@@ -87,6 +101,7 @@ export function ArtistPage() {
     ? getArtistPictureUrl(artist.picture, "640")
     : "";
   const isFav = favoriteArtists.some((item) => item.id === artist.id);
+  const isRadioActive = radio?.id === artist.id;
 
   return (
     <div className="flex flex-1 flex-col">
@@ -128,6 +143,29 @@ export function ArtistPage() {
             Play
           </button>
         )}
+        <button
+          onClick={() =>
+            isRadioActive
+              ? stopRadio()
+              : void startArtistRadio({
+                  id: artist.id,
+                  name: artist.name,
+                  picture: artist.picture,
+                })
+          }
+          title={
+            isRadioActive
+              ? "Stop refilling the queue"
+              : "Endless mix of this artist and similar ones"
+          }
+          className={cn(
+            "inline-flex items-center gap-2 rounded-full border px-4 py-2 text-sm font-medium transition-colors",
+            isRadioActive ? "border-primary text-primary" : "hover:bg-accent"
+          )}
+        >
+          <Radio className="size-4" />
+          {isRadioActive ? "Radio on" : "Radio"}
+        </button>
         <button
           onClick={() => toggleFavoriteArtist(artist)}
           className="rounded-full p-2 transition-colors hover:bg-accent"
@@ -149,42 +187,166 @@ export function ArtistPage() {
         </section>
       )}
 
-      {/* Albums */}
-      {artist.albums.length > 0 && (
-        <section className="px-6 pb-8">
-          <h2 className="pb-4 text-lg font-semibold">Discography</h2>
-          <div className="grid grid-cols-[repeat(auto-fill,minmax(160px,1fr))] gap-4">
-            {artist.albums.map((album) => {
-              const coverUrl = album.cover ? getCoverUrl(album.cover, "320") : "";
-              return (
-                <Link
-                  key={album.id}
-                  to={`/album/${album.id}`}
-                  className="group flex flex-col gap-2 rounded-lg p-3 transition-colors hover:bg-accent/50"
-                >
-                  {coverUrl ? (
-                    <img
-                      src={coverUrl}
-                      alt=""
-                      className="aspect-square w-full rounded-md object-cover"
-                    />
-                  ) : (
-                    <div className="aspect-square w-full rounded-md bg-muted" />
-                  )}
-                  <div className="min-w-0">
-                    <p className="truncate text-sm font-medium">{album.title}</p>
-                    <p className="truncate text-xs text-muted-foreground">
-                      {album.releaseDate
-                        ? album.releaseDate.substring(0, 4)
-                        : album.type ?? "Album"}
-                    </p>
-                  </div>
-                </Link>
-              );
-            })}
-          </div>
-        </section>
-      )}
+      {/* Discography */}
+      <section className="px-6 pb-8">
+        <h2 className="pb-4 text-lg font-semibold">Discography</h2>
+        <DiscographyTabs key={artist.id} artistId={artist.id} />
+      </section>
+
+      <SimilarArtists key={artist.id} artistId={artist.id} />
+    </div>
+  );
+}
+
+function SimilarArtists({ artistId }: { artistId: string }) {
+  const [artists, setArtists] = useState<ArtistMinified[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    getSimilarArtists(artistId)
+      .then((result) => {
+        if (!cancelled) setArtists(result);
+      })
+      .catch((err) => {
+        // Optional section -- leave it out rather than show an error
+        if (!cancelled) console.warn("[Artist] Failed to load similar artists:", err);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [artistId]);
+
+  if (artists.length === 0) return null;
+
+  return (
+    <section className="px-6 pb-8">
+      <h2 className="pb-4 text-lg font-semibold">Similar Artists</h2>
+      <div className="grid grid-cols-[repeat(auto-fill,minmax(140px,1fr))] gap-4">
+        {artists.map((artist) => {
+          const pictureUrl = artist.picture
+            ? getArtistPictureUrl(artist.picture, "320")
+            : "";
+          return (
+            <Link
+              key={artist.id}
+              to={`/artist/${artist.id}`}
+              className="group flex flex-col items-center gap-2 rounded-lg p-3 transition-colors hover:bg-accent/50"
+            >
+              {pictureUrl ? (
+                <img
+                  src={pictureUrl}
+                  alt=""
+                  loading="lazy"
+                  className="size-28 rounded-full object-cover"
+                />
+              ) : (
+                <div className="size-28 rounded-full bg-muted" />
+              )}
+              <p className="w-full truncate text-center text-sm font-medium">
+                {artist.name}
+              </p>
+            </Link>
+          );
+        })}
+      </div>
+    </section>
+  );
+}
+
+function DiscographyTabs({ artistId }: { artistId: string }) {
+  const [discography, setDiscography] = useState<Discography | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    getArtistDiscography(artistId)
+      .then((result) => {
+        if (!cancelled) setDiscography(result);
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        console.error("[Artist] Failed to load discography:", err);
+        setError(describeApiError(err, "discography"));
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [artistId]);
+
+  if (error) {
+    return <p className="text-sm text-muted-foreground">{error}</p>;
+  }
+
+  if (!discography) {
+    return (
+      <div className="grid grid-cols-[repeat(auto-fill,minmax(160px,1fr))] gap-4">
+        {Array.from({ length: 6 }, (_, i) => (
+          <Skeleton key={i} className="aspect-square w-full rounded-md" />
+        ))}
+      </div>
+    );
+  }
+
+  const groups = RELEASE_GROUPS.filter((group) => discography[group].length > 0);
+  if (groups.length === 0) {
+    return <p className="text-sm text-muted-foreground">No releases found</p>;
+  }
+
+  return (
+    <Tabs defaultValue={groups[0]}>
+      <TabsList>
+        {groups.map((group) => (
+          <TabsTrigger key={group} value={group}>
+            {RELEASE_GROUP_LABELS[group]} ({discography[group].length})
+          </TabsTrigger>
+        ))}
+      </TabsList>
+      {groups.map((group) => (
+        <TabsContent key={group} value={group} className="mt-4">
+          <AlbumGrid albums={discography[group]} showArtist={group === "appearances"} />
+        </TabsContent>
+      ))}
+    </Tabs>
+  );
+}
+
+function AlbumGrid({ albums, showArtist }: { albums: Album[]; showArtist: boolean }) {
+  return (
+    <div className="grid grid-cols-[repeat(auto-fill,minmax(160px,1fr))] gap-4">
+      {albums.map((album) => {
+        const coverUrl = album.cover ? getCoverUrl(album.cover, "320") : "";
+        const year = album.releaseDate?.substring(0, 4);
+        return (
+          <Link
+            key={album.id}
+            to={`/album/${album.id}`}
+            className="group flex flex-col gap-2 rounded-lg p-3 transition-colors hover:bg-accent/50"
+          >
+            {coverUrl ? (
+              <img
+                src={coverUrl}
+                alt=""
+                loading="lazy"
+                className="aspect-square w-full rounded-md object-cover"
+              />
+            ) : (
+              <div className="aspect-square w-full rounded-md bg-muted" />
+            )}
+            <div className="min-w-0">
+              <p className="truncate text-sm font-medium">{album.title}</p>
+              <p className="truncate text-xs text-muted-foreground">
+                {showArtist
+                  ? [year, album.artist.name].filter(Boolean).join(" -- ")
+                  : (year ?? album.type ?? "Album")}
+              </p>
+            </div>
+          </Link>
+        );
+      })}
     </div>
   );
 }
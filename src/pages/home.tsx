@@ -94,7 +94,7 @@ export function HomePage() {
                 key={track.id}
                 track={track}
                 onClick={() => {
-                  void playTrack(track, recentTracks);
+                  void playTrack(track, recentTracks, { type: "history" });
                 }}
               />
             ))}
@@ -119,7 +119,9 @@ export function HomePage() {
                 key={`quick-${track.id}`}
                 type="button"
                 onClick={() => {
-                  void playTrack(track, quickPickTracks);
+                  void playTrack(track, quickPickTracks, {
+                    type: favoriteTracks.length > 0 ? "favorites" : "history",
+                  });
                 }}
                 className="flex items-center gap-3 rounded-xl border border-border/70 bg-card/70 p-3 text-left transition-colors hover:border-primary/50 hover:bg-accent/40"
               >
@@ -0,0 +1,336 @@
+import { useEffect, useRef, useState } from "react";
+import {
+  ArrowDown,
+  ArrowUp,
+  FileUp,
+  Link2,
+  Plus,
+  RefreshCw,
+  RotateCcw,
+  Server,
+  Trash2,
+} from "lucide-react";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Input } from "@/components/ui/input";
+import { useInstanceStore } from "@/stores/instance-store";
+import { INSTANCE_TYPES, type InstanceType } from "@/lib/api/instances";
+import { getInstanceStats } from "@/lib/api/fetch";
+import type { InstanceHealth } from "@/lib/api/instance-health";
+import { formatRelativeTime } from "@/lib/format";
+import { cn } from "@/lib/utils";
+
+const TYPE_LABELS: Record<InstanceType, string> = {
+  api: "API",
+  streaming: "Streaming",
+};
+
+export function InstancesPage() {
+  const health = useInstanceStore((s) => s.health);
+  const isProbing = useInstanceStore((s) => s.isProbing);
+  const probeNow = useInstanceStore((s) => s.probeNow);
+
+  // Check everything once if we know nothing yet
+  useEffect(() => {
+    if (Object.keys(useInstanceStore.getState().health).length === 0) {
+      void probeNow();
+    }
+  }, [probeNow]);
+
+  return (
+    <div className="flex flex-1 flex-col gap-6 p-6">
+      <div className="flex items-end justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold tracking-tight">Instances</h1>
+          <p className="mt-1 text-sm text-muted-foreground">
+            Proxy servers used for metadata and audio, tried in this order.
+            Instances that keep failing are skipped until they recover.
+          </p>
+        </div>
+        <button
+          onClick={() => void probeNow()}
+          disabled={isProbing}
+          className="inline-flex shrink-0 items-center gap-2 rounded-md border border-border px-3 py-1.5 text-sm font-medium transition-colors hover:bg-accent disabled:opacity-50"
+        >
+          <RefreshCw className={cn("size-3.5", isProbing && "animate-spin")} />
+          {isProbing ? "Checking..." : "Check now"}
+        </button>
+      </div>
+
+      <Tabs defaultValue="api" className="flex-1">
+        <TabsList>
+          {INSTANCE_TYPES.map((type) => (
+            <TabsTrigger key={type} value={type}>
+              {TYPE_LABELS[type]}
+            </TabsTrigger>
+          ))}
+        </TabsList>
+
+        {INSTANCE_TYPES.map((type) => (
+          <TabsContent key={type} value={type} className="mt-4 flex flex-col gap-4">
+            <InstanceEditor type={type} />
+            <InstanceTable type={type} health={health} />
+          </TabsContent>
+        ))}
+      </Tabs>
+    </div>
+  );
+}
+
+function InstanceEditor({ type }: { type: InstanceType }) {
+  const addInstance = useInstanceStore((s) => s.addInstance);
+  const importInstances = useInstanceStore((s) => s.importInstances);
+  const importFromUrl = useInstanceStore((s) => s.importFromUrl);
+  const resetInstances = useInstanceStore((s) => s.resetInstances);
+  const [url, setUrl] = useState("");
+  const [importUrl, setImportUrl] = useState("");
+  const [message, setMessage] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const reportImport = (added: number) => {
+    setMessage(
+      added > 0
+        ? `Added ${added} instance${added === 1 ? "" : "s"}`
+        : "No new instances found"
+    );
+  };
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (addInstance(type, url)) {
+      setUrl("");
+      setMessage(null);
+    } else {
+      setMessage("Enter a valid URL that isn't already in the list");
+    }
+  };
+
+  const handleImportUrl = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!importUrl.trim()) return;
+    try {
+      reportImport(await importFromUrl(type, importUrl.trim()));
+      setImportUrl("");
+    } catch (err) {
+      console.warn("[Instances] Import failed:", err);
+      setMessage("Couldn't load that list");
+    }
+  };
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    reportImport(importInstances(type, await file.text()));
+  };
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <form onSubmit={handleAdd} className="flex min-w-64 flex-1 gap-2">
+          <Input
+            value={url}
+            onChange={(e) => setUrl(e.target.value)}
+            placeholder="https://example.com"
+          />
+          <button
+            type="submit"
+            className="inline-flex shrink-0 items-center gap-1.5 rounded-md bg-primary px-3 text-sm font-medium text-primary-foreground transition-colors hover:bg-primary/90"
+          >
+            <Plus className="size-3.5" />
+            Add
+          </button>
+        </form>
+        <form onSubmit={handleImportUrl} className="flex min-w-64 flex-1 gap-2">
+          <Input
+            value={importUrl}
+            onChange={(e) => setImportUrl(e.target.value)}
+            placeholder="Import list from URL"
+          />
+          <button
+            type="submit"
+            title="Import from URL"
+            className="shrink-0 rounded-md border border-border px-2.5 transition-colors hover:bg-accent"
+          >
+            <Link2 className="size-4" />
+          </button>
+        </form>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="inline-flex h-9 items-center gap-1.5 rounded-md border border-border px-3 text-sm transition-colors hover:bg-accent"
+        >
+          <FileUp className="size-3.5" />
+          Import file
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,.txt,application/json,text/plain"
+          onChange={handleImportFile}
+          className="hidden"
+        />
+        <button
+          onClick={() => {
+            resetInstances(type);
+            setMessage("Restored the default instances");
+          }}
+          className="inline-flex h-9 items-center gap-1.5 rounded-md px-3 text-sm text-muted-foreground transition-colors hover:bg-accent hover:text-foreground"
+        >
+          <RotateCcw className="size-3.5" />
+          Reset to defaults
+        </button>
+      </div>
+      {message && <p className="text-xs text-muted-foreground">{message}</p>}
+    </div>
+  );
+}
+
+function InstanceTable({
+  type,
+  health,
+}: {
+  type: InstanceType;
+  health: Record<string, InstanceHealth>;
+}) {
+  const instances = useInstanceStore((s) => s.instances[type]);
+  const moveInstance = useInstanceStore((s) => s.moveInstance);
+  const removeInstance = useInstanceStore((s) => s.removeInstance);
+  // Re-rendered on every health change, which is what moves the ranking
+  const stats = new Map(getInstanceStats(type).map((item) => [item.url, item]));
+
+  return (
+    <div className="flex flex-col rounded-lg border border-border/70">
+      <div className="grid grid-cols-[2rem_1fr_6rem_5rem_4rem_6rem_1fr_3rem_5.5rem] items-center gap-3 border-b border-border px-4 py-2 text-xs font-medium uppercase tracking-wider text-muted-foreground">
+        <span title="Order the next request will try">#</span>
+        <span>Instance</span>
+        <span>Status</span>
+        <span className="text-right">Latency</span>
+        <span className="text-right">Success</span>
+        <span>Last OK</span>
+        <span>Last error</span>
+        <span className="text-right" title="Rate limit responses">
+          429s
+        </span>
+        <span />
+      </div>
+
+      {instances.map((url, index) => {
+        const entry = health[url];
+
+        return (
+          <div
+            key={url}
+            className="grid grid-cols-[2rem_1fr_6rem_5rem_4rem_6rem_1fr_3rem_5.5rem] items-center gap-3 px-4 py-2 text-sm"
+          >
+            <span className="tabular-nums text-muted-foreground">
+              {(stats.get(url)?.rank ?? 0) + 1}
+            </span>
+            <span className="flex min-w-0 items-center gap-2">
+              <Server className="size-3.5 shrink-0 text-muted-foreground" />
+              <span className="truncate" title={url}>
+                {url.replace(/^https?:\/\//, "")}
+              </span>
+            </span>
+            <StatusBadge health={entry} available={stats.get(url)?.available ?? true} />
+            <span className="text-right tabular-nums text-muted-foreground">
+              {entry?.latencyMs != null ? `${Math.round(entry.latencyMs)} ms` : "--"}
+            </span>
+            <span className="text-right tabular-nums text-muted-foreground">
+              {entry?.successRate != null ? `${Math.round(entry.successRate * 100)}%` : "--"}
+            </span>
+            <span className="text-muted-foreground">
+              {entry?.lastSuccess ? formatRelativeTime(entry.lastSuccess) : "--"}
+            </span>
+            <span
+              className="truncate text-muted-foreground"
+              title={entry?.lastError ?? undefined}
+            >
+              {entry?.lastError && entry.lastErrorAt
+                ? `${entry.lastError} (${formatRelativeTime(entry.lastErrorAt)})`
+                : "--"}
+            </span>
+            <span className="text-right tabular-nums text-muted-foreground">
+              {entry?.rateLimitCount ?? 0}
+            </span>
+            <div className="flex justify-end gap-0.5">
+              <RowButton
+                title="Move up"
+                disabled={index === 0}
+                onClick={() => moveInstance(type, url, -1)}
+              >
+                <ArrowUp className="size-3.5" />
+              </RowButton>
+              <RowButton
+                title="Move down"
+                disabled={index === instances.length - 1}
+                onClick={() => moveInstance(type, url, 1)}
+              >
+                <ArrowDown className="size-3.5" />
+              </RowButton>
+              <RowButton
+                title="Remove"
+                disabled={instances.length <= 1}
+                onClick={() => removeInstance(type, url)}
+              >
+                <Trash2 className="size-3.5" />
+              </RowButton>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+function StatusBadge({
+  health,
+  available,
+}: {
+  health: InstanceHealth | undefined;
+  available: boolean;
+}) {
+  const [label, className] = !health
+    ? ["Unknown", "bg-muted text-muted-foreground"]
+    : health.sidelined
+      ? ["Sidelined", "bg-destructive/15 text-destructive"]
+      : !available
+        ? ["Backing off", "bg-amber-500/15 text-amber-400"]
+        : health.consecutiveFailures > 0
+          ? ["Failing", "bg-amber-500/15 text-amber-400"]
+          : health.lastSuccess
+            ? ["Healthy", "bg-emerald-500/15 text-emerald-400"]
+            : ["Unknown", "bg-muted text-muted-foreground"];
+
+  return (
+    <span
+      className={cn(
+        "w-fit rounded-full px-2 py-0.5 text-[11px] font-medium",
+        className
+      )}
+    >
+      {label}
+    </span>
+  );
+}
+
+function RowButton({
+  title,
+  disabled,
+  onClick,
+  children,
+}: {
+  title: string;
+  disabled?: boolean;
+  onClick: () => void;
+  children: React.ReactNode;
+}) {
+  return (
+    <button
+      onClick={onClick}
+      disabled={disabled}
+      title={title}
+      className="rounded p-1 text-muted-foreground transition-colors hover:bg-accent hover:text-foreground disabled:pointer-events-none disabled:opacity-30"
+    >
+      {children}
+    </button>
+  );
+}
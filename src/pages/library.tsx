@@ -1,34 +1,61 @@
-import { useCallback } from "react";
+import { useCallback, useEffect, useMemo, useState } from "react";
 import { Link } from "react-router";
-import { Heart, Clock, Music, Disc3, User, Trash2 } from "lucide-react";
+import {
+  Heart,
+  Clock,
+  Music,
+  Disc3,
+  User,
+  Trash2,
+  Download,
+  RotateCw,
+  X,
+} from "lucide-react";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { TrackList } from "@/components/track-list";
 import { useLibraryStore } from "@/stores/library-store";
 import { usePlayerStore } from "@/stores/player-store";
+import { useDownloadStore } from "@/stores/download-store";
 import { getCoverUrl, getArtistPictureUrl } from "@/lib/api/music-api";
-import type { Track } from "@/types/music";
+import { formatBytes, formatDay } from "@/lib/format";
+import { playLog } from "@/lib/play-log";
+import { describeSource, sourcePath } from "@/lib/play-sources";
+import { QUALITY_LABELS } from "@/lib/quality";
+import { cn } from "@/lib/utils";
+import type { PlayEvent, PlaySource, Track } from "@/types/music";
+
+// Plays read from the play log at a time
+const HISTORY_PAGE_SIZE = 500;
 
 export function LibraryPage() {
   const favoriteTracks = useLibraryStore((s) => s.favoriteTracks);
   const favoriteAlbums = useLibraryStore((s) => s.favoriteAlbums);
   const favoriteArtists = useLibraryStore((s) => s.favoriteArtists);
-  const history = useLibraryStore((s) => s.history);
-  const clearHistory = useLibraryStore((s) => s.clearHistory);
+  const downloaded = useDownloadStore((s) => s.downloaded);
+  const downloadJobs = useDownloadStore((s) => s.jobs);
+
+  const downloadedTracks = useMemo(
+    () =>
+      Object.values(downloaded)
+        .sort((a, b) => b.downloadedAt - a.downloadedAt)
+        .map((item) => item.track),
+    [downloaded]
+  );
 
   const playTrack = usePlayerStore((s) => s.playTrack);
 
   const handlePlayFavTrack = useCallback(
     (track: Track, _index: number) => {
-      playTrack(track, favoriteTracks);
+      playTrack(track, favoriteTracks, { type: "favorites" });
     },
     [playTrack, favoriteTracks]
   );
 
-  const handlePlayHistoryTrack = useCallback(
-    (track: Track, _index: number) => {
-      playTrack(track, history);
+  const handlePlayDownloadedTrack = useCallback(
+    (track: Track) => {
+      playTrack(track, downloadedTracks, { type: "downloads" });
     },
-    [playTrack, history]
+    [playTrack, downloadedTracks]
   );
 
   return (
@@ -56,7 +83,11 @@ export function LibraryPage() {
           </TabsTrigger>
           <TabsTrigger value="history" className="gap-1.5">
             <Clock className="size-3.5" />
-            History ({history.length})
+            History
+          </TabsTrigger>
+          <TabsTrigger value="downloaded" className="gap-1.5">
+            <Download className="size-3.5" />
+            Downloaded ({downloadedTracks.length})
           </TabsTrigger>
         </TabsList>
 
@@ -158,24 +189,29 @@ export function LibraryPage() {
 
         {/* History */}
         <TabsContent value="history" className="mt-4">
-          {history.length > 0 ? (
+          <ListeningHistory />
+        </TabsContent>
+
+        {/* Downloaded */}
+        <TabsContent value="downloaded" className="mt-4">
+          {downloadedTracks.length > 0 || downloadJobs.length > 0 ? (
             <div className="flex flex-col gap-4">
-              <div className="flex justify-end">
-                <button
-                  onClick={clearHistory}
-                  className="inline-flex items-center gap-1.5 rounded-md px-3 py-1.5 text-xs font-medium text-muted-foreground transition-colors hover:bg-destructive/10 hover:text-destructive"
-                >
-                  <Trash2 className="size-3.5" />
-                  Clear history
-                </button>
-              </div>
-              <TrackList tracks={history} onPlay={handlePlayHistoryTrack} />
+              <DownloadQueue />
+              {downloadedTracks.length > 0 && (
+                <>
+                  <DownloadedSummary />
+                  <TrackList
+                    tracks={downloadedTracks}
+                    onPlay={handlePlayDownloadedTrack}
+                  />
+                </>
+              )}
             </div>
           ) : (
             <EmptyState
-              icon={Clock}
-              title="No listening history"
-              description="Tracks you play will appear here"
+              icon={Download}
+              title="No downloads yet"
+              description="Download albums and playlists to play them offline"
             />
           )}
         </TabsContent>
@@ -184,6 +220,291 @@ export function LibraryPage() {
   );
 }
 
+// -- Listening history --
+
+interface TrackPlays {
+  track: Track;
+  count: number;
+  lastPlayedAt: number;
+  /** Where the latest of these plays came from. */
+  source?: PlaySource;
+}
+
+interface DayPlays {
+  key: string;
+  /** Start of the newest play that day. */
+  date: number;
+  plays: number;
+  /** Seconds listened that day. */
+  listened: number;
+  /** Each track played that day, most recently played first. */
+  tracks: TrackPlays[];
+}
+
+/** Group plays (newest first) by local day, counting plays per track. */
+function groupByDay(plays: PlayEvent[]): DayPlays[] {
+  const days: DayPlays[] = [];
+  let byTrack = new Map<string, TrackPlays>();
+
+  for (const play of plays) {
+    const started = new Date(play.startedAt);
+    const key = `${started.getFullYear()}-${started.getMonth()}-${started.getDate()}`;
+    let day = days[days.length - 1];
+    if (day?.key !== key) {
+      day = { key, date: play.startedAt, plays: 0, listened: 0, tracks: [] };
+      days.push(day);
+      byTrack = new Map();
+    }
+
+    day.plays++;
+    day.listened += play.listened;
+    const seen = byTrack.get(play.track.id);
+    if (seen) {
+      seen.count++;
+    } else {
+      const entry: TrackPlays = {
+        track: play.track,
+        count: 1,
+        lastPlayedAt: play.startedAt,
+        source: play.source,
+      };
+      byTrack.set(play.track.id, entry);
+      day.tracks.push(entry);
+    }
+  }
+
+  return days;
+}
+
+function ListeningHistory() {
+  const logRevision = useLibraryStore((s) => s.logRevision);
+  const clearHistory = useLibraryStore((s) => s.clearHistory);
+  const playTrack = usePlayerStore((s) => s.playTrack);
+  const currentTrack = usePlayerStore((s) => s.currentTrack);
+  const [limit, setLimit] = useState(HISTORY_PAGE_SIZE);
+  const [loaded, setLoaded] = useState<{ plays: PlayEvent[]; limit: number } | null>(null);
+
+  // Re-read whenever a play is logged, synced or cleared
+  useEffect(() => {
+    let cancelled = false;
+    playLog
+      .list(limit)
+      .then((plays) => {
+        if (!cancelled) setLoaded({ plays, limit });
+      })
+      .catch((error) => {
+        console.warn("[Library] Could not read play history:", error);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [limit, logRevision]);
+
+  const days = useMemo(() => groupByDay(loaded?.plays ?? []), [loaded]);
+
+  if (!loaded) return null;
+
+  if (loaded.plays.length === 0) {
+    return (
+      <EmptyState
+        icon={Clock}
+        title="No listening history"
+        description="Tracks you listen to for a while will appear here"
+      />
+    );
+  }
+
+  const hasMore = loaded.plays.length >= loaded.limit;
+
+  return (
+    <div className="flex flex-col gap-6">
+      <div className="flex justify-end">
+        <button
+          onClick={clearHistory}
+          className="inline-flex items-center gap-1.5 rounded-md px-3 py-1.5 text-xs font-medium text-muted-foreground transition-colors hover:bg-destructive/10 hover:text-destructive"
+        >
+          <Trash2 className="size-3.5" />
+          Clear history
+        </button>
+      </div>
+
+      {days.map((day) => {
+        const dayTracks = day.tracks.map((entry) => entry.track);
+        return (
+          <section key={day.key} className="flex flex-col gap-1">
+            <div className="flex items-baseline justify-between px-4">
+              <h2 className="text-sm font-semibold">{formatDay(day.date)}</h2>
+              <p className="text-xs text-muted-foreground">
+                {day.plays} {day.plays === 1 ? "play" : "plays"} --{" "}
+                {Math.max(1, Math.round(day.listened / 60))} min
+              </p>
+            </div>
+            {day.tracks.map((entry) => {
+              const { track, count, lastPlayedAt, source } = entry;
+              const path = source ? sourcePath(source) : null;
+              const isCurrent = currentTrack?.id === track.id;
+              return (
+                <div
+                  key={track.id}
+                  className={cn(
+                    "grid grid-cols-[1fr_auto_4rem] items-center gap-3 rounded-md px-4 py-2 transition-colors hover:bg-accent/50",
+                    isCurrent && "bg-accent/30"
+                  )}
+                >
+                  <button
+                    onClick={() => void playTrack(track, dayTracks, { type: "history" })}
+                    className="flex min-w-0 items-center gap-3 text-left"
+                  >
+                    {track.album?.cover ? (
+                      <img
+                        src={getCoverUrl(track.album.cover, "80")}
+                        alt=""
+                        className="size-8 shrink-0 rounded object-cover"
+                        loading="lazy"
+                      />
+                    ) : (
+                      <div className="size-8 shrink-0 rounded bg-muted" />
+                    )}
+                    <div className="min-w-0">
+                      <p className={cn("truncate text-sm font-medium", isCurrent && "text-primary")}>
+                        {track.title}
+                      </p>
+                      <p className="truncate text-xs text-muted-foreground">
+                        {track.artist?.name ?? "Unknown Artist"}
+                        {source && (
+                          <>
+                            {" -- "}
+                            {path ? (
+                              <Link to={path} className="hover:text-foreground hover:underline">
+                                {describeSource(source)}
+                              </Link>
+                            ) : (
+                              describeSource(source)
+                            )}
+                          </>
+                        )}
+                      </p>
+                    </div>
+                  </button>
+                  <span className="text-xs tabular-nums text-muted-foreground">
+                    {count > 1 ? `${count} plays` : ""}
+                  </span>
+                  <span className="text-right text-xs tabular-nums text-muted-foreground">
+                    {new Date(lastPlayedAt).toLocaleTimeString(undefined, {
+                      hour: "numeric",
+                      minute: "2-digit",
+                    })}
+                  </span>
+                </div>
+              );
+            })}
+          </section>
+        );
+      })}
+
+      {hasMore && (
+        <div className="flex justify-center">
+          <button
+            onClick={() => setLimit((current) => current + HISTORY_PAGE_SIZE)}
+            className="rounded-md px-3 py-1.5 text-xs font-medium text-muted-foreground transition-colors hover:bg-accent/70 hover:text-foreground"
+          >
+            Show older plays
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function DownloadQueue() {
+  const jobs = useDownloadStore((s) => s.jobs);
+  const cancel = useDownloadStore((s) => s.cancel);
+  const cancelAll = useDownloadStore((s) => s.cancelAll);
+  const retry = useDownloadStore((s) => s.retry);
+
+  if (jobs.length === 0) return null;
+
+  return (
+    <div className="flex flex-col gap-1 rounded-lg border border-border/70 p-3">
+      <div className="mb-1 flex items-center justify-between">
+        <p className="text-sm font-medium">Downloading ({jobs.length})</p>
+        <button
+          onClick={cancelAll}
+          className="rounded-md px-2 py-1 text-xs font-medium text-muted-foreground transition-colors hover:bg-destructive/10 hover:text-destructive"
+        >
+          Cancel all
+        </button>
+      </div>
+      {jobs.map((job) => (
+        <div
+          key={job.track.id}
+          className="grid grid-cols-[1fr_8rem_3.5rem] items-center gap-3 rounded-md px-2 py-1.5"
+        >
+          <div className="min-w-0">
+            <p className="truncate text-sm">{job.track.title}</p>
+            <p className="truncate text-xs text-muted-foreground">
+              {job.status === "failed"
+                ? (job.error ?? "Download failed")
+                : `${job.track.artist?.name ?? "Unknown Artist"} -- ${QUALITY_LABELS[job.quality].label}`}
+            </p>
+          </div>
+          <div className="h-1.5 overflow-hidden rounded-full bg-muted">
+            <div
+              className={
+                job.status === "failed" ? "h-full bg-destructive" : "h-full bg-primary"
+              }
+              style={{ width: `${Math.round(job.progress * 100)}%` }}
+            />
+          </div>
+          <div className="flex justify-end gap-1">
+            {job.status === "failed" && (
+              <button
+                onClick={() => retry(job.track.id)}
+                title="Retry"
+                className="rounded p-1 text-muted-foreground transition-colors hover:bg-accent hover:text-foreground"
+              >
+                <RotateCw className="size-3.5" />
+              </button>
+            )}
+            <button
+              onClick={() => cancel(job.track.id)}
+              title={job.status === "failed" ? "Dismiss" : "Cancel"}
+              className="rounded p-1 text-muted-foreground transition-colors hover:bg-accent hover:text-foreground"
+            >
+              <X className="size-3.5" />
+            </button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function DownloadedSummary() {
+  const downloaded = useDownloadStore((s) => s.downloaded);
+  const remove = useDownloadStore((s) => s.remove);
+
+  const items = Object.values(downloaded);
+  const totalSize = items.reduce((sum, item) => sum + item.size, 0);
+
+  return (
+    <div className="flex items-center justify-between">
+      <p className="text-xs text-muted-foreground">
+        {items.length} tracks -- {formatBytes(totalSize)} on this device
+      </p>
+      <button
+        onClick={() => {
+          items.forEach((item) => void remove(item.track.id));
+        }}
+        className="inline-flex items-center gap-1.5 rounded-md px-3 py-1.5 text-xs font-medium text-muted-foreground transition-colors hover:bg-destructive/10 hover:text-destructive"
+      >
+        <Trash2 className="size-3.5" />
+        Remove all downloads
+      </button>
+    </div>
+  );
+}
+
 function EmptyState({
   icon: Icon,
   title,
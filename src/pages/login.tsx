@@ -0,0 +1,159 @@
+import { useEffect, useState, type FormEvent } from "react";
+import { Navigate, useNavigate, useSearchParams } from "react-router";
+import { Loader2 } from "lucide-react";
+import type { AuthProviderInfo } from "pocketbase";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useAuthStore } from "@/stores/auth-store";
+import { describeAuthError, listOAuthProviders } from "@/lib/auth";
+import { cn } from "@/lib/utils";
+
+type Mode = "signIn" | "signUp";
+
+const MIN_PASSWORD_LENGTH = 8;
+
+export function LoginPage() {
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const user = useAuthStore((s) => s.user);
+  const signIn = useAuthStore((s) => s.signIn);
+  const signUp = useAuthStore((s) => s.signUp);
+  const signInWithOAuth = useAuthStore((s) => s.signInWithOAuth);
+
+  const [mode, setMode] = useState<Mode>("signIn");
+  const [name, setName] = useState("");
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [providers, setProviders] = useState<AuthProviderInfo[]>([]);
+
+  // Only send people back to pages inside the app
+  const next = searchParams.get("next");
+  const redirectTo = next?.startsWith("/") && !next.startsWith("//") ? next : "/";
+
+  useEffect(() => {
+    let cancelled = false;
+    void listOAuthProviders().then((result) => {
+      if (!cancelled) setProviders(result);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  if (user && !isSubmitting) return <Navigate to={redirectTo} replace />;
+
+  const run = async (action: () => Promise<void>) => {
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      await action();
+      navigate(redirectTo, { replace: true });
+    } catch (err) {
+      console.warn("[Auth] Sign-in failed:", err);
+      setError(describeAuthError(err));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    if (mode === "signUp" && password.length < MIN_PASSWORD_LENGTH) {
+      setError(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+      return;
+    }
+    void run(() =>
+      mode === "signIn"
+        ? signIn(email.trim(), password)
+        : signUp(email.trim(), password, name.trim())
+    );
+  };
+
+  const switchMode = (nextMode: Mode) => {
+    setMode(nextMode);
+    setError(null);
+  };
+
+  return (
+    <div className="flex flex-1 flex-col items-center justify-center p-6">
+      <div className="flex w-full max-w-sm flex-col gap-6 rounded-xl border border-border/70 bg-card/60 p-6">
+        <div>
+          <h1 className="text-2xl font-bold tracking-tight">
+            {mode === "signIn" ? "Sign in" : "Create account"}
+          </h1>
+          <p className="mt-1 text-sm text-muted-foreground">
+            Sync favorites, history and playlists through your PocketBase server.
+          </p>
+        </div>
+
+        <div className="grid grid-cols-2 gap-1 rounded-lg bg-muted p-1">
+          {(["signIn", "signUp"] as const).map((value) => (
+            <button
+              key={value}
+              type="button"
+              onClick={() => switchMode(value)}
+              className={cn(
+                "rounded-md px-3 py-1.5 text-sm font-medium transition-colors",
+                mode === value
+                  ? "bg-background text-foreground shadow-sm"
+                  : "text-muted-foreground hover:text-foreground"
+              )}
+            >
+              {value === "signIn" ? "Sign in" : "Sign up"}
+            </button>
+          ))}
+        </div>
+
+        <form onSubmit={handleSubmit} className="flex flex-col gap-3">
+          {mode === "signUp" && (
+            <Input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Name"
+              autoComplete="name"
+            />
+          )}
+          <Input
+            type="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            placeholder="Email"
+            autoComplete="email"
+            required
+          />
+          <Input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            placeholder="Password"
+            autoComplete={mode === "signIn" ? "current-password" : "new-password"}
+            required
+          />
+          {error && <p className="text-sm text-destructive">{error}</p>}
+          <Button type="submit" disabled={isSubmitting}>
+            {isSubmitting && <Loader2 className="size-4 animate-spin" />}
+            {mode === "signIn" ? "Sign in" : "Create account"}
+          </Button>
+        </form>
+
+        {providers.length > 0 && (
+          <div className="flex flex-col gap-2">
+            <p className="text-center text-xs text-muted-foreground">or continue with</p>
+            {providers.map((provider) => (
+              <Button
+                key={provider.name}
+                variant="outline"
+                disabled={isSubmitting}
+                onClick={() => void run(() => signInWithOAuth(provider.name))}
+              >
+                {provider.displayName}
+              </Button>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
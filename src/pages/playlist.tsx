@@ -2,19 +2,14 @@ import { useCallback, useEffect, useState } from "react";
 import { useParams, useNavigate } from "react-router";
 import { ArrowLeft, Clock, ListMusic, Play } from "lucide-react";
 import { getPlaylist, getCoverUrl } from "@/lib/api/music-api";
+import { describeApiError } from "@/lib/api/errors";
 import { TrackList } from "@/components/track-list";
+import { DownloadButton } from "@/components/download-button";
 import { usePlayerStore } from "@/stores/player-store";
 import { formatTime } from "@/lib/format";
+import { playlistSource } from "@/lib/play-sources";
 import { Skeleton } from "@/components/ui/skeleton";
-import type { Track } from "@/types/music";
-
-interface PlaylistDetail {
-  id: string;
-  title: string;
-  image?: string;
-  numberOfTracks: number;
-  tracks: Track[];
-}
+import type { PlaylistDetail, Track } from "@/types/music";
 
 export function PlaylistPage() {
   const { id } = useParams<{ id: string }>();
@@ -34,14 +29,14 @@ export function PlaylistPage() {
     setError(null);
 
     getPlaylist(id)
-      .then((result: PlaylistDetail) => {
+      .then((result) => {
         if (cancelled) return;
         setPlaylist(result);
       })
       .catch((err) => {
         if (cancelled) return;
         console.error("[Playlist] Failed to load:", err);
-        setError("Failed to load playlist");
+        setError(describeApiError(err, "playlist"));
       })
       .finally(() => {
         if (!cancelled) setIsLoading(false);
@@ -55,7 +50,7 @@ export function PlaylistPage() {
   const handlePlayTrack = useCallback(
     (track: Track, _index: number) => {
       if (playlist) {
-        playTrack(track, playlist.tracks);
+        playTrack(track, playlist.tracks, playlistSource(playlist));
       }
     },
     [playTrack, playlist]
@@ -63,7 +58,7 @@ export function PlaylistPage() {
 
   const handlePlayAll = useCallback(() => {
     if (playlist && playlist.tracks.length > 0) {
-      playQueue(playlist.tracks, 0);
+      playQueue(playlist.tracks, 0, playlistSource(playlist));
     }
   }, [playQueue, playlist]);
 
@@ -127,9 +122,9 @@ export function PlaylistPage() {
         </div>
       </div>
 
-      {/* Play All button */}
+      {/* Actions */}
       {playlist.tracks.length > 0 && (
-        <div className="px-6 pb-4">
+        <div className="flex items-center gap-3 px-6 pb-4">
           <button
             onClick={handlePlayAll}
             className="inline-flex items-center gap-2 rounded-full bg-primary px-5 py-2 text-sm font-medium text-primary-foreground transition-colors hover:bg-primary/90"
@@ -137,6 +132,7 @@ export function PlaylistPage() {
             <Play className="size-4" />
             Play
           </button>
+          <DownloadButton tracks={playlist.tracks} />
         </div>
       )}
 
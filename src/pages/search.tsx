@@ -12,6 +12,7 @@ import {
   getCoverUrl,
   getArtistPictureUrl,
 } from "@/lib/api/music-api";
+import { describeApiError } from "@/lib/api/errors";
 import type { Track, Album, ArtistMinified } from "@/types/music";
 
 const CURRENT_SEARCH_KEY = "moonsway-current-search";
@@ -32,6 +33,7 @@ export function SearchPage() {
   const [artists, setArtists] = useState<ArtistMinified[]>([]);
   const [hasSearched, setHasSearched] = useState(false);
   const [activeQuery, setActiveQuery] = useState("");
+  const [error, setError] = useState<string | null>(null);
 
   const abortRef = useRef<AbortController | null>(null);
 
@@ -52,6 +54,7 @@ export function SearchPage() {
 
     setIsLoading(true);
     setHasSearched(true);
+    setError(null);
 
     try {
       const [trackRes, albumRes, artistRes] = await Promise.all([
@@ -74,6 +77,9 @@ export function SearchPage() {
     } catch (error) {
       if (error instanceof Error && error.name === "AbortError") return;
       console.error("[Search] Failed:", error);
+      if (!controller.signal.aborted) {
+        setError(describeApiError(error, "search"));
+      }
     } finally {
       if (!controller.signal.aborted) {
         setIsLoading(false);
@@ -105,9 +111,9 @@ export function SearchPage() {
 
   const handlePlayTrack = useCallback(
     (track: Track, _index: number) => {
-      playTrack(track, tracks);
+      playTrack(track, tracks, { type: "search", name: activeQuery });
     },
-    [playTrack, tracks]
+    [playTrack, tracks, activeQuery]
   );
 
   return (
@@ -120,6 +126,10 @@ export function SearchPage() {
         </div>
       ) : isLoading && tracks.length === 0 ? (
         <SearchSkeleton />
+      ) : error ? (
+        <div className="flex flex-1 flex-col items-center justify-center text-muted-foreground">
+          <p className="text-sm">{error}</p>
+        </div>
       ) : tracks.length === 0 && albums.length === 0 && artists.length === 0 ? (
         <div className="flex flex-1 flex-col items-center justify-center text-muted-foreground">
           <p className="text-sm">No results found for "{activeQuery}"</p>
@@ -0,0 +1,213 @@
+import { Link } from "react-router";
+import { Check, RotateCcw, Server } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Slider } from "@/components/ui/slider";
+import { useAuthStore } from "@/stores/auth-store";
+import { useSetting, useSettingsStore } from "@/stores/settings-store";
+import {
+  SETTINGS,
+  SETTINGS_SECTIONS,
+  SETTING_KEYS,
+  type SettingDefinition,
+  type SettingKey,
+  type SettingValue,
+} from "@/lib/settings";
+import { cn } from "@/lib/utils";
+
+export function SettingsPage() {
+  const user = useAuthStore((s) => s.user);
+
+  return (
+    <div className="flex flex-1 flex-col gap-6 p-6">
+      <div>
+        <h1 className="text-2xl font-bold tracking-tight">Settings</h1>
+        <p className="text-sm text-muted-foreground">
+          {user ? (
+            <>Settings sync with {user.email}, except the ones that only apply to this device.</>
+          ) : (
+            <>
+              Saved on this device.{" "}
+              <Link to="/login?next=/settings" className="text-primary hover:underline">
+                Sign in
+              </Link>{" "}
+              to keep them in sync across devices.
+            </>
+          )}
+        </p>
+      </div>
+
+      {SETTINGS_SECTIONS.map((section) => {
+        const keys = SETTING_KEYS.filter(
+          (key) => SETTINGS[key].section === section.id && !SETTINGS[key].hidden
+        );
+        if (keys.length === 0) return null;
+
+        return (
+          <section key={section.id} className="flex max-w-2xl flex-col gap-1">
+            <h2 className="text-lg font-semibold">{section.title}</h2>
+            <p className="mb-2 text-sm text-muted-foreground">{section.description}</p>
+            <div className="divide-y divide-border/70 rounded-lg border border-border/70">
+              {keys.map((key) => (
+                <SettingRow key={key} settingKey={key} />
+              ))}
+            </div>
+          </section>
+        );
+      })}
+
+      <section className="flex max-w-2xl flex-col gap-1">
+        <h2 className="text-lg font-semibold">Instances</h2>
+        <p className="mb-2 text-sm text-muted-foreground">
+          The API and streaming servers Moonsway talks to
+        </p>
+        <div>
+          <Button variant="outline" asChild>
+            <Link to="/settings/instances">
+              <Server className="size-4" />
+              Manage instances
+            </Link>
+          </Button>
+        </div>
+      </section>
+    </div>
+  );
+}
+
+// -- Rows --
+
+function SettingRow({ settingKey }: { settingKey: SettingKey }) {
+  const definition: SettingDefinition = SETTINGS[settingKey];
+  const value = useSetting(settingKey);
+  const setSetting = useSettingsStore((s) => s.setSetting);
+  const resetSetting = useSettingsStore((s) => s.resetSetting);
+
+  const onChange = (next: SettingValue<SettingKey>) => setSetting(settingKey, next);
+  const isDefault = JSON.stringify(value) === JSON.stringify(definition.default);
+
+  return (
+    <div className="flex flex-col gap-3 p-4">
+      <div className="flex items-start justify-between gap-4">
+        <div className="min-w-0">
+          <p className="text-sm font-medium">{definition.label}</p>
+          {definition.description && (
+            <p className="text-xs text-muted-foreground">{definition.description}</p>
+          )}
+          {!definition.sync && (
+            <p className="text-xs text-muted-foreground/70">This device only</p>
+          )}
+        </div>
+        <div className="flex shrink-0 items-center gap-1">
+          {!isDefault && definition.type !== "list" && (
+            <Button
+              variant="ghost"
+              size="icon-xs"
+              title="Reset to default"
+              className="text-muted-foreground hover:text-foreground"
+              onClick={() => resetSetting(settingKey)}
+            >
+              <RotateCcw className="size-3.5" />
+            </Button>
+          )}
+          {definition.type === "boolean" && (
+            <Toggle
+              label={definition.label}
+              checked={value as boolean}
+              onChange={onChange}
+            />
+          )}
+          {definition.type === "number" && (
+            <span className="w-12 text-right text-xs tabular-nums text-muted-foreground">
+              {definition.format(value as number)}
+            </span>
+          )}
+          {definition.type === "list" && (
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={(value as string[]).length === 0}
+              onClick={() => resetSetting(settingKey)}
+            >
+              Clear
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {definition.type === "number" && (
+        <Slider
+          min={definition.min}
+          max={definition.max}
+          step={definition.step}
+          value={[value as number]}
+          onValueChange={([next]) => onChange(next ?? definition.default)}
+          className="max-w-sm"
+        />
+      )}
+
+      {definition.type === "choice" && (
+        <div className="flex flex-col">
+          {definition.options.map((option) => (
+            <button
+              key={option.value}
+              type="button"
+              onClick={() => onChange(option.value as SettingValue<SettingKey>)}
+              className="flex w-full items-center gap-2 rounded-md px-2 py-1.5 text-left transition-colors hover:bg-accent/60"
+            >
+              <Check
+                className={cn(
+                  "size-3.5 shrink-0 text-primary",
+                  option.value !== value && "invisible"
+                )}
+              />
+              <div className="min-w-0">
+                <p className="text-sm">{option.label}</p>
+                {option.description && (
+                  <p className="text-xs text-muted-foreground">{option.description}</p>
+                )}
+              </div>
+            </button>
+          ))}
+        </div>
+      )}
+
+      {definition.type === "list" && (
+        <p className="text-xs text-muted-foreground">
+          {(value as string[]).length > 0
+            ? (value as string[]).join(", ")
+            : "Nothing saved"}
+        </p>
+      )}
+    </div>
+  );
+}
+
+function Toggle({
+  label,
+  checked,
+  onChange,
+}: {
+  label: string;
+  checked: boolean;
+  onChange: (checked: boolean) => void;
+}) {
+  return (
+    <button
+      type="button"
+      role="switch"
+      aria-checked={checked}
+      aria-label={label}
+      onClick={() => onChange(!checked)}
+      className={cn(
+        "relative h-5 w-9 shrink-0 rounded-full transition-colors",
+        checked ? "bg-primary" : "bg-muted"
+      )}
+    >
+      <span
+        className={cn(
+          "absolute left-0.5 top-0.5 size-4 rounded-full bg-background shadow transition-transform",
+          checked && "translate-x-4"
+        )}
+      />
+    </button>
+  );
+}
@@ -0,0 +1,280 @@
+import { useCallback, useRef, useState } from "react";
+import { useParams, useNavigate } from "react-router";
+import {
+  ArrowLeft,
+  Clock,
+  ImageOff,
+  ImagePlus,
+  ListMusic,
+  Pencil,
+  Play,
+  Trash2,
+} from "lucide-react";
+import { TrackList } from "@/components/track-list";
+import { DownloadButton } from "@/components/download-button";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { usePlayerStore } from "@/stores/player-store";
+import { playlistCoverUrl, usePlaylistStore } from "@/stores/playlist-store";
+import { readCoverFile } from "@/lib/playlists";
+import { formatTime } from "@/lib/format";
+import { userPlaylistSource } from "@/lib/play-sources";
+import type { Track } from "@/types/music";
+
+const iconButtonClassName =
+  "rounded-full p-2 text-muted-foreground transition-colors hover:bg-accent hover:text-foreground";
+
+/** One of the user's own playlists, editable in place. */
+export function UserPlaylistPage() {
+  const { id = "" } = useParams<{ id: string }>();
+  // Keyed so edit state doesn't carry over between playlists
+  return <UserPlaylistView key={id} id={id} />;
+}
+
+function UserPlaylistView({ id }: { id: string }) {
+  const navigate = useNavigate();
+  const playlist = usePlaylistStore((s) => s.playlists.find((p) => p.id === id));
+  const renamePlaylist = usePlaylistStore((s) => s.renamePlaylist);
+  const setDescription = usePlaylistStore((s) => s.setDescription);
+  const setCover = usePlaylistStore((s) => s.setCover);
+  const deletePlaylist = usePlaylistStore((s) => s.deletePlaylist);
+  const removeTracks = usePlaylistStore((s) => s.removeTracks);
+  const moveTrack = usePlaylistStore((s) => s.moveTrack);
+  const coverUrls = usePlaylistStore((s) => s.coverUrls);
+
+  const playTrack = usePlayerStore((s) => s.playTrack);
+  const playQueue = usePlayerStore((s) => s.playQueue);
+
+  const [isEditing, setIsEditing] = useState(false);
+  const [draftName, setDraftName] = useState("");
+  const [draftDescription, setDraftDescription] = useState("");
+  const [confirmDelete, setConfirmDelete] = useState(false);
+  const [coverError, setCoverError] = useState<string | null>(null);
+  const coverInput = useRef<HTMLInputElement>(null);
+
+  const handlePlayTrack = useCallback(
+    (track: Track) => {
+      if (playlist) playTrack(track, playlist.tracks, userPlaylistSource(playlist));
+    },
+    [playTrack, playlist]
+  );
+
+  const handleRemove = useCallback(
+    (index: number) => {
+      removeTracks(id, [index]);
+    },
+    [id, removeTracks]
+  );
+
+  const handleMove = useCallback(
+    (from: number, to: number) => {
+      moveTrack(id, from, to);
+    },
+    [id, moveTrack]
+  );
+
+  if (!playlist) {
+    return (
+      <div className="flex flex-1 flex-col items-center justify-center gap-4 p-6">
+        <p className="text-sm text-muted-foreground">Playlist not found</p>
+        <button
+          onClick={() => navigate("/library")}
+          className="text-sm text-primary hover:underline"
+        >
+          Go to library
+        </button>
+      </div>
+    );
+  }
+
+  const totalDuration = playlist.tracks.reduce((sum, t) => sum + t.duration, 0);
+  const cover = playlistCoverUrl(playlist, coverUrls);
+
+  const startEditing = () => {
+    setDraftName(playlist.name);
+    setDraftDescription(playlist.description ?? "");
+    setIsEditing(true);
+  };
+
+  const saveEdits = () => {
+    renamePlaylist(playlist.id, draftName);
+    setDescription(playlist.id, draftDescription);
+    setIsEditing(false);
+  };
+
+  const handleCoverFile = async (file: File | undefined) => {
+    if (!file) return;
+    setCoverError(null);
+    try {
+      await setCover(playlist.id, await readCoverFile(file));
+    } catch (error) {
+      console.warn("[Playlists] Could not read cover image:", error);
+      setCoverError("That image couldn't be used as a cover");
+    }
+  };
+
+  const handleDelete = () => {
+    if (!confirmDelete) {
+      setConfirmDelete(true);
+      return;
+    }
+    deletePlaylist(playlist.id);
+    navigate("/library");
+  };
+
+  return (
+    <div className="flex flex-1 flex-col">
+      {/* Header */}
+      <div className="flex gap-6 p-6 pb-4">
+        <button
+          onClick={() => navigate(-1)}
+          className="absolute mt-1 rounded-full p-1 text-muted-foreground transition-colors hover:bg-accent hover:text-foreground"
+        >
+          <ArrowLeft className="size-5" />
+        </button>
+
+        <button
+          onClick={() => coverInput.current?.click()}
+          title="Choose cover image"
+          className="group relative ml-8 size-48 shrink-0 overflow-hidden rounded-lg shadow-lg"
+        >
+          {cover ? (
+            <img src={cover} alt="" className="size-full object-cover" />
+          ) : (
+            <div className="flex size-full items-center justify-center bg-muted">
+              <ListMusic className="size-16 text-muted-foreground/50" />
+            </div>
+          )}
+          <span className="absolute inset-0 flex items-center justify-center bg-black/50 opacity-0 transition-opacity group-hover:opacity-100">
+            <ImagePlus className="size-8 text-white" />
+          </span>
+        </button>
+        <input
+          ref={coverInput}
+          type="file"
+          accept="image/*"
+          className="hidden"
+          onChange={(e) => {
+            void handleCoverFile(e.target.files?.[0]);
+            e.target.value = "";
+          }}
+        />
+
+        <div className="flex min-w-0 flex-1 flex-col justify-end gap-2">
+          <span className="text-xs font-medium uppercase tracking-wider text-muted-foreground">
+            Playlist
+          </span>
+          {isEditing ? (
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                saveEdits();
+              }}
+              className="flex max-w-md flex-col gap-2"
+            >
+              <Input
+                value={draftName}
+                onChange={(e) => setDraftName(e.target.value)}
+                placeholder="Name"
+                autoFocus
+              />
+              <textarea
+                value={draftDescription}
+                onChange={(e) => setDraftDescription(e.target.value)}
+                placeholder="Add a description"
+                rows={2}
+                className="w-full resize-none rounded-md border border-input bg-transparent px-3 py-2 text-sm outline-none placeholder:text-muted-foreground focus-visible:border-ring focus-visible:ring-[3px] focus-visible:ring-ring/50 dark:bg-input/30"
+              />
+              <div className="flex gap-2">
+                <Button type="submit" size="sm" disabled={!draftName.trim()}>
+                  Save
+                </Button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setIsEditing(false)}
+                >
+                  Cancel
+                </Button>
+              </div>
+            </form>
+          ) : (
+            <>
+              <h1 className="text-3xl font-bold tracking-tight">{playlist.name}</h1>
+              {playlist.description && (
+                <p className="text-sm text-muted-foreground">{playlist.description}</p>
+              )}
+            </>
+          )}
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <span>{playlist.numberOfTracks} tracks</span>
+            {totalDuration > 0 && (
+              <>
+                <span>--</span>
+                <Clock className="size-3.5" />
+                <span>{formatTime(totalDuration)}</span>
+              </>
+            )}
+          </div>
+          {coverError && <p className="text-xs text-destructive">{coverError}</p>}
+        </div>
+      </div>
+
+      {/* Actions */}
+      <div className="flex items-center gap-3 px-6 pb-4">
+        {playlist.tracks.length > 0 && (
+          <button
+            onClick={() => playQueue(playlist.tracks, 0, userPlaylistSource(playlist))}
+            className="inline-flex items-center gap-2 rounded-full bg-primary px-5 py-2 text-sm font-medium text-primary-foreground transition-colors hover:bg-primary/90"
+          >
+            <Play className="size-4" />
+            Play
+          </button>
+        )}
+        <button onClick={startEditing} title="Edit details" className={iconButtonClassName}>
+          <Pencil className="size-5" />
+        </button>
+        {playlist.cover && (
+          <button
+            onClick={() => void setCover(playlist.id, null)}
+            title="Remove cover image"
+            className={iconButtonClassName}
+          >
+            <ImageOff className="size-5" />
+          </button>
+        )}
+        <button
+          onClick={handleDelete}
+          onBlur={() => setConfirmDelete(false)}
+          title="Delete playlist"
+          className={
+            confirmDelete
+              ? "inline-flex items-center gap-2 rounded-full bg-destructive/15 px-4 py-2 text-sm font-medium text-destructive transition-colors hover:bg-destructive/25"
+              : iconButtonClassName
+          }
+        >
+          <Trash2 className="size-5" />
+          {confirmDelete && "Click again to delete"}
+        </button>
+        <DownloadButton tracks={playlist.tracks} />
+      </div>
+
+      {/* Track list */}
+      <div className="px-2 pb-6">
+        {playlist.tracks.length > 0 ? (
+          <TrackList
+            tracks={playlist.tracks}
+            onPlay={handlePlayTrack}
+            onRemove={handleRemove}
+            onMove={handleMove}
+          />
+        ) : (
+          <p className="px-4 py-8 text-center text-sm text-muted-foreground">
+            This playlist is empty. Add tracks from any album or track list.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
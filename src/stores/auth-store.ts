@@ -0,0 +1,148 @@
+/**
+ * Auth store -- React-facing mirror of the PocketBase session.
+ *
+ * The session itself (token + user record) is persisted by PocketBase's
+ * auth store; this store keeps it fresh and decides what happens to
+ * per-user state. The token is refreshed on startup and again shortly
+ * before it expires. Signing out clears favorites, history, playlists
+ * and unsent changes, but not settings; when a session merely lapses
+ * the data stays, and is only cleared if a *different* account signs
+ * in next.
+ */
+
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import { pb } from "@/lib/pocketbase";
+import { offlineQueue } from "@/lib/offline-queue";
+import {
+  currentUser,
+  isSessionRejected,
+  refreshSession,
+  signInWithOAuth as authWithOAuth,
+  signInWithPassword,
+  signOut as clearSession,
+  signUpWithPassword,
+  tokenExpiry,
+  type AuthUser,
+} from "@/lib/auth";
+import { useLibraryStore } from "./library-store";
+import { usePlaylistStore } from "./playlist-store";
+import { useSettingsStore } from "./settings-store";
+
+interface AuthState {
+  user: AuthUser | null;
+  /** Account whose data is held locally; null for data made signed out. */
+  dataOwner: string | null;
+}
+
+interface AuthActions {
+  signIn: (email: string, password: string) => Promise<void>;
+  signUp: (email: string, password: string, name: string) => Promise<void>;
+  signInWithOAuth: (provider: string) => Promise<void>;
+  signOut: () => void;
+}
+
+// Refresh this long before the token expires
+const REFRESH_MARGIN_MS = 24 * 60 * 60 * 1000;
+// Don't retry a failed refresh more often than this
+const MIN_REFRESH_DELAY_MS = 60 * 1000;
+// setTimeout overflows past ~24.8 days
+const MAX_TIMER_MS = 2 ** 31 - 1;
+
+/** Drop everything that belongs to the signed-in account. */
+function clearUserData(): void {
+  useLibraryStore.getState().reset();
+  usePlaylistStore.getState().reset();
+  offlineQueue.clear();
+}
+
+/** Pull the account's data after signing in. */
+function syncUserData(): void {
+  void useLibraryStore.getState().syncLibrary();
+  void usePlaylistStore.getState().syncPlaylists();
+  void useSettingsStore.getState().syncSettings();
+}
+
+export const useAuthStore = create<AuthState & AuthActions>()(
+  persist(
+    (set, get) => {
+      let refreshTimer: ReturnType<typeof setTimeout> | undefined;
+
+      function scheduleRefresh(): void {
+        clearTimeout(refreshTimer);
+        const expiry = tokenExpiry();
+        if (!expiry || !pb.authStore.isValid) return;
+
+        const delay = Math.min(
+          Math.max(expiry - Date.now() - REFRESH_MARGIN_MS, MIN_REFRESH_DELAY_MS),
+          MAX_TIMER_MS
+        );
+        refreshTimer = setTimeout(() => void refresh(), delay);
+      }
+
+      async function refresh(): Promise<void> {
+        try {
+          set({ user: await refreshSession() });
+        } catch (error) {
+          if (isSessionRejected(error)) {
+            console.warn("[Auth] Session was rejected, signing out:", error);
+            // Keep the data -- the same account will likely sign in again
+            clearSession();
+            return;
+          }
+          console.warn("[Auth] Could not refresh session:", error);
+        }
+        scheduleRefresh();
+      }
+
+      /** Take over a freshly authenticated session. */
+      function adopt(user: AuthUser): void {
+        const { dataOwner } = get();
+        if (dataOwner && dataOwner !== user.id) clearUserData();
+
+        set({ user, dataOwner: user.id });
+        scheduleRefresh();
+        syncUserData();
+      }
+
+      pb.authStore.onChange(() => {
+        set({ user: currentUser() });
+        if (!pb.authStore.isValid) clearTimeout(refreshTimer);
+      });
+
+      // Resume the stored session
+      if (pb.authStore.isValid) {
+        void refresh().then(() => {
+          if (pb.authStore.isValid) syncUserData();
+        });
+      }
+
+      return {
+        user: currentUser(),
+        dataOwner: null,
+
+        async signIn(email, password) {
+          adopt(await signInWithPassword(email, password));
+        },
+
+        async signUp(email, password, name) {
+          adopt(await signUpWithPassword(email, password, name));
+        },
+
+        async signInWithOAuth(provider) {
+          adopt(await authWithOAuth(provider));
+        },
+
+        signOut() {
+          clearSession();
+          clearUserData();
+          set({ user: null, dataOwner: null });
+        },
+      };
+    },
+    {
+      name: "moonsway-auth",
+      partialize: (state) => ({ dataOwner: state.dataOwner }),
+    }
+  )
+);
@@ -0,0 +1,237 @@
+/**
+ * Download store -- queue and index of offline tracks.
+ *
+ * Jobs run a few at a time; each one resolves a stream at the chosen
+ * quality, fetches the whole file and hands it to `downloadStorage`.
+ * The index of finished downloads is persisted so pages can show what's
+ * available offline without touching IndexedDB; the audio itself only
+ * lives in IndexedDB.
+ */
+
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import { getStreamUrl } from "@/lib/api/music-api";
+import { downloadStorage, fetchStreamAudio } from "@/lib/downloads";
+import { isStreamQuality } from "@/lib/quality";
+import type { StreamQuality, Track } from "@/types/music";
+
+export type DownloadStatus = "queued" | "downloading" | "failed";
+
+export interface DownloadJob {
+  track: Track;
+  quality: StreamQuality;
+  status: DownloadStatus;
+  /** 0-1 */
+  progress: number;
+  error?: string;
+}
+
+export interface DownloadedTrack {
+  track: Track;
+  /** Quality that was actually delivered. */
+  quality: StreamQuality;
+  size: number;
+  downloadedAt: number;
+}
+
+interface DownloadState {
+  jobs: DownloadJob[];
+  downloaded: Record<string, DownloadedTrack>;
+  /** Quality used when a download doesn't ask for one. */
+  downloadQuality: StreamQuality;
+}
+
+interface DownloadActions {
+  download: (tracks: Track[], quality?: StreamQuality) => void;
+  cancel: (trackId: string) => void;
+  cancelAll: () => void;
+  retry: (trackId: string) => void;
+  remove: (trackId: string) => Promise<void>;
+  setDownloadQuality: (quality: StreamQuality) => void;
+}
+
+const MAX_CONCURRENT_DOWNLOADS = 2;
+// Skip store updates for progress changes smaller than this
+const PROGRESS_STEP = 0.01;
+
+export const useDownloadStore = create<DownloadState & DownloadActions>()(
+  persist(
+    (set, get) => {
+      const controllers = new Map<string, AbortController>();
+
+      function patchJob(trackId: string, patch: Partial<DownloadJob>): void {
+        set((state) => ({
+          jobs: state.jobs.map((job) =>
+            job.track.id === trackId ? { ...job, ...patch } : job
+          ),
+        }));
+      }
+
+      function pump(): void {
+        const { jobs } = get();
+        let active = jobs.filter((job) => job.status === "downloading").length;
+
+        for (const job of jobs) {
+          if (active >= MAX_CONCURRENT_DOWNLOADS) break;
+          if (job.status !== "queued") continue;
+          active++;
+          void run(job);
+        }
+      }
+
+      async function run(job: DownloadJob): Promise<void> {
+        const trackId = job.track.id;
+        const controller = new AbortController();
+        controllers.set(trackId, controller);
+        patchJob(trackId, { status: "downloading", progress: 0, error: undefined });
+
+        let reported = 0;
+        const onProgress = (progress: number) => {
+          if (progress - reported < PROGRESS_STEP && progress < 1) return;
+          reported = progress;
+          patchJob(trackId, { progress });
+        };
+
+        try {
+          const stream = await getStreamUrl(trackId, job.quality);
+          const { blob, stream: stored } = await fetchStreamAudio(
+            stream,
+            controller.signal,
+            onProgress
+          );
+          await downloadStorage.save(trackId, blob, stored);
+          // Removed while it was being saved
+          if (controller.signal.aborted) {
+            await downloadStorage.delete(trackId);
+            return;
+          }
+
+          set((state) => ({
+            jobs: state.jobs.filter((j) => j.track.id !== trackId),
+            downloaded: {
+              ...state.downloaded,
+              [trackId]: {
+                track: job.track,
+                quality: stored.quality,
+                size: blob.size,
+                downloadedAt: Date.now(),
+              },
+            },
+          }));
+        } catch (error) {
+          // Cancelled -- the job was already removed
+          if (controller.signal.aborted) return;
+          console.warn("[Downloads] Failed to download track:", error);
+          patchJob(trackId, {
+            status: "failed",
+            error: error instanceof Error ? error.message : "Download failed",
+          });
+        } finally {
+          controllers.delete(trackId);
+          pump();
+        }
+      }
+
+      return {
+        jobs: [],
+        downloaded: {},
+        downloadQuality: "LOSSLESS",
+
+        download(tracks, quality) {
+          const state = get();
+          const queued = new Set(state.jobs.map((job) => job.track.id));
+          const jobs = tracks
+            .filter((track) => !state.downloaded[track.id] && !queued.has(track.id))
+            .filter((track, i, all) => all.findIndex((t) => t.id === track.id) === i)
+            .map<DownloadJob>((track) => ({
+              track,
+              quality: quality ?? state.downloadQuality,
+              status: "queued",
+              progress: 0,
+            }));
+          if (jobs.length === 0) return;
+
+          set({ jobs: [...state.jobs, ...jobs] });
+          pump();
+        },
+
+        cancel(trackId) {
+          controllers.get(trackId)?.abort();
+          set((state) => ({
+            jobs: state.jobs.filter((job) => job.track.id !== trackId),
+          }));
+          pump();
+        },
+
+        cancelAll() {
+          controllers.forEach((controller) => controller.abort());
+          set({ jobs: [] });
+        },
+
+        retry(trackId) {
+          const job = get().jobs.find((j) => j.track.id === trackId);
+          if (job?.status !== "failed") return;
+          patchJob(trackId, { status: "queued", progress: 0, error: undefined });
+          pump();
+        },
+
+        async remove(trackId) {
+          controllers.get(trackId)?.abort();
+          set((state) => {
+            const downloaded = { ...state.downloaded };
+            delete downloaded[trackId];
+            return {
+              downloaded,
+              jobs: state.jobs.filter((job) => job.track.id !== trackId),
+            };
+          });
+          try {
+            await downloadStorage.delete(trackId);
+          } catch (error) {
+            console.warn("[Downloads] Failed to delete track:", error);
+          }
+        },
+
+        setDownloadQuality(quality) {
+          set({ downloadQuality: quality });
+        },
+      };
+    },
+    {
+      name: "moonsway-downloads",
+      partialize: (state) => ({
+        downloaded: state.downloaded,
+        downloadQuality: state.downloadQuality,
+      }),
+      merge: (persisted, current) => {
+        const saved = (persisted ?? {}) as Partial<DownloadState>;
+        return {
+          ...current,
+          downloaded: saved.downloaded ?? current.downloaded,
+          downloadQuality: isStreamQuality(saved.downloadQuality)
+            ? saved.downloadQuality
+            : current.downloadQuality,
+        };
+      },
+      onRehydrateStorage: () => (state) => {
+        if (!state) return;
+        // Drop index entries whose audio was evicted or cleared
+        downloadStorage
+          .keys()
+          .then((keys) => {
+            const stored = new Set(keys);
+            const downloaded = useDownloadStore.getState().downloaded;
+            const missing = Object.keys(downloaded).filter((id) => !stored.has(id));
+            if (missing.length === 0) return;
+
+            const kept = { ...downloaded };
+            missing.forEach((id) => delete kept[id]);
+            useDownloadStore.setState({ downloaded: kept });
+          })
+          .catch((error) => {
+            console.warn("[Downloads] Failed to check stored audio:", error);
+          });
+      },
+    }
+  )
+);
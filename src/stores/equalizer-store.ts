@@ -0,0 +1,181 @@
+/**
+ * Equalizer store -- EQ settings, saved presets and per-device profiles.
+ *
+ * The settings for the selected output device are the "live" fields at
+ * the top level; every change is mirrored into that device's profile
+ * and pushed to the playback engine. Switching devices loads the
+ * profile saved for the new device.
+ */
+
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import { engine } from "@/lib/audio/playback-engine";
+import {
+  BUILT_IN_PRESETS,
+  DEFAULT_EQ_SETTINGS,
+  EQ_GAIN_RANGE,
+  EQ_MAX_FREQUENCY,
+  EQ_MAX_Q,
+  EQ_MIN_FREQUENCY,
+  EQ_MIN_Q,
+  createDefaultBands,
+  type EqBand,
+  type EqPreset,
+  type EqSettings,
+} from "@/lib/audio/equalizer";
+
+interface EqProfile extends EqSettings {
+  /** Preset the settings came from, cleared once they're edited. */
+  presetId: string | null;
+}
+
+interface EqualizerState extends EqProfile {
+  customPresets: EqPreset[];
+  deviceProfiles: Record<string, EqProfile>;
+  outputDeviceId: string;
+}
+
+interface EqualizerActions {
+  setEnabled: (enabled: boolean) => void;
+  setPreamp: (db: number) => void;
+  updateBand: (index: number, patch: Partial<Omit<EqBand, "type">>) => void;
+  applyPreset: (id: string) => void;
+  savePreset: (name: string) => void;
+  deletePreset: (id: string) => void;
+  resetBands: () => void;
+  setOutputDevice: (deviceId: string) => void;
+}
+
+const DEFAULT_PROFILE: EqProfile = { ...DEFAULT_EQ_SETTINGS, presetId: "flat" };
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, value));
+}
+
+function profileOf(state: EqProfile): EqProfile {
+  return {
+    enabled: state.enabled,
+    preamp: state.preamp,
+    bands: state.bands,
+    presetId: state.presetId,
+  };
+}
+
+export function findPreset(
+  id: string | null,
+  customPresets: EqPreset[]
+): EqPreset | undefined {
+  if (!id) return undefined;
+  return [...BUILT_IN_PRESETS, ...customPresets].find((p) => p.id === id);
+}
+
+export const useEqualizerStore = create<EqualizerState & EqualizerActions>()(
+  persist(
+    (set, get) => {
+      /** Apply a settings change, save it for the device and hear it. */
+      function update(patch: Partial<EqProfile>): void {
+        const state = { ...get(), ...patch };
+        const profile = profileOf(state);
+        set({
+          ...patch,
+          deviceProfiles: { ...state.deviceProfiles, [state.outputDeviceId]: profile },
+        });
+        engine.setEqualizer(profile);
+      }
+
+      return {
+        ...DEFAULT_PROFILE,
+        customPresets: [],
+        deviceProfiles: {},
+        outputDeviceId: "default",
+
+        setEnabled(enabled) {
+          update({ enabled });
+        },
+
+        setPreamp(db) {
+          update({ preamp: clamp(db, -EQ_GAIN_RANGE, EQ_GAIN_RANGE), presetId: null });
+        },
+
+        updateBand(index, patch) {
+          const bands = get().bands.map((band, i) => {
+            if (i !== index) return band;
+            return {
+              ...band,
+              frequency: clamp(
+                patch.frequency ?? band.frequency,
+                EQ_MIN_FREQUENCY,
+                EQ_MAX_FREQUENCY
+              ),
+              gain: clamp(patch.gain ?? band.gain, -EQ_GAIN_RANGE, EQ_GAIN_RANGE),
+              q: clamp(patch.q ?? band.q, EQ_MIN_Q, EQ_MAX_Q),
+            };
+          });
+          update({ bands, presetId: null });
+        },
+
+        applyPreset(id) {
+          const preset = findPreset(id, get().customPresets);
+          if (!preset) return;
+          update({
+            enabled: true,
+            preamp: preset.preamp,
+            bands: preset.bands.map((band) => ({ ...band })),
+            presetId: preset.id,
+          });
+        },
+
+        savePreset(name) {
+          const trimmed = name.trim();
+          if (!trimmed) return;
+
+          const state = get();
+          // Saving under an existing custom name overwrites it
+          const existing = state.customPresets.find(
+            (p) => p.name.toLowerCase() === trimmed.toLowerCase()
+          );
+          const preset: EqPreset = {
+            id: existing?.id ?? `custom-${Date.now().toString(36)}`,
+            name: trimmed,
+            preamp: state.preamp,
+            bands: state.bands.map((band) => ({ ...band })),
+          };
+
+          set({
+            customPresets: existing
+              ? state.customPresets.map((p) => (p.id === existing.id ? preset : p))
+              : [...state.customPresets, preset],
+          });
+          update({ presetId: preset.id });
+        },
+
+        deletePreset(id) {
+          const state = get();
+          set({ customPresets: state.customPresets.filter((p) => p.id !== id) });
+          if (state.presetId === id) update({ presetId: null });
+        },
+
+        resetBands() {
+          update({ preamp: 0, bands: createDefaultBands(), presetId: "flat" });
+        },
+
+        setOutputDevice(deviceId) {
+          const profile = get().deviceProfiles[deviceId] ?? profileOf(get());
+          set({ outputDeviceId: deviceId });
+          update(profile);
+          void engine.setOutputDevice(deviceId);
+        },
+      };
+    },
+    {
+      name: "moonsway-equalizer",
+      onRehydrateStorage: () => (state) => {
+        if (!state) return;
+        engine.setEqualizer(profileOf(state));
+        if (state.outputDeviceId !== "default") {
+          void engine.setOutputDevice(state.outputDeviceId);
+        }
+      },
+    }
+  )
+);
@@ -0,0 +1,165 @@
+/**
+ * Instance store -- the user's API and streaming instance lists.
+ *
+ * Lists are persisted and pushed into the API layer (`setInstances`)
+ * whenever they change. Health data lives in the instanceHealth monitor
+ * and is mirrored here for the settings page; it isn't persisted.
+ */
+
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import {
+  DEFAULT_INSTANCES,
+  INSTANCE_TYPES,
+  normalizeInstanceUrl,
+  parseInstanceList,
+  setInstances,
+  type InstanceType,
+} from "@/lib/api/instances";
+import { instanceHealth, type InstanceHealth } from "@/lib/api/instance-health";
+
+interface InstanceState {
+  instances: Record<InstanceType, string[]>;
+  health: Record<string, InstanceHealth>;
+  isProbing: boolean;
+}
+
+interface InstanceActions {
+  /** Returns false if the URL is invalid or already in the list. */
+  addInstance: (type: InstanceType, url: string) => boolean;
+  removeInstance: (type: InstanceType, url: string) => void;
+  moveInstance: (type: InstanceType, url: string, offset: number) => void;
+  resetInstances: (type: InstanceType) => void;
+  /** Merge a pasted or uploaded list. Returns how many were added. */
+  importInstances: (type: InstanceType, text: string) => number;
+  importFromUrl: (type: InstanceType, url: string) => Promise<number>;
+  probeNow: () => Promise<void>;
+}
+
+function defaultInstances(): Record<InstanceType, string[]> {
+  return {
+    api: [...DEFAULT_INSTANCES.api],
+    streaming: [...DEFAULT_INSTANCES.streaming],
+  };
+}
+
+function applyInstances(instances: Record<InstanceType, string[]>): void {
+  for (const type of INSTANCE_TYPES) {
+    setInstances(type, instances[type]);
+  }
+  instanceHealth.prune(INSTANCE_TYPES.flatMap((type) => instances[type]));
+}
+
+function allUrls(instances: Record<InstanceType, string[]>): string[] {
+  return Array.from(new Set(INSTANCE_TYPES.flatMap((type) => instances[type])));
+}
+
+export const useInstanceStore = create<InstanceState & InstanceActions>()(
+  persist(
+    (set, get) => {
+      const updateList = (type: InstanceType, urls: string[]) => {
+        const instances = { ...get().instances, [type]: urls };
+        set({ instances });
+        applyInstances(instances);
+      };
+
+      instanceHealth.addEventListener("change", () => {
+        set({ health: instanceHealth.snapshot() });
+      });
+      instanceHealth.startProbing(() => allUrls(get().instances));
+
+      return {
+        instances: defaultInstances(),
+        health: instanceHealth.snapshot(),
+        isProbing: false,
+
+        addInstance(type, url) {
+          const normalized = normalizeInstanceUrl(url);
+          const list = get().instances[type];
+          if (!normalized || list.includes(normalized)) return false;
+          updateList(type, [...list, normalized]);
+          return true;
+        },
+
+        removeInstance(type, url) {
+          const list = get().instances[type];
+          // Keep at least one instance so requests have somewhere to go
+          if (list.length <= 1) return;
+          updateList(type, list.filter((item) => item !== url));
+        },
+
+        moveInstance(type, url, offset) {
+          const list = [...get().instances[type]];
+          const from = list.indexOf(url);
+          const to = from + offset;
+          if (from === -1 || to < 0 || to >= list.length) return;
+          list.splice(from, 1);
+          list.splice(to, 0, url);
+          updateList(type, list);
+        },
+
+        resetInstances(type) {
+          updateList(type, [...DEFAULT_INSTANCES[type]]);
+        },
+
+        importInstances(type, text) {
+          const parsed = parseInstanceList(text, type);
+          let added = 0;
+
+          for (const listType of INSTANCE_TYPES) {
+            const incoming = parsed[listType];
+            if (!incoming) continue;
+
+            const list = get().instances[listType];
+            const fresh = incoming.filter((url) => !list.includes(url));
+            if (fresh.length === 0) continue;
+
+            updateList(listType, [...list, ...fresh]);
+            added += fresh.length;
+          }
+
+          return added;
+        },
+
+        async importFromUrl(type, url) {
+          const response = await fetch(url, { cache: "no-store" });
+          if (!response.ok) {
+            throw new Error(`Request failed with status ${response.status}`);
+          }
+          return get().importInstances(type, await response.text());
+        },
+
+        async probeNow() {
+          if (get().isProbing) return;
+          set({ isProbing: true });
+          try {
+            await instanceHealth.probeAll();
+          } finally {
+            set({ isProbing: false });
+          }
+        },
+      };
+    },
+    {
+      name: "moonsway-instances",
+      partialize: (state) => ({ instances: state.instances }),
+      merge: (persisted, current) => {
+        const stored = (persisted as Partial<InstanceState> | undefined)?.instances;
+        const instances = defaultInstances();
+
+        for (const type of INSTANCE_TYPES) {
+          const list = stored?.[type];
+          const urls = Array.isArray(list)
+            ? list.filter((url): url is string => typeof url === "string")
+            : [];
+          if (urls.length > 0) instances[type] = urls;
+        }
+
+        return { ...current, instances };
+      },
+      onRehydrateStorage: () => (state) => {
+        if (state) applyInstances(state.instances);
+      },
+    }
+  )
+);
@@ -1,19 +1,71 @@
 /**
- * Library store -- persists favorites and history locally via localStorage.
+ * Library store -- favorites and play history, local-first.
  *
- * Stores favorite tracks, albums, and artists, plus a play history log.
- * When PocketBase auth is wired up, this store can sync to the server.
+ * Favorites persist to localStorage. Every logged play goes to the
+ * play log in IndexedDB (see lib/play-log); `history` here is only the
+ * recently played tracks, one entry per track, rebuilt from the log
+ * whenever it changes. Everything works signed out. While
+ * signed in, changes are queued on the offline queue for PocketBase,
+ * and `syncLibrary()` (called by the auth store on sign-in) merges the
+ * server's copy and then follows it in realtime.
+ *
+ * Merging is by timestamp. Each favorite remembers when it was added,
+ * and removing one leaves a tombstone with the removal time, so a
+ * stale copy from the server can't bring it back. A favorite the
+ * server no longer has was removed on another device if the server is
+ * known to have had it (`syncedFavorites`); otherwise it was added here
+ * and still needs pushing. That is tracked per favorite because queued
+ * adds don't reach the server in order -- one that fails stays queued
+ * while later ones go through.
+ *
+ * Plays keep their ID on the server, so syncing history is a matter of
+ * sending the plays the log hasn't marked as synced and fetching the
+ * ones changed on the server since the last pull.
  */
 
 import { create } from "zustand";
 import { persist } from "zustand/middleware";
-import type { Track, Album, ArtistMinified } from "@/types/music";
+import { currentUserId, newRecordId } from "@/lib/pocketbase";
+import { offlineQueue } from "@/lib/offline-queue";
+import { playLog, type LoggedPlay } from "@/lib/play-log";
+import {
+  clearRemoteHistory,
+  deleteRemoteFavorite,
+  favoriteKey,
+  fetchRemoteFavorites,
+  fetchRemotePlays,
+  fetchRemotePlayTimes,
+  hasRemotePlaysBefore,
+  pushFavorite,
+  pushPlay,
+  subscribeToLibrary,
+  type LibraryItems,
+  type LibraryItemType,
+  type RemoteFavorite,
+  type RemotePlay,
+} from "@/lib/library-sync";
+import type { Track, Album, ArtistMinified, PlayEvent } from "@/types/music";
 
 interface LibraryState {
   favoriteTracks: Track[];
   favoriteAlbums: Album[];
   favoriteArtists: ArtistMinified[];
+  /** Recently played tracks, newest first, each track once. */
   history: Track[];
+  /** When each favorite was added, by `favoriteKey()`. */
+  favoriteTimes: Record<string, number>;
+  /** When removed favorites were removed, by `favoriteKey()`. */
+  tombstones: Record<string, number>;
+  /** When each track in `history` was last played, by track ID. */
+  playedTimes: Record<string, number>;
+  /** Plays at or before this were cleared. */
+  historyClearedAt: number;
+  /** Server time of the newest play change pulled so far. */
+  historySyncedAt: number;
+  /** Favorites the server is known to have, by `favoriteKey()`. */
+  syncedFavorites: Record<string, true>;
+  /** Bumped whenever the play log changes, for views that read it. */
+  logRevision: number;
 }
 
 interface LibraryActions {
@@ -23,83 +75,464 @@ interface LibraryActions {
   isTrackFavorited: (id: string) => boolean;
   isAlbumFavorited: (id: string) => boolean;
   isArtistFavorited: (id: string) => boolean;
-  addToHistory: (track: Track) => void;
+  /**
+   * Log a play (see lib/play-tracker). Called again with the same ID as
+   * the play goes on; `final` once it has ended.
+   */
+  recordPlay: (play: PlayEvent, final: boolean) => void;
   clearHistory: () => void;
+  /** Merge with the signed-in user's library and follow it in realtime. */
+  syncLibrary: () => Promise<void>;
+  /** Forget everything, e.g. when the account it belongs to signs out. */
+  reset: () => void;
 }
 
+type FavoriteLists = Pick<LibraryState, "favoriteTracks" | "favoriteAlbums" | "favoriteArtists">;
+
 const MAX_HISTORY = 100;
+// Recent plays scanned to find the MAX_HISTORY most recent tracks
+const RECENT_PLAYS_SCANNED = 1000;
+// Tombstones only need to outlive the slowest device's next sync
+const TOMBSTONE_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+const FAVORITE_LISTS: Record<LibraryItemType, keyof FavoriteLists> = {
+  track: "favoriteTracks",
+  album: "favoriteAlbums",
+  artist: "favoriteArtists",
+};
+
+const ADD_FAVORITE_ACTION = "favorite:add";
+const REMOVE_FAVORITE_ACTION = "favorite:remove";
+const PLAY_ACTION = "history:add";
+const CLEAR_HISTORY_ACTION = "history:clear";
+
+const EMPTY_LIBRARY: LibraryState = {
+  favoriteTracks: [],
+  favoriteAlbums: [],
+  favoriteArtists: [],
+  history: [],
+  favoriteTimes: {},
+  tombstones: {},
+  playedTimes: {},
+  historyClearedAt: 0,
+  historySyncedAt: 0,
+  syncedFavorites: {},
+  logRevision: 0,
+};
+
+interface FavoritePayload {
+  type: LibraryItemType;
+  item: LibraryItems[LibraryItemType];
+  addedAt: number;
+}
 
 export const useLibraryStore = create<LibraryState & LibraryActions>()(
   persist(
-    (set, get) => ({
-      favoriteTracks: [],
-      favoriteAlbums: [],
-      favoriteArtists: [],
-      history: [],
+    (set, get) => {
+      let stopRealtime: (() => Promise<void>) | null = null;
+
+      // -- Favorites --
+
+      function listOf(type: LibraryItemType): { id: string }[] {
+        return get()[FAVORITE_LISTS[type]];
+      }
 
-      toggleFavoriteTrack(track) {
+      /** Add or remove a favorite locally, optionally queueing the change. */
+      function applyFavorite(
+        type: LibraryItemType,
+        item: LibraryItems[LibraryItemType],
+        favorite: boolean,
+        at: number,
+        push: boolean
+      ): void {
+        const key = favoriteKey(type, item.id);
+        const list = FAVORITE_LISTS[type];
         const state = get();
-        const exists = state.favoriteTracks.some((t) => t.id === track.id);
-        if (exists) {
-          set({
-            favoriteTracks: state.favoriteTracks.filter((t) => t.id !== track.id),
-          });
+        const current = state[list] as { id: string }[];
+        const exists = current.some((i) => i.id === item.id);
+        if (exists === favorite) return;
+
+        const favoriteTimes = { ...state.favoriteTimes };
+        const tombstones = { ...state.tombstones };
+        const syncedFavorites = { ...state.syncedFavorites };
+        if (favorite) {
+          favoriteTimes[key] = at;
+          delete tombstones[key];
         } else {
-          set({ favoriteTracks: [track, ...state.favoriteTracks] });
+          delete favoriteTimes[key];
+          tombstones[key] = at;
         }
-      },
+        // Changes from the server are on the server; local ones aren't yet
+        if (favorite && !push) syncedFavorites[key] = true;
+        else delete syncedFavorites[key];
 
-      toggleFavoriteAlbum(album) {
-        const state = get();
-        const exists = state.favoriteAlbums.some((a) => a.id === album.id);
-        if (exists) {
-          set({
-            favoriteAlbums: state.favoriteAlbums.filter((a) => a.id !== album.id),
-          });
-        } else {
-          set({ favoriteAlbums: [album, ...state.favoriteAlbums] });
+        set({
+          [list]: favorite
+            ? [item, ...current]
+            : current.filter((i) => i.id !== item.id),
+          favoriteTimes,
+          tombstones,
+          syncedFavorites,
+        } as Partial<LibraryState>);
+
+        if (push && currentUserId()) {
+          if (favorite) {
+            const payload: FavoritePayload = { type, item, addedAt: at };
+            offlineQueue.enqueue(ADD_FAVORITE_ACTION, payload);
+          } else {
+            offlineQueue.enqueue(REMOVE_FAVORITE_ACTION, { type, id: item.id });
+          }
         }
-      },
+      }
 
-      toggleFavoriteArtist(artist) {
-        const state = get();
-        const exists = state.favoriteArtists.some((a) => a.id === artist.id);
-        if (exists) {
-          set({
-            favoriteArtists: state.favoriteArtists.filter(
-              (a) => a.id !== artist.id
-            ),
-          });
-        } else {
-          set({ favoriteArtists: [artist, ...state.favoriteArtists] });
+      function toggleFavorite(type: LibraryItemType, item: LibraryItems[LibraryItemType]): void {
+        const exists = listOf(type).some((i) => i.id === item.id);
+        applyFavorite(type, item, !exists, Date.now(), true);
+      }
+
+      /** A favorite arrived from the server; older than a local removal loses. */
+      function receiveFavorite({ type, item, updatedAt }: RemoteFavorite): void {
+        const removedAt = get().tombstones[favoriteKey(type, item.id)] ?? 0;
+        if (removedAt > updatedAt) return;
+        applyFavorite(type, item, true, updatedAt, false);
+        markSynced(favoriteKey(type, item.id));
+      }
+
+      /** The server has the favorite under `key`, if it's still one here. */
+      function markSynced(key: string): void {
+        set((state) =>
+          key in state.favoriteTimes && !state.syncedFavorites[key]
+            ? { syncedFavorites: { ...state.syncedFavorites, [key]: true } }
+            : {}
+        );
+      }
+
+      // -- History --
+
+      /** Rebuild the recently played list after the play log changed. */
+      async function refreshHistory(): Promise<void> {
+        try {
+          const plays = await playLog.list(RECENT_PLAYS_SCANNED);
+          const latest = new Map<string, PlayEvent>();
+          for (const play of plays) {
+            if (latest.size >= MAX_HISTORY) break;
+            if (!latest.has(play.track.id)) latest.set(play.track.id, play);
+          }
+
+          const recent = Array.from(latest.values());
+          set((state) => ({
+            history: recent.map((play) => play.track),
+            playedTimes: Object.fromEntries(recent.map((play) => [play.track.id, play.startedAt])),
+            logRevision: state.logRevision + 1,
+          }));
+        } catch (error) {
+          console.warn("[Library] Could not read play history:", error);
         }
-      },
+      }
 
-      isTrackFavorited(id) {
-        return get().favoriteTracks.some((t) => t.id === id);
-      },
+      /**
+       * Store plays from the server. Local copies changed here and not
+       * sent yet win; `local` needs to include those.
+       */
+      async function receivePlays(plays: RemotePlay[], local: LoggedPlay[]): Promise<void> {
+        const pending = new Set(local.filter((play) => !play.synced).map((play) => play.id));
+        const { historyClearedAt } = get();
+        await playLog.put(
+          plays.filter((play) => play.startedAt > historyClearedAt && !pending.has(play.id)),
+          true
+        );
+      }
 
-      isAlbumFavorited(id) {
-        return get().favoriteAlbums.some((a) => a.id === id);
-      },
+      // -- Sync --
 
-      isArtistFavorited(id) {
-        return get().favoriteArtists.some((a) => a.id === id);
-      },
+      async function pullFavorites(userId: string): Promise<void> {
+        const pulledAt = Date.now();
+        const remote = await fetchRemoteFavorites(userId);
+        const remoteKeys = new Set(remote.map((f) => favoriteKey(f.type, f.item.id)));
 
-      addToHistory(track) {
-        const state = get();
-        const filtered = state.history.filter((t) => t.id !== track.id);
-        const updated = [track, ...filtered].slice(0, MAX_HISTORY);
-        set({ history: updated });
-      },
+        for (const favorite of remote) {
+          const key = favoriteKey(favorite.type, favorite.item.id);
+          if ((get().tombstones[key] ?? 0) > favorite.updatedAt) {
+            // Removed here (maybe while signed out) after the server's copy
+            offlineQueue.enqueue(REMOVE_FAVORITE_ACTION, {
+              type: favorite.type,
+              id: favorite.item.id,
+            });
+          } else {
+            receiveFavorite(favorite);
+          }
+        }
 
-      clearHistory() {
-        set({ history: [] });
-      },
-    }),
+        const { favoriteTimes, syncedFavorites } = get();
+        for (const type of Object.keys(FAVORITE_LISTS) as LibraryItemType[]) {
+          for (const item of listOf(type) as LibraryItems[LibraryItemType][]) {
+            const key = favoriteKey(type, item.id);
+            if (remoteKeys.has(key)) continue;
+
+            const addedAt = favoriteTimes[key] ?? 0;
+            if (syncedFavorites[key]) {
+              // The server had it and doesn't any more -- removed elsewhere
+              applyFavorite(type, item, false, pulledAt, false);
+            } else {
+              const payload: FavoritePayload = { type, item, addedAt };
+              offlineQueue.enqueue(ADD_FAVORITE_ACTION, payload);
+            }
+          }
+        }
+      }
+
+      async function pullHistory(userId: string): Promise<void> {
+        const { historyClearedAt, historySyncedAt } = get();
+        const [remote, changed, local] = await Promise.all([
+          fetchRemotePlayTimes(userId, RECENT_PLAYS_SCANNED),
+          fetchRemotePlays(userId, historySyncedAt),
+          playLog.all(),
+        ]);
+
+        await receivePlays(changed, local);
+
+        // Sent from here before and gone from the server -- removed
+        // elsewhere. Only the recent plays were fetched, so only check those.
+        await playLog.delete(
+          local
+            .filter(
+              (play) =>
+                play.synced && play.startedAt > remote.coveredAfter && !remote.times.has(play.id)
+            )
+            .map((play) => play.id)
+        );
+
+        // Logged here (maybe while signed out) and not sent yet
+        for (const play of local) {
+          if (!play.synced && play.startedAt > historyClearedAt) {
+            offlineQueue.enqueue(PLAY_ACTION, { id: play.id });
+          }
+        }
+
+        // Cleared here while the server still has the old plays
+        if (historyClearedAt > 0 && (await hasRemotePlaysBefore(userId, historyClearedAt))) {
+          offlineQueue.enqueue(CLEAR_HISTORY_ACTION, { before: historyClearedAt });
+        }
+
+        const syncedAt = changed.reduce((max, play) => Math.max(max, play.updatedAt), historySyncedAt);
+        set({ historySyncedAt: syncedAt });
+        await refreshHistory();
+      }
+
+      async function startRealtime(userId: string): Promise<void> {
+        await stopRealtime?.();
+        stopRealtime = await subscribeToLibrary(userId, {
+          onFavoriteAdded: receiveFavorite,
+          onFavoriteRemoved(type, id, at) {
+            const item = listOf(type).find((i) => i.id === id);
+            if (!item) return;
+            // Re-added here after the removal happened
+            if ((get().favoriteTimes[favoriteKey(type, id)] ?? 0) > at) return;
+            applyFavorite(type, item as LibraryItems[LibraryItemType], false, at, false);
+          },
+          onPlayed(play) {
+            void playLog
+              .get(play.id)
+              .then((local) => receivePlays([play], local ? [local] : []))
+              .then(refreshHistory)
+              .catch((error) => {
+                console.warn("[Library] Could not log play from another device:", error);
+              });
+          },
+          onPlayRemoved(id) {
+            void playLog
+              .delete([id])
+              .then(refreshHistory)
+              .catch((error) => {
+                console.warn("[Library] Could not remove play:", error);
+              });
+          },
+        });
+      }
+
+      function pruneTombstones(): void {
+        const cutoff = Date.now() - TOMBSTONE_TTL_MS;
+        const tombstones = Object.fromEntries(
+          Object.entries(get().tombstones).filter(([, at]) => at > cutoff)
+        );
+        set({ tombstones });
+      }
+
+      return {
+        ...EMPTY_LIBRARY,
+
+        toggleFavoriteTrack(track) {
+          toggleFavorite("track", track);
+        },
+
+        toggleFavoriteAlbum(album) {
+          toggleFavorite("album", album);
+        },
+
+        toggleFavoriteArtist(artist) {
+          toggleFavorite("artist", artist);
+        },
+
+        isTrackFavorited(id) {
+          return get().favoriteTracks.some((t) => t.id === id);
+        },
+
+        isAlbumFavorited(id) {
+          return get().favoriteAlbums.some((a) => a.id === id);
+        },
+
+        isArtistFavorited(id) {
+          return get().favoriteArtists.some((a) => a.id === id);
+        },
+
+        recordPlay(play, final) {
+          void playLog
+            .put([play], false)
+            .then(() => {
+              // Only finished plays are sent; unfinished ones go on the next sync
+              if (final && currentUserId()) offlineQueue.enqueue(PLAY_ACTION, { id: play.id });
+              return refreshHistory();
+            })
+            .catch((error) => {
+              console.warn("[Library] Could not log play:", error);
+            });
+        },
+
+        clearHistory() {
+          const now = Date.now();
+          set({ history: [], playedTimes: {}, historyClearedAt: now });
+          void playLog
+            .clear(now)
+            .then(refreshHistory)
+            .catch((error) => {
+              console.warn("[Library] Could not clear play history:", error);
+            });
+          if (currentUserId()) offlineQueue.enqueue(CLEAR_HISTORY_ACTION, { before: now });
+        },
+
+        async syncLibrary() {
+          const userId = currentUserId();
+          if (!userId) return;
+
+          // Send pending changes first so the pull reflects them
+          await offlineQueue.replay();
+          pruneTombstones();
+
+          try {
+            await pullFavorites(userId);
+            await pullHistory(userId);
+            await startRealtime(userId);
+          } catch (error) {
+            console.warn("[Library] Could not sync library:", error);
+          }
+        },
+
+        reset() {
+          void stopRealtime?.();
+          stopRealtime = null;
+          set((state) => ({ ...EMPTY_LIBRARY, logRevision: state.logRevision + 1 }));
+          void playLog.clearAll().catch((error) => {
+            console.warn("[Library] Could not clear play history:", error);
+          });
+        },
+      };
+    },
     {
       name: "moonsway-library",
+      version: 2,
+      partialize: (state) => ({
+        favoriteTracks: state.favoriteTracks,
+        favoriteAlbums: state.favoriteAlbums,
+        favoriteArtists: state.favoriteArtists,
+        history: state.history,
+        favoriteTimes: state.favoriteTimes,
+        tombstones: state.tombstones,
+        playedTimes: state.playedTimes,
+        historyClearedAt: state.historyClearedAt,
+        historySyncedAt: state.historySyncedAt,
+        syncedFavorites: state.syncedFavorites,
+      }),
+      migrate: (persisted, version) => {
+        const state = persisted as Partial<LibraryState> & { favoritesSyncedAt?: number };
+        // Before the play log, history was only this list. Signed in,
+        // the server has the plays already and the next sync brings them.
+        if (version < 1 && !currentUserId()) {
+          void playLog.put(legacyPlays(state), false).catch((error) => {
+            console.warn("[Library] Could not move history to the play log:", error);
+          });
+        }
+        // Before per-favorite tracking, one watermark covered every add
+        if (version < 2) {
+          const { favoritesSyncedAt = 0, favoriteTimes = {} } = state;
+          state.syncedFavorites = Object.fromEntries(
+            Object.entries(favoriteTimes)
+              .filter(([, addedAt]) => favoritesSyncedAt > 0 && addedAt <= favoritesSyncedAt)
+              .map(([key]) => [key, true as const])
+          );
+          delete state.favoritesSyncedAt;
+        }
+        return state as LibraryState & LibraryActions;
+      },
     }
   )
 );
+
+/** The recently played list from before the play log, as plays. */
+function legacyPlays({
+  history = [],
+  playedTimes = {},
+  historyClearedAt = 0,
+}: Partial<LibraryState>): PlayEvent[] {
+  return history.map((track) => ({
+    id: newRecordId(),
+    track,
+    startedAt: playedTimes[track.id] ?? historyClearedAt + 1,
+    listened: 0,
+    completed: false,
+  }));
+}
+
+// -- Offline queue handlers --
+
+offlineQueue.register(ADD_FAVORITE_ACTION, async (payload) => {
+  const { type, item, addedAt } = payload as FavoritePayload;
+  const userId = currentUserId();
+  if (!userId) return;
+
+  // Removed again before this ran -- nothing to add
+  const { tombstones } = useLibraryStore.getState();
+  if ((tombstones[favoriteKey(type, item.id)] ?? 0) > addedAt) return;
+
+  await pushFavorite(userId, type, item);
+  // Only this add is confirmed; earlier ones may still be queued. And if
+  // it was removed and added again meanwhile, that newer add isn't.
+  const key = favoriteKey(type, item.id);
+  useLibraryStore.setState((state) =>
+    state.favoriteTimes[key] === addedAt
+      ? { syncedFavorites: { ...state.syncedFavorites, [key]: true } }
+      : {}
+  );
+});
+
+offlineQueue.register(REMOVE_FAVORITE_ACTION, async (payload) => {
+  const { type, id } = payload as { type: LibraryItemType; id: string };
+  const userId = currentUserId();
+  if (userId) await deleteRemoteFavorite(userId, type, id);
+});
+
+offlineQueue.register(PLAY_ACTION, async (payload) => {
+  const { id } = payload as { id?: string };
+  const userId = currentUserId();
+  // Gone if history was cleared before it was sent
+  const play = userId && id ? await playLog.get(id) : null;
+  if (!userId || !play) return;
+
+  await pushPlay(userId, play);
+  await playLog.markSynced(play);
+});
+
+offlineQueue.register(CLEAR_HISTORY_ACTION, async (payload) => {
+  const { before } = payload as { before: number };
+  const userId = currentUserId();
+  if (userId) await clearRemoteHistory(userId, before);
+});
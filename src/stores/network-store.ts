@@ -0,0 +1,44 @@
+/**
+ * Network store -- React-facing mirror of the network monitor and the
+ * offline action queue.
+ */
+
+import { create } from "zustand";
+import { network } from "@/lib/network";
+import { offlineQueue } from "@/lib/offline-queue";
+
+interface NetworkState {
+  isOffline: boolean;
+  /** Offline mode was switched on by the user rather than detected. */
+  isForcedOffline: boolean;
+  /** Actions waiting for connectivity. */
+  pendingActions: number;
+}
+
+interface NetworkActions {
+  setForcedOffline: (forced: boolean) => void;
+}
+
+export const useNetworkStore = create<NetworkState & NetworkActions>()((set) => {
+  const sync = () => {
+    set({
+      isOffline: network.isOffline,
+      isForcedOffline: network.isForcedOffline,
+      pendingActions: offlineQueue.size,
+    });
+  };
+
+  network.addEventListener("change", sync);
+  offlineQueue.addEventListener("change", sync);
+
+  return {
+    isOffline: network.isOffline,
+    isForcedOffline: network.isForcedOffline,
+    pendingActions: offlineQueue.size,
+
+    setForcedOffline(forced) {
+      network.setForcedOffline(forced);
+      sync();
+    },
+  };
+});
@@ -0,0 +1,114 @@
+// @vitest-environment jsdom
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { PlayEvent, Track } from "@/types/music";
+
+/** Stand-in for the playback engine: one element, loads succeed at once. */
+const { engine, recordPlay } = vi.hoisted(() => {
+  class FakeEngine extends EventTarget {
+    audio = {
+      currentTime: 0,
+      duration: 200,
+      paused: true,
+      playbackRate: 1,
+      play: async () => {
+        engine.audio.paused = false;
+      },
+      pause: () => {
+        engine.audio.paused = true;
+      },
+    };
+    hasSource = false;
+    load = vi.fn(async () => {
+      this.audio.currentTime = 0;
+      this.hasSource = true;
+    });
+    preload = vi.fn(async () => {});
+    promote = () => false;
+    clearPreload = () => {};
+    reset = () => {};
+    setVolume = () => {};
+    setCrossfade = () => {};
+    setGain = () => {};
+  }
+  return { engine: new FakeEngine(), recordPlay: vi.fn() };
+});
+
+vi.mock("@/lib/audio/playback-engine", () => ({ engine, MAX_CROSSFADE_SECONDS: 12 }));
+vi.mock("@/lib/api/music-api", () => ({
+  getStreamUrl: vi.fn(async (id: string, quality: string) => ({
+    url: `https://stream.example.com/${id}/${quality}`,
+    quality,
+  })),
+  getCoverUrl: () => "",
+  getTracksMetadata: async () => [],
+}));
+vi.mock("@/lib/downloads", () => ({
+  downloadStorage: { getStream: async () => null },
+}));
+vi.mock("@/lib/audio/normalization", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/audio/normalization")>()),
+  loudnessCache: { get: async () => null, set: async () => {} },
+}));
+vi.mock("@/lib/autoplay", () => ({
+  AUTOPLAY_SEED_COUNT: 5,
+  recommendTracks: async () => [],
+}));
+vi.mock("./library-store", () => ({
+  useLibraryStore: {
+    getState: () => ({ recordPlay, history: [], favoriteTracks: [] }),
+  },
+}));
+
+const { usePlayerStore } = await import("./player-store");
+
+const track: Track = {
+  id: "4827190",
+  title: "Buddy Holly",
+  duration: 200,
+  artist: { id: "3346", name: "Weezer" },
+  album: { id: "4827185", title: "Weezer (Blue Album)", artist: { id: "3346", name: "Weezer" } },
+};
+
+async function settle(): Promise<void> {
+  for (let i = 0; i < 10; i++) await new Promise((resolve) => setTimeout(resolve, 0));
+}
+
+/** Play on from the current position, one time update per second. */
+function listen(seconds: number): void {
+  const end = engine.audio.currentTime + seconds;
+  while (engine.audio.currentTime < end) {
+    engine.audio.currentTime += 1;
+    engine.dispatchEvent(new Event("timeupdate"));
+  }
+}
+
+beforeEach(() => {
+  recordPlay.mockClear();
+  engine.load.mockClear();
+});
+
+describe("setQuality", () => {
+  it("keeps a mid-track quality switch to one play", async () => {
+    usePlayerStore.getState().setQuality("LOSSLESS");
+    await usePlayerStore.getState().playTrack(track);
+    await settle();
+    listen(60);
+
+    usePlayerStore.getState().setQuality("HIGH");
+    await settle();
+    expect(engine.load).toHaveBeenCalledTimes(2);
+    expect(engine.audio.currentTime).toBe(60);
+
+    // 60 s before the switch and 60 s after pass the 100 s threshold
+    listen(60);
+    engine.dispatchEvent(new Event("ended"));
+
+    const plays = recordPlay.mock.calls.map(([play]) => play as PlayEvent);
+    expect(plays.length).toBeGreaterThan(0);
+    expect(new Set(plays.map((play) => play.id)).size).toBe(1);
+
+    const [final] = recordPlay.mock.calls.filter(([, isFinal]) => isFinal);
+    expect(final[0]).toMatchObject({ completed: true, track: { id: track.id } });
+    expect((final[0] as PlayEvent).listened).toBeGreaterThanOrEqual(100);
+  });
+});
@@ -1,44 +1,104 @@
 /**
  * Player store -- Zustand state for audio playback, queue, and controls.
  *
- * A single HTMLAudioElement is created at module level and managed
- * entirely through the store's actions. React components subscribe
+ * Audio output goes through the module-level PlaybackEngine, which
+ * pre-buffers the next queue item on a second element for gapless
+ * transitions. The store decides *what* plays next; the engine only
+ * knows about the keys it was handed. React components subscribe
  * via `usePlayerStore()`.
  */
 
 import { create } from "zustand";
-import { getStreamUrl, getCoverUrl } from "@/lib/api/music-api";
+import {
+  getStreamUrl,
+  getCoverUrl,
+  getTracksMetadata,
+} from "@/lib/api/music-api";
+import { engine, MAX_CROSSFADE_SECONDS } from "@/lib/audio/playback-engine";
+import {
+  loudnessCache,
+  normalizationGain,
+  type NormalizationMode,
+} from "@/lib/audio/normalization";
+import { downloadStorage } from "@/lib/downloads";
+import { ArtistRadio } from "@/lib/radio";
+import { AUTOPLAY_SEED_COUNT, recommendTracks } from "@/lib/autoplay";
+import { PlayTracker } from "@/lib/play-tracker";
+import {
+  EMPTY_QUEUE,
+  append,
+  createEntries,
+  createQueue,
+  currentEntry,
+  enqueue,
+  followingIndex,
+  insertNext,
+  move,
+  originalEntries,
+  precedingIndex,
+  remove,
+  shuffle,
+  skipTo,
+  trimHistory,
+  unshuffle,
+  type QueueEntry,
+  type QueueModel,
+  type RepeatMode,
+} from "@/lib/queue";
+import { qualityLadderFrom } from "@/lib/quality";
+import {
+  fisherYates,
+  smartShuffle,
+  type ShuffleMode,
+} from "@/lib/shuffle";
+import type { SettingKey, SettingValue, SettingValues } from "@/lib/settings";
 import { useLibraryStore } from "./library-store";
-import type { Track, StreamQuality } from "@/types/music";
+import { getSetting, useSettingsStore } from "./settings-store";
+import type { LoudnessEstimate } from "@/lib/audio/loudness-meter";
+import type {
+  ArtistMinified,
+  PlaySource,
+  Track,
+  StreamQuality,
+  StreamDescriptor,
+} from "@/types/music";
 
 // -- Types --
 
-export type RepeatMode = "off" | "all" | "one";
+export type { RepeatMode };
 
 interface PersistedPlayerState {
   version: number;
   currentTrackId: string | null;
   queueTrackIds: string[];
+  /** Minified tracks by ID, so the queue restores without network calls. */
+  queueTracks?: Record<string, Track>;
+  shuffleActive: boolean;
+  /** Play order as indices into `queueTrackIds` while shuffle is on. */
+  shuffleOrder: number[];
   currentIndex: number;
   currentTime: number;
-  volume: number;
-  isMuted: boolean;
-  quality: StreamQuality;
-  repeatMode: RepeatMode;
 }
 
 interface PlayerState {
-  // Queue
-  queue: Track[];
-  shuffledQueue: Track[];
-  originalQueue: Track[];
+  // Queue -- the fields of a QueueModel (see lib/queue)
+  /** Entries in play order. */
+  queue: QueueEntry[];
   currentIndex: number;
+  /** Entry uids in queued order while shuffled. */
+  originalOrder: string[] | null;
   shuffleActive: boolean;
+  shuffleMode: ShuffleMode;
+  /** Smart shuffle pulls favorite tracks towards the front. */
+  shuffleFavorites: boolean;
   repeatMode: RepeatMode;
+  /** Keep playing recommendations once the queue runs out. */
+  autoplay: boolean;
 
   // Current track
   currentTrack: Track | null;
-  streamUrl: string | null;
+  /** Delivered stream for `currentTrack` (URL, codec, format, gain). */
+  stream: StreamDescriptor | null;
 
   // Playback
   isPlaying: boolean;
@@ -52,12 +112,25 @@ interface PlayerState {
 
   // Quality
   quality: StreamQuality;
+  /** Quality the current track actually loaded at, after any fallback. */
+  playedQuality: StreamQuality | null;
+  /** Start each track at `quality` again after a fallback. */
+  revertQuality: boolean;
+
+  // Crossfade length in seconds (0 = gapless)
+  crossfade: number;
+
+  // Loudness normalization, applied on top of `volume`
+  normalization: NormalizationMode;
+
+  /** Seed artist while an artist radio keeps the queue topped up. */
+  radio: ArtistMinified | null;
 }
 
 interface PlayerActions {
-  // Playback
-  playTrack: (track: Track, queue?: Track[]) => Promise<void>;
-  playQueue: (tracks: Track[], startIndex?: number) => Promise<void>;
+  // Playback -- `source` is where the tracks came from, for the play log
+  playTrack: (track: Track, queue?: Track[], source?: PlaySource) => Promise<void>;
+  playQueue: (tracks: Track[], startIndex?: number, source?: PlaySource) => Promise<void>;
   togglePlayPause: () => void;
   playNext: () => void;
   playPrev: () => void;
@@ -69,38 +142,66 @@ interface PlayerActions {
 
   // Queue
   addToQueue: (tracks: Track[]) => void;
-  removeFromQueue: (index: number) => void;
+  /** Insert tracks right after the current one ("Play next"). */
+  insertNext: (tracks: Track[]) => void;
+  /** Move an entry to another position in the play order. */
+  moveInQueue: (from: number, to: number) => void;
+  /** Remove entries by uid; the current entry is kept. */
+  removeFromQueue: (uids: string[]) => void;
+  /** Play the entry at `index` of the play order. */
+  skipTo: (index: number) => void;
   clearQueue: () => void;
 
   // Shuffle / Repeat
   toggleShuffle: () => void;
+  setShuffleMode: (mode: ShuffleMode) => void;
+  setShuffleFavorites: (enabled: boolean) => void;
+  setRepeatMode: (mode: RepeatMode) => void;
   cycleRepeat: () => void;
-}
+  setAutoplay: (enabled: boolean) => void;
 
-// -- Audio element (singleton) --
+  // Quality
+  setQuality: (quality: StreamQuality) => void;
+  setRevertQuality: (revert: boolean) => void;
 
-const audio = new Audio();
-audio.preload = "auto";
+  // Crossfade
+  setCrossfade: (seconds: number) => void;
 
-// -- Shuffle utility --
+  // Normalization
+  setNormalization: (mode: NormalizationMode) => void;
 
-function shuffleArray<T>(arr: T[]): T[] {
-  const shuffled = [...arr];
-  for (let i = shuffled.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
-    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
-  }
-  return shuffled;
+  // Artist radio
+  startArtistRadio: (artist: ArtistMinified) => Promise<void>;
+  stopRadio: () => void;
 }
 
 const PLAYER_STORAGE_KEY = "moonsway-player-state";
 const CURRENT_VERSION = 1;
 const MAX_QUEUE_SIZE = 100;
+// Skip the track snapshot if it would bloat localStorage
+const MAX_TRACK_SNAPSHOT_CHARS = 250_000;
+// Artist radio refills once this few tracks are left after the current one
+const RADIO_REFILL_THRESHOLD = 3;
+// Played radio tracks kept behind the current one; older ones are dropped
+const RADIO_HISTORY = 20;
+// Smart shuffle plays tracks from this much recent history last
+const SHUFFLE_RECENT_HISTORY = 20;
+// Autoplay fetches ahead once this few tracks are left after the current one
+const AUTOPLAY_PREFETCH = 1;
 
 function clamp(value: number, min: number, max: number): number {
   return Math.max(min, Math.min(max, value));
 }
 
+function radioPlaySource(artist: ArtistMinified): PlaySource {
+  return { type: "radio", id: artist.id, name: artist.name };
+}
+
+/** Where an entry's play came from, as logged in listening history. */
+function entrySource(entry: QueueEntry): PlaySource | undefined {
+  return entry.source ?? (entry.autoplay ? { type: "autoplay" } : undefined);
+}
+
 function readPersistedPlayerState(): PersistedPlayerState | null {
   if (typeof window === "undefined") return null;
 
@@ -119,26 +220,22 @@ function readPersistedPlayerState(): PersistedPlayerState | null {
     return {
       version: CURRENT_VERSION,
       currentTrackId: typeof parsed.currentTrackId === "string" ? parsed.currentTrackId : null,
-      queueTrackIds: Array.isArray(parsed.queueTrackIds) ? parsed.queueTrackIds : [],
+      queueTrackIds: Array.isArray(parsed.queueTrackIds)
+        ? parsed.queueTrackIds.filter((id): id is string => typeof id === "string")
+        : [],
+      queueTracks:
+        parsed.queueTracks && typeof parsed.queueTracks === "object"
+          ? parsed.queueTracks
+          : undefined,
+      shuffleActive: Boolean(parsed.shuffleActive),
+      shuffleOrder: Array.isArray(parsed.shuffleOrder)
+        ? parsed.shuffleOrder.filter(
+            (i): i is number => typeof i === "number" && Number.isInteger(i)
+          )
+        : [],
       currentIndex:
         typeof parsed.currentIndex === "number" ? parsed.currentIndex : -1,
       currentTime: typeof parsed.currentTime === "number" ? parsed.currentTime : 0,
-      volume:
-        typeof parsed.volume === "number" ? clamp(parsed.volume, 0, 1) : 1,
-      isMuted: Boolean(parsed.isMuted),
-      quality:
-        parsed.quality === "HI_RES_LOSSLESS" ||
-        parsed.quality === "LOSSLESS" ||
-        parsed.quality === "HIGH" ||
-        parsed.quality === "LOW"
-          ? parsed.quality
-          : "HI_RES_LOSSLESS",
-      repeatMode:
-        parsed.repeatMode === "off" ||
-        parsed.repeatMode === "all" ||
-        parsed.repeatMode === "one"
-          ? parsed.repeatMode
-          : "off",
     };
   } catch {
     return null;
@@ -148,9 +245,12 @@ function readPersistedPlayerState(): PersistedPlayerState | null {
 function writePersistedPlayerState(state: PersistedPlayerState): void {
   if (typeof window === "undefined") return;
   try {
+    const queueTrackIds = state.queueTrackIds.slice(0, MAX_QUEUE_SIZE);
     const limitedState: PersistedPlayerState = {
       ...state,
-      queueTrackIds: state.queueTrackIds.slice(0, MAX_QUEUE_SIZE),
+      queueTrackIds,
+      queueTracks: limitTrackSnapshot(state.queueTracks, queueTrackIds),
+      shuffleOrder: state.shuffleOrder.filter((i) => i < queueTrackIds.length),
     };
     localStorage.setItem(PLAYER_STORAGE_KEY, JSON.stringify(limitedState));
   } catch {
@@ -158,82 +258,465 @@ function writePersistedPlayerState(state: PersistedPlayerState): void {
   }
 }
 
+function limitTrackSnapshot(
+  tracks: Record<string, Track> | undefined,
+  ids: string[]
+): Record<string, Track> | undefined {
+  if (!tracks) return undefined;
+
+  const limited: Record<string, Track> = {};
+  for (const id of ids) {
+    if (tracks[id]) limited[id] = tracks[id];
+  }
+
+  return JSON.stringify(limited).length <= MAX_TRACK_SNAPSHOT_CHARS
+    ? limited
+    : undefined;
+}
+
 // -- Store --
 
 export const usePlayerStore = create<PlayerState & PlayerActions>()(
   (set, get) => {
     const persisted = readPersistedPlayerState();
-    
-    // Note: We don't hydrate tracks from IDs on init to avoid blocking startup.
-    // The app will start with empty state, and users can resume by playing a track.
-    // Future enhancement: fetch tracks by IDs in background after hydration.
-    
-    const hydratedVolume = persisted?.volume ?? 1;
-    const hydratedMuted = persisted?.isMuted ?? false;
-    const hydratedQuality = persisted?.quality ?? "HI_RES_LOSSLESS";
-    const hydratedRepeatMode = persisted?.repeatMode ?? "off";
-
-    audio.volume = hydratedMuted ? 0 : hydratedVolume;
+
+    // The queue itself is restored in the background (see hydrateQueue)
+    // so startup never waits on the network.
+    let isHydratingQueue = Boolean(persisted?.queueTrackIds.length);
+
+    // Preferences live in the settings store (see lib/settings)
+    const hydratedVolume = getSetting("playback.volume");
+    const hydratedMuted = getSetting("playback.muted");
+    const hydratedQuality = getSetting("playback.quality");
+    const hydratedRevertQuality = getSetting("playback.revertQuality");
+    const hydratedRepeatMode = getSetting("queue.repeat");
+    const hydratedCrossfade = getSetting("playback.crossfade");
+    const hydratedNormalization = getSetting("playback.normalization");
+    const hydratedAutoplay = getSetting("queue.autoplay");
+    const hydratedShuffleMode = getSetting("queue.shuffleMode");
+    const hydratedShuffleFavorites = getSetting("queue.shuffleFavorites");
+
+    engine.setVolume(hydratedMuted ? 0 : hydratedVolume);
+    engine.setCrossfade(hydratedCrossfade);
 
     let pendingPersist: ReturnType<typeof setTimeout> | null = null;
 
+    function snapshotPlayerState(): PersistedPlayerState {
+      const state = get();
+      const original = originalEntries(queueModel());
+      const originalIndex = new Map(original.map((entry, i) => [entry.uid, i]));
+
+      // Until hydration finishes the in-memory queue is empty -- keep
+      // what's on disk instead of overwriting it
+      const queueFields =
+        isHydratingQueue && persisted && state.queue.length === 0
+          ? {
+              currentTrackId: persisted.currentTrackId,
+              queueTrackIds: persisted.queueTrackIds,
+              queueTracks: persisted.queueTracks,
+              shuffleActive: persisted.shuffleActive,
+              shuffleOrder: persisted.shuffleOrder,
+              currentIndex: persisted.currentIndex,
+              currentTime: persisted.currentTime,
+            }
+          : {
+              currentTrackId: state.currentTrack?.id ?? null,
+              queueTrackIds: original.map((entry) => entry.track.id),
+              queueTracks: Object.fromEntries(
+                original.map((entry) => [entry.track.id, entry.track])
+              ),
+              shuffleActive: state.shuffleActive,
+              shuffleOrder: state.shuffleActive
+                ? state.queue.map((entry) => originalIndex.get(entry.uid) ?? -1)
+                : [],
+              currentIndex: state.currentIndex,
+              currentTime: state.currentTime,
+            };
+
+      return {
+        version: CURRENT_VERSION,
+        ...queueFields,
+      };
+    }
+
     function persistPlayerState(force = false): void {
       if (force) {
         if (pendingPersist) {
           clearTimeout(pendingPersist);
           pendingPersist = null;
         }
-        const state = get();
-        writePersistedPlayerState({
-          version: CURRENT_VERSION,
-          currentTrackId: state.currentTrack?.id ?? null,
-          queueTrackIds: state.queue.map((t) => t.id),
-          currentIndex: state.currentIndex,
-          currentTime: state.currentTime,
-          volume: state.volume,
-          isMuted: state.isMuted,
-          quality: state.quality,
-          repeatMode: state.repeatMode,
-        });
+        writePersistedPlayerState(snapshotPlayerState());
         return;
       }
 
       if (pendingPersist) return;
 
       pendingPersist = setTimeout(() => {
-        const state = get();
-        writePersistedPlayerState({
-          version: CURRENT_VERSION,
-          currentTrackId: state.currentTrack?.id ?? null,
-          queueTrackIds: state.queue.map((t) => t.id),
-          currentIndex: state.currentIndex,
-          currentTime: state.currentTime,
-          volume: state.volume,
-          isMuted: state.isMuted,
-          quality: state.quality,
-          repeatMode: state.repeatMode,
-        });
+        writePersistedPlayerState(snapshotPlayerState());
         pendingPersist = null;
       }, 1000);
     }
 
+    // Set while the store writes its own preferences, so the settings
+    // subscription below doesn't apply them back
+    let savingSettings = false;
+
+    function saveSettings(values: Partial<SettingValues>): void {
+      const { setSetting } = useSettingsStore.getState();
+      savingSettings = true;
+      try {
+        for (const [key, value] of Object.entries(values)) {
+          setSetting(key as SettingKey, value as SettingValue<SettingKey>);
+        }
+      } finally {
+        savingSettings = false;
+      }
+    }
+
+    // Follow changes made elsewhere (settings page, another device)
+    useSettingsStore.subscribe(({ values }, previous) => {
+      if (savingSettings || values === previous.values) return;
+      const state = get();
+
+      if (values["playback.volume"] !== state.volume) {
+        state.setVolume(values["playback.volume"]);
+      }
+      if (values["playback.muted"] !== get().isMuted) get().toggleMute();
+      if (values["playback.quality"] !== state.quality) {
+        state.setQuality(values["playback.quality"]);
+      }
+      if (values["playback.revertQuality"] !== state.revertQuality) {
+        state.setRevertQuality(values["playback.revertQuality"]);
+      }
+      if (values["playback.crossfade"] !== state.crossfade) {
+        state.setCrossfade(values["playback.crossfade"]);
+      }
+      if (values["playback.normalization"] !== state.normalization) {
+        state.setNormalization(values["playback.normalization"]);
+      }
+      if (values["queue.repeat"] !== state.repeatMode) {
+        state.setRepeatMode(values["queue.repeat"]);
+      }
+      if (values["queue.autoplay"] !== state.autoplay) {
+        state.setAutoplay(values["queue.autoplay"]);
+      }
+      if (values["queue.shuffleMode"] !== state.shuffleMode) {
+        state.setShuffleMode(values["queue.shuffleMode"]);
+      }
+      if (values["queue.shuffleFavorites"] !== state.shuffleFavorites) {
+        state.setShuffleFavorites(values["queue.shuffleFavorites"]);
+      }
+    });
+
+    /**
+     * Restore the persisted queue, play position and shuffle order.
+     * Tracks come from the persisted snapshot when available and are
+     * otherwise resolved by ID; IDs that no longer resolve are dropped.
+     */
+    async function hydrateQueue(saved: PersistedPlayerState): Promise<void> {
+      const snapshot = saved.queueTracks ?? {};
+      const missing = saved.queueTrackIds.filter((id) => !snapshot[id]);
+      const resolved = missing.length > 0 ? await getTracksMetadata(missing) : null;
+
+      // The user started something else while we were resolving
+      if (get().queue.length > 0 || get().currentTrack) return;
+
+      const original: QueueEntry[] = [];
+      const indexMap: number[] = [];
+      saved.queueTrackIds.forEach((id) => {
+        const track = snapshot[id] ?? resolved?.get(id);
+        indexMap.push(track ? original.length : -1);
+        if (track) original.push(...createEntries([track]));
+      });
+      if (original.length === 0) return;
+
+      const shuffled = saved.shuffleActive
+        ? saved.shuffleOrder
+            .map((i) => indexMap[i] ?? -1)
+            .filter((i) => i >= 0)
+            .map((i) => original[i])
+        : [];
+      const entries = shuffled.length > 0 ? shuffled : original;
+
+      // Prefer the saved index, but follow the track if entries were dropped
+      let currentIndex = clamp(saved.currentIndex, 0, entries.length - 1);
+      if (saved.currentTrackId && entries[currentIndex]?.track.id !== saved.currentTrackId) {
+        const byId = entries.findIndex((e) => e.track.id === saved.currentTrackId);
+        if (byId >= 0) currentIndex = byId;
+      }
+
+      const currentTrack = entries[currentIndex].track;
+      const resumeAt =
+        currentTrack.id === saved.currentTrackId ? saved.currentTime : 0;
+
+      applyQueue({
+        entries,
+        currentIndex,
+        originalOrder: shuffled.length > 0 ? original.map((entry) => entry.uid) : null,
+      });
+      set({
+        currentTrack,
+        currentTime: resumeAt,
+        duration: currentTrack.duration,
+      });
+    }
+
     // -- Internal helpers --
 
-    function activeQueue(): Track[] {
+    function queueModel(): QueueModel {
       const state = get();
-      return state.shuffleActive ? state.shuffledQueue : state.queue;
+      return {
+        entries: state.queue,
+        currentIndex: state.currentIndex,
+        originalOrder: state.originalOrder,
+      };
     }
 
-    async function loadAndPlay(track: Track, startAt = 0): Promise<void> {
+    function applyQueue(model: QueueModel): void {
       set({
-        isLoading: true,
-        currentTrack: track,
-        streamUrl: null,
-        currentTime: Math.max(0, startAt),
+        queue: model.entries,
+        currentIndex: model.currentIndex,
+        originalOrder: model.originalOrder,
+        shuffleActive: model.originalOrder !== null,
+      });
+    }
+
+    /**
+     * Index of the entry that would play after the current one, honoring
+     * repeat mode. Repeat-one restarts in place, so nothing is preloaded.
+     */
+    function peekNextIndex(): number | null {
+      const state = get();
+      if (state.repeatMode === "one") return null;
+      return followingIndex(queueModel(), state.repeatMode === "all");
+    }
+
+    /** Order for the entries being shuffled, per the shuffle settings. */
+    function shuffleOrder(entries: QueueEntry[]): QueueEntry[] {
+      const { shuffleMode, shuffleFavorites } = get();
+      if (shuffleMode === "standard") return fisherYates(entries);
+
+      const { history, favoriteTracks } = useLibraryStore.getState();
+      return smartShuffle(entries, (entry) => entry.track, {
+        favorites: shuffleFavorites
+          ? new Set(favoriteTracks.map((track) => track.id))
+          : undefined,
+        recent: new Set(history.slice(0, SHUFFLE_RECENT_HISTORY).map((track) => track.id)),
       });
+    }
+
+    // Re-deal the shuffled order after the shuffle settings change
+    function reshuffleQueue(): void {
+      applyQueue(shuffle(queueModel(), shuffleOrder));
       persistPlayerState(true);
+      refreshPreload();
+    }
+
+    function nextEntry(): QueueEntry | undefined {
+      const nextIndex = peekNextIndex();
+      return nextIndex != null ? get().queue[nextIndex] : undefined;
+    }
+
+    // Quality we fell back to, reused for later tracks unless revertQuality
+    let fallbackQuality: StreamQuality | null = null;
+
+    function startingQuality(): StreamQuality {
+      const state = get();
+      return state.revertQuality ? state.quality : (fallbackQuality ?? state.quality);
+    }
+
+    /**
+     * Normalization gain for a track, plus a loudness callback when the
+     * stream has no ReplayGain data and nothing has been measured yet.
+     */
+    async function loudnessOptions(
+      track: Track,
+      stream: StreamDescriptor
+    ): Promise<{ gain: number; onLoudness?: (estimate: LoudnessEstimate) => void }> {
+      const hasReplayGain = stream.replayGain?.trackGain !== undefined;
+      const estimate = hasReplayGain ? null : await loudnessCache.get(track.id);
+
+      return {
+        gain: normalizationGain(get().normalization, stream.replayGain, estimate),
+        onLoudness:
+          hasReplayGain || estimate
+            ? undefined
+            : (measured) => void loudnessCache.set(track.id, measured),
+      };
+    }
+
+    // Stream URL for what's on the engine's standby deck, keyed by entry uid
+    let preloaded: {
+      key: string;
+      stream: StreamDescriptor;
+      quality: StreamQuality;
+    } | null = null;
+
+    async function preloadNext(): Promise<void> {
+      const entry = nextEntry();
+
+      if (!entry || !get().currentTrack) {
+        preloaded = null;
+        engine.clearPreload();
+        return;
+      }
+
+      const { uid: key, track } = entry;
+      // Consecutive tracks from one album usually flow into each other
+      // already, so those transitions stay gapless instead of fading
+      const current = get().currentTrack;
+      const crossfade =
+        get().crossfade > 0 &&
+        !(current?.album.id && current.album.id === track.album.id);
+
+      if (preloaded?.key === key) {
+        void engine.preload(key, preloaded.stream.url, { crossfade }).catch(() => {});
+        return;
+      }
+
+      try {
+        const local = await downloadStorage.getStream(track.id);
+        const quality = local?.quality ?? startingQuality();
+        const stream = local ?? (await getStreamUrl(track.id, quality));
+        const loudness = await loudnessOptions(track, stream);
+        // The queue may have moved on while the URL was resolving
+        if (nextEntry()?.uid !== key) return;
+        preloaded = { key, stream, quality };
+        await engine.preload(key, stream.url, { crossfade, ...loudness });
+      } catch (error) {
+        if (preloaded?.key === key) preloaded = null;
+        console.warn("[Player] Failed to preload next track:", error);
+      }
+    }
+
+    function schedulePreload(): void {
+      if (get().currentTrack && engine.hasSource) void preloadNext();
+    }
+
+    /**
+     * Drop the preloaded stream when a queue edit put something else in
+     * the next slot, then preload whatever is there now.
+     */
+    function refreshPreload(): void {
+      if (preloaded && preloaded.key !== nextEntry()?.uid) {
+        preloaded = null;
+        engine.clearPreload();
+      }
+      schedulePreload();
+    }
+
+    // -- Queue top-ups (artist radio and autoplay) --
+
+    let radioSource: ArtistRadio | null = null;
+    let pendingTopUp: Promise<boolean> | null = null;
+    // Bumped whenever the queue is replaced, so late top-ups are dropped
+    let queueEpoch = 0;
+
+    function endRadio(): void {
+      radioSource = null;
+      if (get().radio) set({ radio: null });
+    }
+
+    /** Forget radio and autoplay state tied to the queue being replaced. */
+    function resetQueueSources(): void {
+      queueEpoch++;
+      pendingTopUp = null;
+      endRadio();
+    }
+
+    function autoplayBatch(): Promise<Track[]> {
+      const { history, favoriteTracks } = useLibraryStore.getState();
+      const exclude = new Set([
+        ...get().queue.map((entry) => entry.track.id),
+        ...history.map((track) => track.id),
+      ]);
+      return recommendTracks({
+        seeds: history.slice(0, AUTOPLAY_SEED_COUNT),
+        favorites: favoriteTracks,
+        exclude,
+      });
+    }
+
+    /**
+     * Extend the queue once it runs low -- with the next radio batch when
+     * an artist radio is on, otherwise with autoplay recommendations.
+     * Resolves to whether tracks were added; concurrent calls share one
+     * request.
+     */
+    function topUpQueue(): Promise<boolean> {
+      if (pendingTopUp) return pendingTopUp;
+
+      const state = get();
+      const remaining = state.queue.length - 1 - state.currentIndex;
+      const source = radioSource;
+      let request: Promise<Track[]>;
+      if (source) {
+        if (remaining > RADIO_REFILL_THRESHOLD) return Promise.resolve(false);
+        request = source.nextBatch();
+      } else if (state.autoplay && state.repeatMode === "off" && state.currentTrack) {
+        if (remaining > AUTOPLAY_PREFETCH) return Promise.resolve(false);
+        request = autoplayBatch();
+      } else {
+        return Promise.resolve(false);
+      }
+
+      const epoch = queueEpoch;
+      const topUp = request
+        .then((batch) => {
+          // The queue was replaced, or radio/autoplay switched off, meanwhile
+          const stale =
+            queueEpoch !== epoch ||
+            radioSource !== source ||
+            (!source && !get().autoplay);
+          if (stale || batch.length === 0) return false;
+
+          // Radio drops old history so the endless queue stays bounded
+          const model = source ? trimHistory(queueModel(), RADIO_HISTORY) : queueModel();
+          const entries = source
+            ? createEntries(batch, { source: radioPlaySource(source.seed) })
+            : createEntries(batch, { autoplay: true });
+          applyQueue(append(model, entries));
+          persistPlayerState(true);
+          schedulePreload();
+          return true;
+        })
+        .catch((error) => {
+          console.warn(
+            source ? "[Radio] Failed to refill queue:" : "[Autoplay] Failed to extend queue:",
+            error
+          );
+          return false;
+        })
+        .finally(() => {
+          if (pendingTopUp === topUp) pendingTopUp = null;
+        });
+      pendingTopUp = topUp;
+      return topUp;
+    }
+
+    function stopAtEnd(): void {
+      set({ isPlaying: false, currentTime: 0 });
+      engine.audio.pause();
+      engine.audio.currentTime = 0;
+      document.title = "Moonsway";
+      persistPlayerState(true);
+    }
+
+    // Measures each play for listening history (see lib/play-tracker)
+    const tracker = new PlayTracker((play, final) => {
+      useLibraryStore.getState().recordPlay(play, final);
+    });
+
+    /** Start logging a new play of the current entry, e.g. after a restart. */
+    function restartPlay(): void {
+      const entry = currentEntry(queueModel());
+      if (entry) tracker.start(entry.track, entrySource(entry));
+    }
 
-      useLibraryStore.getState().addToHistory(track);
+    function announceTrack(entry: QueueEntry): void {
+      const { track } = entry;
+      tracker.start(track, entrySource(entry));
+      void topUpQueue();
 
       document.title = `${track.title} - ${track.artist.name} | Moonsway`;
 
@@ -252,29 +735,98 @@ export const usePlayerStore = create<PlayerState & PlayerActions>()(
             : [],
         });
       }
+    }
 
-      try {
-        const url = await getStreamUrl(track.id, get().quality);
-        audio.src = url;
-        set({ streamUrl: url });
-
-        await new Promise<void>((resolve, reject) => {
-          const onCanPlay = () => {
-            cleanup();
-            resolve();
-          };
-          const onError = () => {
-            cleanup();
-            reject(new Error("Audio load error"));
-          };
-          const cleanup = () => {
-            audio.removeEventListener("canplay", onCanPlay);
-            audio.removeEventListener("error", onError);
-          };
-          audio.addEventListener("canplay", onCanPlay, { once: true });
-          audio.addEventListener("error", onError, { once: true });
+    /**
+     * Load an entry and start playing it. `announce: false` reloads the
+     * entry already playing (e.g. at another quality) as the same play:
+     * no new logged play, queue top-up or Media Session update.
+     */
+    async function loadAndPlay(
+      entry: QueueEntry,
+      startAt = 0,
+      { announce = true }: { announce?: boolean } = {}
+    ): Promise<void> {
+      const { uid: key, track } = entry;
+
+      // Already buffered on the standby deck -- switch without reloading
+      if (startAt <= 0 && preloaded?.key === key && engine.promote(key)) {
+        set({
+          isLoading: false,
+          isPlaying: true,
+          currentTrack: track,
+          stream: preloaded.stream,
+          playedQuality: preloaded.quality,
+          currentTime: 0,
         });
+        preloaded = null;
+        announceTrack(entry);
+        persistPlayerState(true);
+        void preloadNext();
+        return;
+      }
+
+      set({
+        isLoading: true,
+        currentTrack: track,
+        stream: null,
+        playedQuality: null,
+        currentTime: Math.max(0, startAt),
+      });
+      persistPlayerState(true);
+      if (announce) announceTrack(entry);
+      // The reload jumps around; don't count it as listening
+      else tracker.interrupt();
+
+      const ladder = qualityLadderFrom(startingQuality());
+      let loadedQuality: StreamQuality | null = null;
+      // The same track can sit in the queue twice, so check the entry
+      const isStale = () => currentEntry(queueModel())?.uid !== key;
+
+      // A downloaded copy plays without touching the network
+      const local = await downloadStorage.getStream(track.id);
+      if (isStale()) return;
+      if (local) {
+        try {
+          set({ stream: local });
+          await engine.load(local.url, key, await loudnessOptions(track, local));
+          loadedQuality = local.quality;
+        } catch (error) {
+          if (isStale()) return;
+          console.warn("[Player] Downloaded copy failed, streaming instead:", error);
+        }
+      }
 
+      // Otherwise walk down the quality ladder until a stream loads
+      for (const quality of loadedQuality ? [] : ladder) {
+        try {
+          const stream = await getStreamUrl(track.id, quality);
+          const loudness = await loudnessOptions(track, stream);
+          if (isStale()) return;
+          set({ stream });
+          await engine.load(stream.url, key, loudness);
+          loadedQuality = quality;
+          break;
+        } catch (error) {
+          if (isStale()) return;
+          console.warn(`[Player] ${quality} failed, trying lower quality:`, error);
+        }
+      }
+
+      if (isStale()) return;
+
+      if (!loadedQuality) {
+        console.error("[Player] Failed to play track at any quality");
+        set({ isLoading: false, isPlaying: false, playedQuality: null, stream: null });
+        persistPlayerState(true);
+        return;
+      }
+
+      if (!local && loadedQuality !== ladder[0]) fallbackQuality = loadedQuality;
+      set({ playedQuality: loadedQuality });
+
+      try {
+        const audio = engine.audio;
         if (startAt > 0) {
           const safeStartAt =
             Number.isFinite(audio.duration) && audio.duration > 0
@@ -287,52 +839,67 @@ export const usePlayerStore = create<PlayerState & PlayerActions>()(
         await audio.play();
         set({ isPlaying: true, isLoading: false });
         persistPlayerState(true);
+        void preloadNext();
       } catch (error) {
         console.error("[Player] Failed to play track:", error);
         set({ isLoading: false, isPlaying: false });
         persistPlayerState(true);
-
-        // Try fallback to LOSSLESS if hi-res failed
-        const state = get();
-        if (state.quality === "HI_RES_LOSSLESS") {
-          try {
-            const url = await getStreamUrl(track.id, "LOSSLESS");
-            audio.src = url;
-            set({ streamUrl: url });
-            if (startAt > 0) {
-              audio.currentTime = Math.max(0, startAt);
-              set({ currentTime: Math.max(0, startAt) });
-            }
-            await audio.play();
-            set({ isPlaying: true });
-            persistPlayerState(true);
-          } catch {
-            console.error("[Player] Fallback to LOSSLESS also failed");
-          }
-        }
       }
     }
 
-    // -- Wire audio element events --
+    // -- Wire engine events --
 
-    audio.addEventListener("timeupdate", () => {
-      set({ currentTime: audio.currentTime });
+    engine.addEventListener("timeupdate", () => {
+      set({ currentTime: engine.audio.currentTime });
+      tracker.progress(engine.audio.currentTime);
       // Don't persist on timeupdate - too frequent, let other events handle it
     });
 
-    audio.addEventListener("loadedmetadata", () => {
-      set({ duration: audio.duration });
+    engine.addEventListener("loadedmetadata", () => {
+      set({ duration: engine.audio.duration });
     });
 
-    audio.addEventListener("ended", () => {
+    engine.addEventListener("durationchange", () => {
+      set({ duration: engine.audio.duration });
+    });
+
+    engine.addEventListener("ended", () => {
+      tracker.finish(true);
       get().playNext();
     });
 
-    audio.addEventListener("play", () => {
+    // The engine switched to the preloaded track on its own
+    engine.addEventListener("advance", () => {
+      const next = preloaded;
+      preloaded = null;
+      const index = next ? get().queue.findIndex((entry) => entry.uid === next.key) : -1;
+      if (!next || index < 0) return;
+
+      // Crossfades start before the end, but the track did play out
+      tracker.finish(true);
+      const entry = get().queue[index];
+      const track = entry.track;
+      set({
+        currentIndex: index,
+        currentTrack: track,
+        stream: next.stream,
+        playedQuality: next.quality,
+        currentTime: 0,
+        isPlaying: true,
+        isLoading: false,
+      });
+      announceTrack(entry);
+      persistPlayerState(true);
+      void preloadNext();
+    });
+
+    engine.addEventListener("play", () => {
       set({ isPlaying: true });
+      // Playing again after the queue ran out
+      if (!tracker.isTracking) restartPlay();
     });
 
-    audio.addEventListener("pause", () => {
+    engine.addEventListener("pause", () => {
       set({ isPlaying: false });
       persistPlayerState(true); // Persist position when pausing
     });
@@ -363,18 +930,33 @@ export const usePlayerStore = create<PlayerState & PlayerActions>()(
       });
     }
 
+    if (persisted && isHydratingQueue) {
+      // Deferred so the store exists before hydration calls set()
+      setTimeout(() => {
+        hydrateQueue(persisted)
+          .catch((error) => {
+            console.warn("[Player] Failed to restore queue:", error);
+          })
+          .finally(() => {
+            isHydratingQueue = false;
+          });
+      }, 0);
+    }
+
     // -- Initial state --
 
     return {
       queue: [],
-      shuffledQueue: [],
-      originalQueue: [],
       currentIndex: -1,
+      originalOrder: null,
       shuffleActive: false,
+      shuffleMode: hydratedShuffleMode,
+      shuffleFavorites: hydratedShuffleFavorites,
       repeatMode: hydratedRepeatMode,
+      autoplay: hydratedAutoplay,
 
       currentTrack: null,
-      streamUrl: null,
+      stream: null,
 
       isPlaying: false,
       isLoading: false,
@@ -385,185 +967,187 @@ export const usePlayerStore = create<PlayerState & PlayerActions>()(
       isMuted: hydratedMuted,
 
       quality: hydratedQuality,
+      playedQuality: null,
+      revertQuality: hydratedRevertQuality,
+
+      crossfade: hydratedCrossfade,
+
+      normalization: hydratedNormalization,
+
+      radio: null,
 
       // -- Actions --
 
-      async playTrack(track, queue) {
-        const newQueue = queue ?? [track];
-        const index = queue ? newQueue.findIndex((t) => t.id === track.id) : 0;
+      async playTrack(track, queue, source) {
+        resetQueueSources();
+        const tracks = queue ?? [track];
+        const index = queue ? tracks.findIndex((t) => t.id === track.id) : 0;
 
-        set({
-          queue: newQueue,
-          originalQueue: newQueue,
-          shuffledQueue: [],
-          shuffleActive: false,
-          currentIndex: index >= 0 ? index : 0,
-        });
+        const model = createQueue(tracks, Math.max(index, 0), source);
+        applyQueue(model);
         persistPlayerState(true);
 
-        await loadAndPlay(track);
+        await loadAndPlay(model.entries[model.currentIndex]);
       },
 
-      async playQueue(tracks, startIndex = 0) {
+      async playQueue(tracks, startIndex = 0, source) {
         if (tracks.length === 0) return;
+        resetQueueSources();
 
-        const idx = Math.min(startIndex, tracks.length - 1);
-        set({
-          queue: tracks,
-          originalQueue: tracks,
-          shuffledQueue: [],
-          shuffleActive: false,
-          currentIndex: idx,
-        });
+        const model = createQueue(tracks, startIndex, source);
+        applyQueue(model);
         persistPlayerState(true);
 
-        await loadAndPlay(tracks[idx]);
+        await loadAndPlay(model.entries[model.currentIndex]);
       },
 
       togglePlayPause() {
         const state = get();
-        if (!audio.src && state.currentTrack) {
-          void loadAndPlay(state.currentTrack, state.currentTime);
+        const entry = currentEntry(queueModel());
+        if (!engine.hasSource && entry) {
+          void loadAndPlay(entry, state.currentTime);
           return;
         }
 
-        if (audio.src) {
-          if (audio.paused) {
-            void audio.play();
+        if (engine.hasSource) {
+          if (engine.audio.paused) {
+            void engine.audio.play();
           } else {
-            audio.pause();
+            engine.audio.pause();
           }
         }
       },
 
       playNext() {
         const state = get();
-        const q = activeQueue();
-        if (q.length === 0) return;
+        if (state.queue.length === 0) return;
 
         if (state.repeatMode === "one") {
-          audio.currentTime = 0;
-          audio.play();
+          engine.audio.currentTime = 0;
+          restartPlay();
+          void engine.audio.play();
           return;
         }
 
-        let nextIndex = state.currentIndex + 1;
-
-        if (nextIndex >= q.length) {
-          if (state.repeatMode === "all") {
-            nextIndex = 0;
-          } else {
-            // End of queue, no repeat
-            set({ isPlaying: false, currentTime: 0 });
-            audio.pause();
-            audio.currentTime = 0;
-            document.title = "Moonsway";
-            persistPlayerState(true);
-            return;
-          }
+        const nextIndex = followingIndex(queueModel(), state.repeatMode === "all");
+        if (nextIndex === null) {
+          // End of queue, no repeat -- carry on if radio or autoplay
+          // can extend it, otherwise stop
+          void topUpQueue().then((added) => {
+            if (added) get().playNext();
+            else if (get().currentIndex === state.currentIndex) stopAtEnd();
+          });
+          return;
         }
 
-        set({ currentIndex: nextIndex });
-        persistPlayerState(true);
-        void loadAndPlay(q[nextIndex]);
+        get().skipTo(nextIndex);
       },
 
       playPrev() {
         // If more than 3 seconds in, restart current track
-        if (audio.currentTime > 3) {
-          audio.currentTime = 0;
+        if (engine.audio.currentTime > 3) {
+          engine.audio.currentTime = 0;
+          restartPlay();
           return;
         }
 
         const state = get();
-        const q = activeQueue();
-        if (q.length === 0) return;
+        if (state.queue.length === 0) return;
 
-        let prevIndex = state.currentIndex - 1;
-        if (prevIndex < 0) {
-          if (state.repeatMode === "all") {
-            prevIndex = q.length - 1;
-          } else {
-            prevIndex = 0;
-          }
-        }
-
-        set({ currentIndex: prevIndex });
-        persistPlayerState(true);
-        void loadAndPlay(q[prevIndex]);
+        get().skipTo(precedingIndex(queueModel(), state.repeatMode === "all"));
       },
 
       seek(time) {
         const state = get();
         const max = state.duration > 0 ? state.duration : Number.POSITIVE_INFINITY;
         const clamped = clamp(time, 0, max);
-        audio.currentTime = clamped;
+        engine.audio.currentTime = clamped;
+        tracker.interrupt();
         set({ currentTime: clamped });
         persistPlayerState(true);
       },
 
       setVolume(vol) {
         const clamped = Math.max(0, Math.min(1, vol));
-        audio.volume = clamped;
+        engine.setVolume(clamped);
         set({ volume: clamped, isMuted: clamped === 0 });
-        persistPlayerState(true);
+        saveSettings({ "playback.volume": clamped, "playback.muted": clamped === 0 });
       },
 
       toggleMute() {
         const state = get();
         if (state.isMuted) {
-          audio.volume = state.volume > 0 ? state.volume : 0.5;
-          set({ isMuted: false, volume: audio.volume });
+          const restored = state.volume > 0 ? state.volume : 0.5;
+          engine.setVolume(restored);
+          set({ isMuted: false, volume: restored });
         } else {
-          audio.volume = 0;
+          engine.setVolume(0);
           set({ isMuted: true });
         }
-        persistPlayerState(true);
+        const { volume, isMuted } = get();
+        saveSettings({ "playback.volume": volume, "playback.muted": isMuted });
       },
 
       addToQueue(tracks) {
-        const state = get();
-        const newQueue = [...state.queue, ...tracks];
-        set({ queue: newQueue, originalQueue: newQueue });
-        persistPlayerState(true);
+        if (tracks.length === 0) return;
 
-        if (state.shuffleActive) {
-          set({ shuffledQueue: [...state.shuffledQueue, ...tracks] });
-        }
+        const added = createEntries(tracks);
+        applyQueue(enqueue(queueModel(), added));
+        persistPlayerState(true);
 
         // If nothing is playing, start
-        if (!state.currentTrack && tracks.length > 0) {
-          set({ currentIndex: newQueue.length - tracks.length });
-          void loadAndPlay(tracks[0]);
+        if (!get().currentTrack) {
+          get().skipTo(get().queue.indexOf(added[0]));
+          return;
         }
+
+        refreshPreload();
       },
 
-      removeFromQueue(index) {
-        const state = get();
-        const q = [...state.queue];
-        q.splice(index, 1);
-
-        let newIndex = state.currentIndex;
-        if (index < newIndex) {
-          newIndex--;
-        } else if (index === newIndex) {
-          newIndex = Math.min(newIndex, q.length - 1);
+      insertNext(tracks) {
+        if (tracks.length === 0) return;
+        if (!get().currentTrack) {
+          get().addToQueue(tracks);
+          return;
         }
 
-        set({ queue: q, originalQueue: q, currentIndex: newIndex });
+        applyQueue(insertNext(queueModel(), createEntries(tracks)));
+        persistPlayerState(true);
+        refreshPreload();
+      },
+
+      moveInQueue(from, to) {
+        applyQueue(move(queueModel(), from, to));
+        persistPlayerState(true);
+        refreshPreload();
+      },
+
+      removeFromQueue(uids) {
+        applyQueue(remove(queueModel(), uids));
+        persistPlayerState(true);
+        refreshPreload();
+      },
+
+      skipTo(index) {
+        const model = skipTo(queueModel(), index);
+        const entry = currentEntry(model);
+        if (model.currentIndex !== index || !entry) return;
+
+        applyQueue(model);
         persistPlayerState(true);
+        void loadAndPlay(entry);
       },
 
       clearQueue() {
-        audio.pause();
-        audio.src = "";
+        tracker.finish(false);
+        resetQueueSources();
+        preloaded = null;
+        engine.reset();
+        applyQueue(EMPTY_QUEUE);
         set({
-          queue: [],
-          shuffledQueue: [],
-          originalQueue: [],
-          currentIndex: -1,
           currentTrack: null,
-          streamUrl: null,
+          stream: null,
+          playedQuality: null,
           isPlaying: false,
           currentTime: 0,
           duration: 0,
@@ -573,43 +1157,128 @@ export const usePlayerStore = create<PlayerState & PlayerActions>()(
       },
 
       toggleShuffle() {
+        const model = queueModel();
+        // The current entry stays put; shuffling puts it first
+        applyQueue(
+          get().shuffleActive ? unshuffle(model) : shuffle(model, shuffleOrder)
+        );
+        persistPlayerState(true);
+        refreshPreload();
+      },
+
+      setShuffleMode(mode) {
+        set({ shuffleMode: mode });
+        saveSettings({ "queue.shuffleMode": mode });
+        if (get().shuffleActive) reshuffleQueue();
+      },
+
+      setShuffleFavorites(enabled) {
+        set({ shuffleFavorites: enabled });
+        saveSettings({ "queue.shuffleFavorites": enabled });
+        if (get().shuffleActive) reshuffleQueue();
+      },
+
+      setRepeatMode(mode) {
+        set({ repeatMode: mode });
+        saveSettings({ "queue.repeat": mode });
+        schedulePreload();
+        void topUpQueue();
+      },
+
+      cycleRepeat() {
+        const modes: RepeatMode[] = ["off", "all", "one"];
+        const currentIdx = modes.indexOf(get().repeatMode);
+        get().setRepeatMode(modes[(currentIdx + 1) % modes.length]);
+      },
+
+      setAutoplay(enabled) {
+        set({ autoplay: enabled });
+        saveSettings({ "queue.autoplay": enabled });
+        if (enabled) void topUpQueue();
+      },
+
+      setQuality(quality) {
         const state = get();
-        if (state.shuffleActive) {
-          // Turn off -- restore original order, find current track
-          const currentTrack = state.currentTrack;
-          const originalIndex = currentTrack
-            ? state.originalQueue.findIndex((t) => t.id === currentTrack.id)
-            : 0;
-          set({
-            shuffleActive: false,
-            queue: state.originalQueue,
-            shuffledQueue: [],
-            currentIndex: originalIndex >= 0 ? originalIndex : 0,
-          });
+        if (quality === state.quality) return;
+
+        fallbackQuality = null;
+        set({ quality });
+        saveSettings({ "playback.quality": quality });
+
+        // Drop the preloaded stream -- it was resolved at the old quality
+        preloaded = null;
+        engine.clearPreload();
+
+        // Switch the playing track over in place; a paused track picks
+        // up the new quality the next time it loads
+        const entry = currentEntry(queueModel());
+        if (entry && state.isPlaying) {
+          void loadAndPlay(entry, engine.audio.currentTime, { announce: false });
         } else {
-          // Turn on -- shuffle, keep current track first
-          const q = state.queue;
-          const current = q[state.currentIndex];
-          const rest = q.filter((_, i) => i !== state.currentIndex);
-          const shuffled = current ? [current, ...shuffleArray(rest)] : shuffleArray(q);
-
-          set({
-            shuffleActive: true,
-            originalQueue: [...q],
-            shuffledQueue: shuffled,
-            currentIndex: 0,
+          schedulePreload();
+        }
+      },
+
+      setRevertQuality(revert) {
+        if (revert) fallbackQuality = null;
+        set({ revertQuality: revert });
+        saveSettings({ "playback.revertQuality": revert });
+      },
+
+      setCrossfade(seconds) {
+        const clamped = clamp(Math.round(seconds), 0, MAX_CROSSFADE_SECONDS);
+        engine.setCrossfade(clamped);
+        set({ crossfade: clamped });
+        saveSettings({ "playback.crossfade": clamped });
+        schedulePreload();
+      },
+
+      setNormalization(mode) {
+        set({ normalization: mode });
+        saveSettings({ "playback.normalization": mode });
+
+        // Re-level what's loaded; both decks keep their streams
+        const { currentTrack, stream } = get();
+        if (currentTrack && stream) {
+          void loudnessOptions(currentTrack, stream).then(({ gain }) => {
+            if (get().stream === stream) engine.setGain(gain);
+          });
+        }
+        const next = preloaded;
+        const nextTrack = next
+          ? get().queue.find((entry) => entry.uid === next.key)?.track
+          : undefined;
+        if (next && nextTrack) {
+          void loudnessOptions(nextTrack, next.stream).then(({ gain }) => {
+            engine.setGain(gain, next.key);
           });
         }
-        persistPlayerState(true);
       },
 
-      cycleRepeat() {
-        const state = get();
-        const modes: RepeatMode[] = ["off", "all", "one"];
-        const currentIdx = modes.indexOf(state.repeatMode);
-        const next = modes[(currentIdx + 1) % modes.length];
-        set({ repeatMode: next });
+      async startArtistRadio(artist) {
+        const source = new ArtistRadio(artist);
+        resetQueueSources();
+        radioSource = source;
+        set({ radio: artist });
+
+        const batch = await source.nextBatch();
+        // Something else started playing while the first batch loaded
+        if (radioSource !== source) return;
+        if (batch.length === 0) {
+          console.warn(`[Radio] No tracks found for ${artist.name}`);
+          endRadio();
+          return;
+        }
+
+        const model = createQueue(batch, 0, radioPlaySource(artist));
+        applyQueue(model);
         persistPlayerState(true);
+
+        await loadAndPlay(model.entries[0]);
+      },
+
+      stopRadio() {
+        endRadio();
       },
     };
   }
@@ -0,0 +1,385 @@
+/**
+ * Playlist store -- the user's own playlists.
+ *
+ * Playlists always live in localStorage, so they work signed out and
+ * offline. While signed in to PocketBase every change is also queued
+ * on the offline queue and pushed to the `playlists` collection. The
+ * auth store calls `syncPlaylists()` on sign-in: the two sides are
+ * merged, newest edit winning, and playlists made while signed out are
+ * uploaded.
+ *
+ * Deleting a playlist leaves a tombstone, so a copy still on the server
+ * (deleted while signed out, say) isn't brought back by the next sync.
+ * A playlist the server no longer has was deleted on another device if
+ * it was already on the server (`syncedPlaylists`); otherwise it was
+ * made here and still needs uploading.
+ *
+ * A cover picked here stays in IndexedDB until it has been uploaded
+ * (see lib/playlist-covers); `coverUrls` holds object URLs to show it.
+ */
+
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import { currentUserId, newRecordId, parseTimestamp } from "@/lib/pocketbase";
+import { offlineQueue } from "@/lib/offline-queue";
+import { LOCAL_COVER, playlistCovers } from "@/lib/playlist-covers";
+import {
+  deleteRemotePlaylist,
+  fetchRemotePlaylists,
+  pushPlaylist,
+} from "@/lib/playlists";
+import type { Playlist, PlaylistTrack, Track } from "@/types/music";
+
+interface PlaylistState {
+  /** Newest first. */
+  playlists: Playlist[];
+  /** When deleted playlists were deleted, by ID. */
+  tombstones: Record<string, number>;
+  /** Playlists the server is known to have, by ID. */
+  syncedPlaylists: Record<string, true>;
+  /** Object URLs of covers waiting in IndexedDB, by playlist ID. */
+  coverUrls: Record<string, string>;
+}
+
+interface PlaylistActions {
+  createPlaylist: (name?: string, tracks?: Track[]) => Playlist;
+  renamePlaylist: (id: string, name: string) => void;
+  setDescription: (id: string, description: string) => void;
+  /** A new cover image, or null to remove it. */
+  setCover: (id: string, cover: Blob | null) => Promise<void>;
+  deletePlaylist: (id: string) => void;
+  /** Add tracks that aren't in the playlist yet; returns how many were added. */
+  addTracks: (id: string, tracks: Track[]) => number;
+  removeTracks: (id: string, indices: number[]) => void;
+  moveTrack: (id: string, from: number, to: number) => void;
+  /** Merge with the signed-in user's playlists on PocketBase. */
+  syncPlaylists: () => Promise<void>;
+  /** Forget all playlists, e.g. when the account they belong to signs out. */
+  reset: () => void;
+}
+
+const SAVE_ACTION = "playlist:save";
+const DELETE_ACTION = "playlist:delete";
+// Tombstones only need to outlive the slowest device's next sync
+const TOMBSTONE_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+const EMPTY_PLAYLISTS: PlaylistState = {
+  playlists: [],
+  tombstones: {},
+  syncedPlaylists: {},
+  coverUrls: {},
+};
+
+function byNewest(a: Playlist, b: Playlist): number {
+  return parseTimestamp(b.createdAt) - parseTimestamp(a.createdAt);
+}
+
+export const usePlaylistStore = create<PlaylistState & PlaylistActions>()(
+  persist(
+    (set, get) => {
+      /** Queue a push of the playlist's latest state, when signed in. */
+      function queueSave(id: string): void {
+        if (currentUserId()) offlineQueue.enqueue(SAVE_ACTION, { id });
+      }
+
+      function update(
+        id: string,
+        change: (playlist: Playlist) => Partial<Playlist>
+      ): void {
+        const playlist = get().playlists.find((p) => p.id === id);
+        if (!playlist) return;
+
+        const patch = change(playlist);
+        const tracks = patch.tracks ?? playlist.tracks;
+        const updated: Playlist = {
+          ...playlist,
+          ...patch,
+          numberOfTracks: tracks.length,
+          updatedAt: new Date().toISOString(),
+        };
+        set((state) => ({
+          playlists: state.playlists.map((p) => (p.id === id ? updated : p)),
+        }));
+        queueSave(id);
+      }
+
+      return {
+        ...EMPTY_PLAYLISTS,
+
+        createPlaylist(name, tracks = []) {
+          const now = new Date().toISOString();
+          const playlist: Playlist = {
+            id: newRecordId(),
+            name: name?.trim() || `My Playlist #${get().playlists.length + 1}`,
+            tracks: tracks.map((track) => ({ ...track, addedToPlaylistAt: now })),
+            isPublic: false,
+            numberOfTracks: tracks.length,
+            createdAt: now,
+            updatedAt: now,
+          };
+          set((state) => ({ playlists: [playlist, ...state.playlists] }));
+          queueSave(playlist.id);
+          return playlist;
+        },
+
+        renamePlaylist(id, name) {
+          const trimmed = name.trim();
+          if (!trimmed) return;
+          update(id, () => ({ name: trimmed }));
+        },
+
+        setDescription(id, description) {
+          update(id, () => ({ description: description.trim() || undefined }));
+        },
+
+        async setCover(id, cover) {
+          if (cover) {
+            await playlistCovers.put(id, cover);
+            showLocalCover(id, cover);
+            update(id, () => ({ cover: LOCAL_COVER }));
+          } else {
+            update(id, () => ({ cover: undefined }));
+            dropLocalCover(id);
+          }
+        },
+
+        deletePlaylist(id) {
+          set((state) => {
+            const syncedPlaylists = { ...state.syncedPlaylists };
+            delete syncedPlaylists[id];
+            return {
+              playlists: state.playlists.filter((p) => p.id !== id),
+              tombstones: { ...state.tombstones, [id]: Date.now() },
+              syncedPlaylists,
+            };
+          });
+          dropLocalCover(id);
+          if (currentUserId()) offlineQueue.enqueue(DELETE_ACTION, { id });
+        },
+
+        addTracks(id, tracks) {
+          const playlist = get().playlists.find((p) => p.id === id);
+          if (!playlist) return 0;
+
+          const existing = new Set(playlist.tracks.map((t) => t.id));
+          const addedAt = new Date().toISOString();
+          const added: PlaylistTrack[] = [];
+          for (const track of tracks) {
+            if (existing.has(track.id)) continue;
+            existing.add(track.id);
+            added.push({ ...track, addedToPlaylistAt: addedAt });
+          }
+
+          if (added.length > 0) {
+            update(id, (p) => ({ tracks: [...p.tracks, ...added] }));
+          }
+          return added.length;
+        },
+
+        removeTracks(id, indices) {
+          const drop = new Set(indices);
+          update(id, (p) => ({
+            tracks: p.tracks.filter((_, index) => !drop.has(index)),
+          }));
+        },
+
+        moveTrack(id, from, to) {
+          update(id, (p) => {
+            if (from === to || from < 0 || to < 0) return {};
+            if (from >= p.tracks.length || to >= p.tracks.length) return {};
+            const tracks = [...p.tracks];
+            const [track] = tracks.splice(from, 1);
+            tracks.splice(to, 0, track);
+            return { tracks };
+          });
+        },
+
+        async syncPlaylists() {
+          const userId = currentUserId();
+          if (!userId) return;
+
+          // Send pending changes first so deleted playlists don't come back
+          await offlineQueue.replay();
+
+          let remote: Playlist[];
+          try {
+            remote = await fetchRemotePlaylists(userId);
+          } catch (error) {
+            console.warn("[Playlists] Could not load playlists:", error);
+            return;
+          }
+
+          const { playlists, syncedPlaylists } = get();
+          const cutoff = Date.now() - TOMBSTONE_TTL_MS;
+          const tombstones = Object.fromEntries(
+            Object.entries(get().tombstones).filter(([, at]) => at > cutoff)
+          );
+
+          const local = new Map(playlists.map((p) => [p.id, p]));
+          const toPush: string[] = [];
+          const toDelete: string[] = [];
+          const merged: Playlist[] = [];
+          const synced: Record<string, true> = {};
+          for (const theirs of remote) {
+            const ours = local.get(theirs.id);
+            local.delete(theirs.id);
+
+            const updatedAt = parseTimestamp(theirs.updatedAt);
+            if ((tombstones[theirs.id] ?? 0) > updatedAt) {
+              // Deleted here (maybe while signed out) after its last edit there
+              toDelete.push(theirs.id);
+              continue;
+            }
+            // Edited elsewhere after it was deleted here -- the edit wins
+            delete tombstones[theirs.id];
+            synced[theirs.id] = true;
+
+            if (ours && parseTimestamp(ours.updatedAt) > updatedAt) {
+              toPush.push(ours.id);
+              merged.push(ours);
+            } else {
+              merged.push(theirs);
+            }
+          }
+          // The rest were deleted elsewhere if the server had them, and
+          // made here (maybe while signed out) if it didn't
+          for (const ours of local.values()) {
+            if (syncedPlaylists[ours.id]) continue;
+            merged.push(ours);
+            toPush.push(ours.id);
+          }
+
+          set({
+            playlists: merged.sort(byNewest),
+            tombstones,
+            syncedPlaylists: synced,
+          });
+          toPush.forEach(queueSave);
+          for (const id of toDelete) offlineQueue.enqueue(DELETE_ACTION, { id });
+          pruneLocalCovers();
+        },
+
+        reset() {
+          Object.values(get().coverUrls).forEach((url) => URL.revokeObjectURL(url));
+          set(EMPTY_PLAYLISTS);
+          void playlistCovers.clear().catch((error) => {
+            console.warn("[Playlists] Could not clear covers:", error);
+          });
+        },
+      };
+    },
+    {
+      name: "moonsway-playlists",
+      version: 1,
+      partialize: (state) => ({
+        playlists: state.playlists,
+        tombstones: state.tombstones,
+        syncedPlaylists: state.syncedPlaylists,
+      }),
+      migrate: (persisted, version) => {
+        const state = persisted as Partial<PlaylistState>;
+        // Covers used to wait in localStorage as data URLs
+        if (version < 1) {
+          state.playlists = (state.playlists ?? []).map((playlist) =>
+            playlist.cover?.startsWith("data:")
+              ? { ...playlist, cover: moveLegacyCover(playlist.id, playlist.cover) }
+              : playlist
+          );
+        }
+        return state as PlaylistState & PlaylistActions;
+      },
+    }
+  )
+);
+
+/** Display URL of a playlist's cover, given the store's `coverUrls`. */
+export function playlistCoverUrl(
+  playlist: Playlist,
+  coverUrls: Record<string, string>
+): string | undefined {
+  return playlist.cover === LOCAL_COVER ? coverUrls[playlist.id] : playlist.cover;
+}
+
+// -- Local covers --
+
+function showLocalCover(id: string, blob: Blob | null): void {
+  usePlaylistStore.setState((state) => {
+    const coverUrls = { ...state.coverUrls };
+    if (coverUrls[id]) URL.revokeObjectURL(coverUrls[id]);
+    if (blob) coverUrls[id] = URL.createObjectURL(blob);
+    else delete coverUrls[id];
+    return { coverUrls };
+  });
+}
+
+function dropLocalCover(id: string): void {
+  showLocalCover(id, null);
+  void playlistCovers.delete(id).catch((error) => {
+    console.warn("[Playlists] Could not delete cover:", error);
+  });
+}
+
+/** Drop covers whose playlist is gone or now has an uploaded cover. */
+function pruneLocalCovers(): void {
+  const { playlists, coverUrls } = usePlaylistStore.getState();
+  const waiting = new Set(playlists.filter((p) => p.cover === LOCAL_COVER).map((p) => p.id));
+  for (const id of Object.keys(coverUrls)) {
+    if (!waiting.has(id)) dropLocalCover(id);
+  }
+}
+
+async function loadLocalCovers(): Promise<void> {
+  const { playlists } = usePlaylistStore.getState();
+  for (const playlist of playlists) {
+    if (playlist.cover !== LOCAL_COVER) continue;
+    try {
+      showLocalCover(playlist.id, await playlistCovers.get(playlist.id));
+    } catch (error) {
+      console.warn("[Playlists] Could not load cover:", error);
+    }
+  }
+}
+
+/** Store a data URL cover in IndexedDB; returns the playlist's new `cover`. */
+function moveLegacyCover(id: string, dataUrl: string): string | undefined {
+  try {
+    const [header, data] = dataUrl.split(",", 2);
+    const type = header.match(/^data:([^;]+)/)?.[1] ?? "image/jpeg";
+    const bytes = Uint8Array.from(atob(data), (c) => c.charCodeAt(0));
+    void playlistCovers.put(id, new Blob([bytes], { type })).catch((error) => {
+      console.warn("[Playlists] Could not move cover:", error);
+    });
+    return LOCAL_COVER;
+  } catch (error) {
+    console.warn("[Playlists] Dropped an unreadable cover:", error);
+    return undefined;
+  }
+}
+
+void loadLocalCovers();
+
+// -- Sync --
+
+offlineQueue.register(SAVE_ACTION, async (payload) => {
+  const { id } = payload as { id: string };
+  const userId = currentUserId();
+  const playlist = usePlaylistStore.getState().playlists.find((p) => p.id === id);
+  // Deleted since, or signed out -- nothing to push
+  if (!userId || !playlist) return;
+
+  const saved = await pushPlaylist(userId, playlist);
+  // Adopt the stored copy (uploaded cover URL, server timestamps) unless
+  // the playlist changed again while it was being pushed
+  usePlaylistStore.setState((state) => ({
+    playlists: state.playlists.map((p) => (p === playlist ? saved : p)),
+    syncedPlaylists: state.playlists.some((p) => p.id === id)
+      ? { ...state.syncedPlaylists, [id]: true }
+      : state.syncedPlaylists,
+  }));
+  pruneLocalCovers();
+});
+
+offlineQueue.register(DELETE_ACTION, async (payload) => {
+  const { id } = payload as { id: string };
+  if (currentUserId()) await deleteRemotePlaylist(id);
+});
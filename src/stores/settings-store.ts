@@ -0,0 +1,170 @@
+/**
+ * Settings store -- current values for the settings registry.
+ *
+ * Local-first: values persist to localStorage and apply immediately.
+ * While signed in, changes to synced settings are queued for
+ * PocketBase, and `syncSettings()` (called by the auth store on
+ * sign-in) merges the account's settings, newest change winning.
+ * Settings saved under the old storage keys are migrated the first
+ * time the store loads.
+ */
+
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import { currentUserId } from "@/lib/pocketbase";
+import { offlineQueue } from "@/lib/offline-queue";
+import {
+  SETTINGS,
+  SETTING_KEYS,
+  defaultSettings,
+  isSettingKey,
+  parseSetting,
+  readLegacySettings,
+  type SettingKey,
+  type SettingValue,
+  type SettingValues,
+} from "@/lib/settings";
+import { fetchRemoteSettings, pushSetting } from "@/lib/settings-sync";
+
+interface SettingsState {
+  values: SettingValues;
+  /** When each setting last changed on this device, ms since epoch. */
+  changedAt: Partial<Record<SettingKey, number>>;
+}
+
+interface SettingsActions {
+  /** Ignored when `value` isn't valid for `key`. */
+  setSetting: <K extends SettingKey>(key: K, value: SettingValue<K>) => void;
+  resetSetting: (key: SettingKey) => void;
+  /** Merge with the signed-in user's settings on PocketBase. */
+  syncSettings: () => Promise<void>;
+}
+
+const STORAGE_KEY = "moonsway-settings";
+const SAVE_ACTION = "setting:save";
+
+function hasStoredSettings(): boolean {
+  try {
+    return localStorage.getItem(STORAGE_KEY) !== null;
+  } catch {
+    return false;
+  }
+}
+
+/** Stored values checked against the registry; anything invalid gets its default. */
+function validValues(stored: Partial<Record<string, unknown>> | undefined): SettingValues {
+  const values = defaultSettings() as Record<SettingKey, unknown>;
+  for (const key of SETTING_KEYS) {
+    const value = parseSetting(key, stored?.[key]);
+    if (value !== undefined) values[key] = value;
+  }
+  return values as SettingValues;
+}
+
+const migrated = hasStoredSettings() ? null : readLegacySettings();
+
+export const useSettingsStore = create<SettingsState & SettingsActions>()(
+  persist(
+    (set, get) => {
+      function queueSave(key: SettingKey): void {
+        if (SETTINGS[key].sync && currentUserId()) {
+          offlineQueue.enqueue(SAVE_ACTION, { key });
+        }
+      }
+
+      function apply(key: SettingKey, value: unknown, changedAt: number): void {
+        set((state) => ({
+          values: { ...state.values, [key]: value },
+          changedAt: { ...state.changedAt, [key]: changedAt },
+        }));
+      }
+
+      return {
+        values: validValues(migrated ?? undefined),
+        changedAt: {},
+
+        setSetting(key, value) {
+          const parsed = parseSetting(key, value);
+          if (parsed === undefined) {
+            console.warn(`[Settings] Ignoring invalid value for ${key}:`, value);
+            return;
+          }
+          if (JSON.stringify(parsed) === JSON.stringify(get().values[key])) return;
+
+          apply(key, parsed, Date.now());
+          queueSave(key);
+        },
+
+        resetSetting(key) {
+          get().setSetting(key, SETTINGS[key].default);
+        },
+
+        async syncSettings() {
+          const userId = currentUserId();
+          if (!userId) return;
+
+          let remote;
+          try {
+            remote = await fetchRemoteSettings(userId);
+          } catch (error) {
+            console.warn("[Settings] Could not load settings:", error);
+            return;
+          }
+
+          const remoteKeys = new Set<SettingKey>();
+          for (const { key, value, updatedAt } of remote) {
+            if (!SETTINGS[key].sync) continue;
+            remoteKeys.add(key);
+
+            const changedAt = get().changedAt[key] ?? 0;
+            if (changedAt > updatedAt) queueSave(key);
+            else apply(key, value, updatedAt);
+          }
+
+          // Settings the account doesn't have yet: send anything chosen here
+          const { values, changedAt } = get();
+          for (const key of SETTING_KEYS) {
+            if (!SETTINGS[key].sync || remoteKeys.has(key)) continue;
+            const isDefault =
+              JSON.stringify(values[key]) === JSON.stringify(SETTINGS[key].default);
+            if (changedAt[key] || !isDefault) queueSave(key);
+          }
+        },
+      };
+    },
+    {
+      name: STORAGE_KEY,
+      partialize: (state) => ({ values: state.values, changedAt: state.changedAt }),
+      merge: (persisted, current) => {
+        const stored = persisted as Partial<SettingsState> | undefined;
+        return {
+          ...current,
+          values: validValues(stored?.values),
+          changedAt: stored?.changedAt ?? {},
+        };
+      },
+    }
+  )
+);
+
+// Write migrated values out right away, since the old keys may be gone
+if (migrated) useSettingsStore.setState({});
+
+/** Read one setting outside React. */
+export function getSetting<K extends SettingKey>(key: K): SettingValue<K> {
+  return useSettingsStore.getState().values[key];
+}
+
+/** Subscribe a component to one setting. */
+export function useSetting<K extends SettingKey>(key: K): SettingValue<K> {
+  return useSettingsStore((s) => s.values[key]);
+}
+
+// -- Sync --
+
+offlineQueue.register(SAVE_ACTION, async (payload) => {
+  const { key } = payload as { key: string };
+  const userId = currentUserId();
+  if (!userId || !isSettingKey(key) || !SETTINGS[key].sync) return;
+  await pushSetting(userId, key, getSetting(key));
+});
@@ -7,6 +7,29 @@
 
 export type StreamQuality = "HI_RES_LOSSLESS" | "LOSSLESS" | "HIGH" | "LOW";
 
+// -- Streams --
+
+export interface ReplayGainInfo {
+  /** Gain in dB to bring the track to the reference level. */
+  trackGain?: number;
+  /** Peak sample amplitude (linear, 1.0 = full scale). */
+  trackPeak?: number;
+  albumGain?: number;
+  albumPeak?: number;
+}
+
+export interface StreamDescriptor {
+  url: string;
+  /** Quality the proxy actually delivered (may differ from the request). */
+  quality: StreamQuality;
+  codec?: string;
+  mimeType?: string;
+  bitDepth?: number;
+  sampleRate?: number;
+  audioMode?: string;
+  replayGain?: ReplayGainInfo;
+}
+
 // -- Search Results --
 
 export interface SearchResult<T> {
@@ -28,6 +51,11 @@ export interface Artist extends ArtistMinified {
   addedAt?: string;
 }
 
+/** Artist page payload: the artist plus their top tracks. */
+export interface ArtistDetail extends ArtistMinified {
+  tracks: Track[];
+}
+
 // -- Albums --
 
 export interface AlbumMinified {
@@ -46,6 +74,13 @@ export interface Album extends AlbumMinified {
   vibrantColor?: string;
 }
 
+// -- Discography --
+
+export type ReleaseGroup = "albums" | "singles" | "compilations" | "appearances";
+
+/** An artist's releases, grouped and sorted newest first. */
+export type Discography = Record<ReleaseGroup, Album[]>;
+
 // -- Tracks --
 
 export interface Track {
@@ -65,6 +100,20 @@ export interface Track {
 
 // -- Playlists --
 
+/** A TIDAL playlist as returned by search. */
+export interface PlaylistSummary {
+  id: string;
+  title: string;
+  image?: string;
+  description?: string;
+  numberOfTracks: number;
+}
+
+/** A TIDAL playlist with its tracks. */
+export interface PlaylistDetail extends PlaylistSummary {
+  tracks: Track[];
+}
+
 export interface PlaylistTrack extends Track {
   addedToPlaylistAt?: string;
 }
@@ -96,12 +145,37 @@ export interface Favorite {
 
 // -- History --
 
-export interface HistoryEntry {
+export type PlaySourceType =
+  | "album"
+  | "artist"
+  | "playlist"
+  | "user-playlist"
+  | "search"
+  | "favorites"
+  | "history"
+  | "downloads"
+  | "radio"
+  | "autoplay";
+
+/** Where a play was started from. */
+export interface PlaySource {
+  type: PlaySourceType;
   id?: string;
-  user: string;
-  trackId: string;
-  metadata: Track;
-  playedAt?: string;
+  /** Album title, playlist name, search query and so on. */
+  name?: string;
+}
+
+/** One listen of a track, logged once it passes the scrobble threshold. */
+export interface PlayEvent {
+  id: string;
+  track: Track;
+  /** ms since epoch */
+  startedAt: number;
+  /** Seconds actually heard; seeking past audio doesn't count. */
+  listened: number;
+  /** Played to the end rather than skipped. */
+  completed: boolean;
+  source?: PlaySource;
 }
 
 // -- Settings --
@@ -143,6 +217,11 @@ export interface PBHistory extends PBRecord {
   user: string;
   track_id: string;
   metadata: Track;
+  /** Empty on plays logged before listening was tracked. */
+  started_at: string;
+  listened: number;
+  completed: boolean;
+  source: PlaySource | null;
 }
 
 export interface PBSetting extends PBRecord {